@@ -1,8 +1,20 @@
 #!/usr/bin/env node
 
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
 import { select, confirm } from '@inquirer/prompts';
 import chalk from 'chalk';
-import { $gameState, startNewGame, makeMove } from './src/store/gameState.ts';
+import { createGame, applyMove, undoMove, redoMove, canUndo, canRedo, getUndosRemaining } from './src/utils/gameEngine.ts';
+import { parseSeed } from './src/utils/random.ts';
+import { createGameRecord, parseGameRecord, replayGameRecord } from './src/utils/gameRecord.ts';
+import { reviewGame } from './src/utils/gameReview.ts';
+import { checkFreePlayDeck, checkFreePlaySeed, getDailyChallenge, getDailyDate } from './src/utils/daily.ts';
+import { createSolver } from './src/utils/solver.ts';
+import { runSimulation } from './src/utils/monteCarlo.ts';
+import { getStrategy, strategies } from './src/utils/strategies.ts';
+import { formatStatsSummary, getRuleSetStats, parseRuleSetStats, recordRuleSetGame } from './src/utils/stats.ts';
+import { DEFAULT_RULES, describeRuleSet, isDefaultRules, parseRuleSet } from './src/utils/rules.ts';
 
 const cardSymbols = {
   Hearts: '♥',
@@ -18,6 +30,62 @@ const suitColors = {
   Spades: chalk.black
 };
 
+// Read an optional `--name <value>` (or `--name=<value>`) argument
+function getArgument(argv, name) {
+  const index = argv.findIndex(arg => arg === `--${name}` || arg.startsWith(`--${name}=`));
+  if (index === -1) return null;
+
+  return argv[index].includes('=') ? argv[index].split('=')[1] : (argv[index + 1] ?? '');
+}
+
+function getSeedArgument(argv) {
+  const value = getArgument(argv, 'seed');
+  if (value === null) return null;
+
+  const seed = parseSeed(value);
+  if (seed === null) {
+    console.error(chalk.red(`Invalid seed "${value}". Seeds must be whole numbers between 0 and 4294967295.`));
+    process.exit(1);
+  }
+  return seed;
+}
+
+// Daily challenges are only dealt with --daily until their day is over
+function checkSeedAllowed(seed, deck = null) {
+  try {
+    checkFreePlaySeed(seed);
+    checkFreePlayDeck(deck);
+  } catch (error) {
+    console.error(chalk.red(`${error.message}. Use --daily to play today's challenge.`));
+    process.exit(1);
+  }
+}
+
+// `--undos <number>` limits how many moves can be taken back per game
+function getUndoLimitArgument(argv) {
+  const value = getArgument(argv, 'undos');
+  if (value === null) return null;
+
+  if (!/^\d+$/.test(value)) {
+    console.error(chalk.red(`Invalid undo limit "${value}". Use a whole number, e.g. --undos 3.`));
+    process.exit(1);
+  }
+  return Number(value);
+}
+
+// `--rules "grid=3x4 deck=short win=clear-deck:2"` plays under another rule set
+function getRulesArgument(argv) {
+  const value = getArgument(argv, 'rules');
+  if (value === null) return DEFAULT_RULES;
+
+  try {
+    return parseRuleSet(value);
+  } catch (error) {
+    console.error(chalk.red(`Invalid rules "${value}". ${error.message}.`));
+    process.exit(1);
+  }
+}
+
 function displayCard(card) {
   const symbol = cardSymbols[card.suit];
   const color = suitColors[card.suit];
@@ -43,25 +111,23 @@ function displayStack(stack, row, col) {
   return `${stackLabel} ${cardDisplay}${countDisplay}`;
 }
 
-function displayGameState() {
-  const state = $gameState.get();
-  
+function displayGameState(state) {
   console.clear();
   console.log(chalk.bold.cyan('\n=== HIGH-LOW CARD GAME ===\n'));
   
   // Display deck count
-  console.log(chalk.yellow(`Cards remaining in deck: ${state.drawDeck.length}\n`));
+  console.log(chalk.yellow(`Cards remaining in deck: ${state.drawDeck.length}`));
+  console.log(chalk.gray(`${state.seed !== null ? `Seed: ${state.seed}` : 'Custom deal'}`));
+  if (!isDefaultRules(state.rules)) {
+    console.log(chalk.gray(`Rules: ${describeRuleSet(state.rules)}`));
+  }
+  console.log('');
   
   // Display stacks grid
   console.log(chalk.bold('Game Board:'));
-  for (let row = 0; row < 3; row++) {
-    let rowDisplay = '';
-    for (let col = 0; col < 3; col++) {
-      const stack = state.stacks[row][col];
-      rowDisplay += displayStack(stack, row + 1, col + 1) + '  ';
-    }
-    console.log(rowDisplay);
-  }
+  state.stacks.forEach((row, rowIndex) => {
+    console.log(row.map((stack, colIndex) => displayStack(stack, rowIndex + 1, colIndex + 1)).join('  '));
+  });
   console.log('');
   
   // Display game status
@@ -71,39 +137,63 @@ function displayGameState() {
   }
   
   if (state.lost) {
-    console.log(chalk.red.bold('💀 GAME OVER! All stacks failed! 💀'));
+    const standing = state.stacks.flat().some(stack => stack.status === 'active');
+    console.log(chalk.red.bold(`💀 GAME OVER! ${standing ? 'Too few stacks left standing' : 'All stacks failed'}! 💀`));
     return true;
   }
   
   return false;
 }
 
-async function getPlayerMove() {
-  const state = $gameState.get();
-  
+// Undo/redo entries for the move prompts. Their names start with "u" and "r"
+// so typing that key jumps straight to them.
+function getHistoryChoices(state) {
+  const choices = [];
+  if (canUndo(state)) {
+    const remaining = getUndosRemaining(state);
+    choices.push({
+      name: `Undo last move${remaining !== null ? ` (${remaining} left)` : ''}`,
+      value: { type: 'undo' }
+    });
+  }
+  if (canRedo(state)) {
+    choices.push({ name: 'Redo move', value: { type: 'redo' } });
+  }
+  return choices;
+}
+
+async function getPlayerAction(state) {
   // Get available stacks (not failed)
   const availableStacks = [];
-  for (let row = 0; row < 3; row++) {
-    for (let col = 0; col < 3; col++) {
-      if (state.stacks[row][col].status === 'active') {
-        const topCard = state.stacks[row][col].cards[state.stacks[row][col].cards.length - 1];
+  state.stacks.forEach((row, rowIndex) => {
+    row.forEach((stack, colIndex) => {
+      if (stack.status === 'active') {
+        const topCard = stack.cards[stack.cards.length - 1];
         availableStacks.push({
-          name: `[${row + 1},${col + 1}] ${displayCard(topCard)}`,
-          value: { row: row + 1, col: col + 1, card: topCard }
+          name: `[${rowIndex + 1},${colIndex + 1}] ${displayCard(topCard)}`,
+          value: { row: rowIndex + 1, col: colIndex + 1, card: topCard }
         });
       }
-    }
-  }
+    });
+  });
   
   if (availableStacks.length === 0) {
     return null;
   }
   
   const stack = await select({
-    message: 'Choose a stack to play on:',
-    choices: availableStacks
+    message: 'Choose a stack to play on (h: hint, u: undo, r: redo):',
+    choices: [
+      ...availableStacks.map(choice => ({ ...choice, value: { type: 'stack', ...choice.value } })),
+      { name: 'Hint: best move under optimal play', value: { type: 'hint' } },
+      ...getHistoryChoices(state)
+    ]
   });
   
+  if (stack.type !== 'stack') {
+    return stack;
+  }
+  
   const prediction = await select({
     message: 'Will the next card be:',
     choices: [
@@ -114,35 +204,253 @@ async function getPlayerMove() {
   });
   
   return {
-    stackRow: stack.row,
-    stackColumn: stack.col,
-    highLowSame: prediction,
-    card: stack.card
+    type: 'move',
+    move: {
+      stackRow: stack.row,
+      stackColumn: stack.col,
+      highLowSame: prediction,
+      card: stack.card
+    }
   };
 }
 
-async function playGame() {
-  startNewGame();
+// A finished game can be reviewed, and after a loss the last move can still be taken back
+async function getGameOverAction(state) {
+  return select({
+    message: 'What now?',
+    choices: [
+      { name: 'End game', value: null },
+      { name: 'Review moves', value: { type: 'review' } },
+      ...(state.won ? [] : getHistoryChoices(state))
+    ]
+  });
+}
+
+function describeEntry(entry) {
+  const { move, drawnCard, correct, passed } = entry;
+  const result = correct ? chalk.green('correct') : passed ? chalk.yellow('free pass') : chalk.red('wrong');
+  return `[${move.stackRow},${move.stackColumn}] ${displayCard(move.card)} ${move.highLowSame} → ${displayCard(drawnCard)} (${result})`;
+}
+
+// Load a game record file (see src/utils/gameRecord.ts) and optionally step through it.
+// Returns the state to keep playing from.
+async function loadRecord(path) {
+  const record = parseGameRecord(await readFile(path, 'utf8'));
+  checkSeedAllowed(record.seed, record.deck);
+  const finalState = replayGameRecord(record);
   
-  while (true) {
-    const gameOver = displayGameState();
-    if (gameOver) break;
+  const mode = await select({
+    message: `Loaded ${record.moves.length} moves from ${path}:`,
+    choices: [
+      { name: 'Continue from the last move', value: 'continue' },
+      { name: 'Replay move by move', value: 'replay' }
+    ]
+  });
+  if (mode === 'continue') {
+    return finalState;
+  }
+  
+  for (let count = 0; count <= record.moves.length; count++) {
+    const state = replayGameRecord(record, count);
+    displayGameState(state);
+    if (count > 0) {
+      console.log(chalk.gray(`Move ${count}/${record.moves.length}: `) + describeEntry(record.moves[count - 1]) + '\n');
+    }
+    if (count === record.moves.length) break;
     
-    const move = await getPlayerMove();
-    if (!move) break;
+    const next = await select({
+      message: 'Replay:',
+      choices: [
+        { name: 'Next move', value: 'next' },
+        { name: 'Play from here', value: 'play' }
+      ]
+    });
+    if (next === 'play') {
+      return state;
+    }
+  }
+  return finalState;
+}
+
+// Keep hints quick: positions needing more states than this are estimated
+const HINT_MAX_STATES = 200_000;
+
+// Describe the optimal move, or the best estimate when the position is too big to solve
+function getHint(solver, state) {
+  const { winProbability, bestMove, moves, exact } = solver.solveGame(state);
+  if (!bestMove) return null;
+
+  return [
+    chalk.cyan(`${exact ? 'Hint' : 'Hint (estimated)'}: play [${bestMove.stackRow},${bestMove.stackColumn}] ${displayCard(bestMove.card)} ${bestMove.highLowSame}`),
+    chalk.gray(`  This guess succeeds ${(moves[0].successProbability * 100).toFixed(1)}% of the time`),
+    exact
+      ? chalk.gray(`  Chance of winning with optimal play: ${(winProbability * 100).toFixed(2)}%`)
+      : chalk.gray(`  Estimated chance of winning: ${(winProbability * 100).toFixed(2)}% (too many cards left to solve exactly)`)
+  ].join('\n') + '\n';
+}
+
+const ratingColors = {
+  best: chalk.green,
+  inaccuracy: chalk.yellow,
+  blunder: chalk.red
+};
+
+// Every move against the best one available, then how much came down to luck
+function getReview(state) {
+  const { moves, summary } = reviewGame(createGameRecord(state));
+  const percent = (probability) => `${Math.round(probability * 100)}%`;
+  
+  const lines = moves.map((review) => {
+    const best = review.rating === 'best'
+      ? ''
+      : chalk.gray(` (best: [${review.bestMove.stackRow},${review.bestMove.stackColumn}] ${review.bestMove.highLowSame} ${percent(review.bestSuccessProbability)})`);
+    return `${String(review.moveNumber).padStart(3)}. ${describeEntry(review)} ${percent(review.successProbability)} ` +
+      ratingColors[review.rating](review.rating) + best;
+  });
+  
+  lines.push(
+    '',
+    `Correct guesses: ${summary.correctGuesses}/${summary.moves} ` +
+      chalk.gray(`(expected ${summary.expectedCorrectGuesses.toFixed(1)}, with the best moves ${summary.bestCorrectGuesses.toFixed(1)})`),
+    `Luck: ${summary.luck >= 0 ? '+' : ''}${summary.luck.toFixed(1)} correct guesses`,
+    `Decisions: -${summary.decisionCost.toFixed(1)} correct guesses ` +
+      chalk.gray(`(${summary.ratings.best} best, ${summary.ratings.inaccuracy} inaccuracies, ${summary.ratings.blunder} blunders)`)
+  );
+  return lines.join('\n') + '\n';
+}
+
+// Stats are kept across sessions, like the browser keeps them in local storage
+const STATS_PATH = join(homedir(), '.high-low', 'stats.json');
+
+async function loadStats() {
+  try {
+    return parseRuleSetStats(JSON.parse(await readFile(STATS_PATH, 'utf8')));
+  } catch {
+    return {};
+  }
+}
+
+async function saveStats(stats) {
+  try {
+    await mkdir(dirname(STATS_PATH), { recursive: true });
+    await writeFile(STATS_PATH, JSON.stringify(stats));
+  } catch (error) {
+    console.error(chalk.yellow(`Could not save stats to ${STATS_PATH}: ${error.message}`));
+  }
+}
+
+// Each rule set keeps its own stats, so only the ones for the rules just played are shown
+function displayStats(stats, rules) {
+  console.log(chalk.bold(isDefaultRules(rules) ? '\nYour stats:' : `\nYour stats under these rules (${describeRuleSet(rules)}):`));
+  formatStatsSummary(getRuleSetStats(stats, rules)).forEach(line => console.log(line));
+  console.log('');
+}
+
+// Returns the game as it first ended, which is what the stats count;
+// taking back the losing move and finishing again does not change it
+async function playGame(initialState) {
+  let state = initialState;
+  let firstEnding = null;
+  const solver = createSolver({ maxStates: HINT_MAX_STATES });
+  let message = null; // Hint or review to show under the board
+  
+  while (true) {
+    const gameOver = displayGameState(state);
+    if (gameOver && !firstEnding) firstEnding = state;
+    if (message) {
+      console.log(message);
+      message = null;
+    }
+    const action = gameOver ? await getGameOverAction(state) : await getPlayerAction(state);
+    if (!action) break;
     
-    makeMove(move);
+    if (action.type === 'hint') {
+      message = getHint(solver, state);
+    } else if (action.type === 'review') {
+      message = getReview(state);
+    } else if (action.type === 'undo') {
+      state = undoMove(state);
+    } else if (action.type === 'redo') {
+      state = redoMove(state);
+    } else {
+      ({ state } = applyMove(state, action.move));
+    }
+  }
+  return firstEnding;
+}
+
+// `--simulate <games> [--strategy <name>] [--rules <rules>]` plays fresh deals without prompting and prints the results
+function runSimulationCommand(argv) {
+  const iterations = Number(getArgument(argv, 'simulate'));
+  if (!Number.isInteger(iterations) || iterations <= 0) {
+    console.error(chalk.red('Invalid number of games. Use a whole number, e.g. --simulate 1000.'));
+    process.exit(1);
+  }
+  
+  const strategyName = getArgument(argv, 'strategy') ?? 'greedy-probability';
+  const strategy = getStrategy(strategyName);
+  if (!strategy) {
+    console.error(chalk.red(`Unknown strategy "${strategyName}". Choose one of: ${strategies.map(s => s.name).join(', ')}.`));
+    process.exit(1);
   }
+  
+  const seed = getSeedArgument(argv);
+  const rules = getRulesArgument(argv);
+  console.log(chalk.bold.cyan(`Simulating ${iterations} games with the ${strategy.name} strategy...`));
+  if (!isDefaultRules(rules)) {
+    console.log(chalk.gray(`Rules: ${describeRuleSet(rules)}`));
+  }
+  const result = runSimulation(null, { iterations, maxDepth: 100, strategy, seed: seed ?? undefined, rules });
+  const { lower, upper, confidence } = result.confidenceInterval;
+  
+  console.log(`Win rate: ${chalk.bold((result.winProbability * 100).toFixed(2) + '%')}`);
+  console.log(chalk.gray(`${confidence * 100}% confidence interval: ${(lower * 100).toFixed(2)}% - ${(upper * 100).toFixed(2)}%`));
+  console.log(`Average game length: ${result.averageGameLength.toFixed(1)} moves`);
 }
 
 async function main() {
+  if (getArgument(process.argv.slice(2), 'simulate') !== null) {
+    runSimulationCommand(process.argv.slice(2));
+    return;
+  }
+  
   console.log(chalk.bold.cyan('Welcome to High-Low Card Game!'));
   console.log(chalk.gray('Try to empty the deck by correctly guessing if the next card will be higher or lower.\n'));
   
+  // Only the first game uses the seed from the command line; later games are dealt randomly
+  let seed = getSeedArgument(process.argv.slice(2));
+  let undoLimit = getUndoLimitArgument(process.argv.slice(2));
+  let rules = getRulesArgument(process.argv.slice(2));
+  checkSeedAllowed(seed);
+  
+  // `--daily` plays today's challenge, the same deal everyone gets, without undos
+  if (process.argv.slice(2).includes('--daily')) {
+    const challenge = getDailyChallenge(getDailyDate());
+    console.log(chalk.bold(`Daily #${challenge.number} (${challenge.date})\n`));
+    seed = challenge.seed;
+    undoLimit = 0;
+    rules = DEFAULT_RULES;
+  }
+  const recordPath = getArgument(process.argv.slice(2), 'record');
   let playAgain = true;
   
+  // A loaded record replaces the first game
+  let loadedState = recordPath ? await loadRecord(recordPath) : null;
+  let stats = await loadStats();
+  
   while (playAgain) {
-    await playGame();
+    const startState = loadedState ?? createGame({ seed: seed ?? undefined, undoLimit, rules });
+    const finalState = await playGame(startState);
+    // A loaded record that had already ended was counted when it was played
+    if (finalState && !(startState.won || startState.lost)) {
+      stats = recordRuleSetGame(stats, finalState);
+      await saveStats(stats);
+    }
+    displayStats(stats, startState.rules);
+    seed = null;
+    undoLimit = getUndoLimitArgument(process.argv.slice(2));
+    rules = getRulesArgument(process.argv.slice(2));
+    loadedState = null;
     
     playAgain = await confirm({
       message: 'Play again?',
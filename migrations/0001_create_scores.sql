@@ -0,0 +1,14 @@
+-- Each player's best verified result per board, kept apart for assisted and unassisted play
+CREATE TABLE scores (
+  board TEXT NOT NULL,          -- "daily:YYYY-MM-DD" or "seed:<seed>"
+  assisted INTEGER NOT NULL,    -- 1 when EZ Mode, EZ-EZ Mode, card counting or an undo was used
+  player TEXT NOT NULL,
+  won INTEGER NOT NULL,
+  cards_cleared INTEGER NOT NULL,
+  score INTEGER NOT NULL,
+  record TEXT NOT NULL,         -- The game record the result was replayed from
+  submitted_at TEXT NOT NULL,
+  PRIMARY KEY (board, assisted, player)
+);
+
+CREATE INDEX scores_by_assisted ON scores (assisted, player);
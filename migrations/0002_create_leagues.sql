@@ -0,0 +1,30 @@
+-- Private leagues, joined with an invite code
+CREATE TABLE leagues (
+  code TEXT PRIMARY KEY,        -- Six-character invite code
+  name TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE TABLE league_members (
+  league_code TEXT NOT NULL REFERENCES leagues (code),
+  player TEXT NOT NULL,         -- Nickname, unique within the league
+  token TEXT NOT NULL,          -- Proves membership when submitting results
+  joined_at TEXT NOT NULL,
+  PRIMARY KEY (league_code, player),
+  UNIQUE (league_code, token)
+);
+
+-- One daily challenge result per member per day, replayed before it is stored
+CREATE TABLE league_results (
+  league_code TEXT NOT NULL,
+  player TEXT NOT NULL,
+  date TEXT NOT NULL,           -- YYYY-MM-DD of the daily challenge
+  assisted INTEGER NOT NULL,
+  won INTEGER NOT NULL,
+  cards_cleared INTEGER NOT NULL,
+  score INTEGER NOT NULL,
+  record TEXT NOT NULL,
+  submitted_at TEXT NOT NULL,
+  PRIMARY KEY (league_code, player, date),
+  FOREIGN KEY (league_code, player) REFERENCES league_members (league_code, player)
+);
@@ -0,0 +1,10 @@
+-- Each member's one attempt per day at the daily challenge, played as a server game
+CREATE TABLE league_attempts (
+  league_code TEXT NOT NULL,
+  player TEXT NOT NULL,
+  date TEXT NOT NULL,           -- YYYY-MM-DD of the daily challenge
+  game_id TEXT NOT NULL,        -- The game in the GAMES namespace; results are read from it
+  started_at TEXT NOT NULL,
+  PRIMARY KEY (league_code, player, date),
+  FOREIGN KEY (league_code, player) REFERENCES league_members (league_code, player)
+);
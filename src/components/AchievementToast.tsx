@@ -0,0 +1,45 @@
+import { useEffect, type FunctionComponent } from "react";
+import { useStore } from "@nanostores/react";
+import { $achievements, dismissAchievementToast } from "../store/achievements";
+import { openAchievements } from "../store/uiState";
+import { getAchievement } from "../utils/achievements";
+
+// How long each unlock stays on screen
+const TOAST_DURATION_MS = 4000;
+
+// Announces newly unlocked achievements one at a time
+const AchievementToast: FunctionComponent = () => {
+  const { toasts } = useStore($achievements);
+  const id = toasts[0];
+  const achievement = id ? getAchievement(id) : undefined;
+
+  useEffect(() => {
+    if (!id) return;
+    const timeout = setTimeout(() => dismissAchievementToast(id), TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [id]);
+
+  if (!achievement) return null;
+
+  return (
+    <div className="fixed bottom-4 inset-x-0 z-50 flex justify-center pointer-events-none px-4">
+      <button
+        data-testid="achievement-toast"
+        role="status"
+        onClick={() => {
+          dismissAchievementToast(achievement.id);
+          openAchievements();
+        }}
+        className="pointer-events-auto flex items-center gap-3 px-4 py-2 bg-gray-900 text-white rounded-lg shadow-lg text-left"
+      >
+        <span className="text-2xl" aria-hidden="true">{achievement.icon}</span>
+        <span>
+          <span className="block text-xs text-amber-300">Achievement unlocked</span>
+          <span className="block text-sm font-semibold">{achievement.title}</span>
+        </span>
+      </button>
+    </div>
+  );
+};
+
+export default AchievementToast;
@@ -0,0 +1,80 @@
+import type { FunctionComponent } from "react";
+import { useStore } from "@nanostores/react";
+import { $achievements } from "../store/achievements";
+import { $uiState, closeAchievements } from "../store/uiState";
+import { achievements, isUnlocked } from "../utils/achievements";
+
+// Every achievement, unlocked ones first in the order they are defined
+const AchievementsDialog: FunctionComponent = () => {
+  const uiState = useStore($uiState);
+  const { progress } = useStore($achievements);
+
+  if (!uiState.achievementsOpen) return null;
+
+  const unlockedCount = achievements.filter((achievement) => isUnlocked(progress, achievement.id)).length;
+  const sorted = [...achievements].sort(
+    (a, b) => Number(isUnlocked(progress, b.id)) - Number(isUnlocked(progress, a.id))
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={closeAchievements}>
+      <div
+        data-testid="achievements-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="achievements-title"
+        className="w-full max-w-md max-h-full overflow-y-auto bg-white rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 id="achievements-title" className="text-lg font-semibold text-gray-800">
+            Achievements <span className="text-sm font-normal text-gray-500">{unlockedCount}/{achievements.length}</span>
+          </h2>
+          <button
+            onClick={closeAchievements}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close achievements"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <ul className="grid grid-cols-2 gap-2 p-4">
+          {sorted.map((achievement) => {
+            const entry = progress[achievement.id];
+            const unlocked = isUnlocked(progress, achievement.id);
+            return (
+              <li
+                key={achievement.id}
+                data-testid="achievement"
+                data-unlocked={unlocked}
+                className={`p-3 rounded border text-sm ${unlocked ? 'border-amber-300 bg-amber-50' : 'border-gray-200 bg-gray-50 text-gray-500'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className={`text-2xl ${unlocked ? '' : 'grayscale opacity-40'}`} aria-hidden="true">{achievement.icon}</span>
+                  <span className="font-semibold">{achievement.title}</span>
+                </div>
+                <p className="text-xs mt-1">{achievement.description}</p>
+                {unlocked ? (
+                  <p className="text-xs text-amber-700 mt-1">Unlocked {new Date(entry.unlockedAt!).toLocaleDateString()}</p>
+                ) : achievement.goal > 1 && (
+                  <div className="mt-1">
+                    <div className="h-1.5 bg-gray-200 rounded overflow-hidden">
+                      <div className="h-full bg-amber-400" style={{ width: `${((entry?.progress ?? 0) / achievement.goal) * 100}%` }} />
+                    </div>
+                    <p className="text-xs mt-0.5">{entry?.progress ?? 0}/{achievement.goal}</p>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default AchievementsDialog;
@@ -1,26 +1,88 @@
 import type { FunctionComponent, RefObject } from "react";
 import { useStore } from "@nanostores/react";
-import { makeMove, peekMove, makeMoveImmediate, $gameState } from "../store/gameState";
+import { makeMove, makeMoveImmediate, $gameState } from "../store/gameState";
+import { InvalidMoveError, OutOfCardsError, previewMove } from "../utils/gameEngine";
 import { queueCardAnimation, getElementRect, $isAnimating } from "../store/animationManager";
+import { $serverGame, applyServerState, submitServerMove } from "../store/serverGame";
 import type { PlayerMove } from "../types/GameState";
 import type { Card } from "../types/CardTypes";
 
 interface AnimatedMoveManagerProps {
   deckRef: RefObject<HTMLDivElement | null>;
   stackRefs: RefObject<(HTMLDivElement | null)[][]>;
-  children: (handleAnimatedMove: (action: 'high' | 'low' | 'same', stackRow: 1 | 2 | 3, stackColumn: 1 | 2 | 3) => void) => React.ReactNode;
+  onMoveError: (message: string) => void; // A move that could not be played
+  children: (handleAnimatedMove: (action: 'high' | 'low' | 'same', stackRow: number, stackColumn: number) => void) => React.ReactNode;
 }
 
 const AnimatedMoveManager: FunctionComponent<AnimatedMoveManagerProps> = ({
   deckRef,
   stackRefs,
+  onMoveError,
   children
 }) => {
   const isAnimating = useStore($isAnimating);
   const gameState = useStore($gameState);
+  const serverGame = useStore($serverGame);
 
-  const handleAnimatedMove = async (action: 'high' | 'low' | 'same', stackRow: 1 | 2 | 3, stackColumn: 1 | 2 | 3) => {
-    if (isAnimating) return;
+  // Animate a card dealt by the server. The board only changes once the server answers.
+  const handleServerMove = async (move: PlayerMove) => {
+    let response;
+    try {
+      response = await submitServerMove(move);
+    } catch {
+      // The server game store shows the error
+      return;
+    }
+
+    const applyResponse = () => {
+      try {
+        applyServerState(response);
+      } catch {
+        // A state that does not continue the game stays off the board, and the store shows why
+      }
+    };
+
+    const { outcome } = response;
+    const fromRect = getElementRect(deckRef.current);
+    const toRect = getElementRect(stackRefs.current?.[move.stackRow - 1]?.[move.stackColumn - 1] ?? null);
+    if (!fromRect || !toRect) {
+      applyResponse();
+      return;
+    }
+
+    queueCardAnimation({
+      type: 'card-move',
+      card: outcome.drawnCard,
+      fromRect,
+      toRect,
+      targetRow: move.stackRow,
+      targetColumn: move.stackColumn,
+      // A free pass keeps the stack, so it animates like a correct guess
+      wasCorrectGuess: outcome.correct || outcome.passed,
+      duration: 400, // This will be overridden by animation manager
+      onComplete: applyResponse
+    });
+  };
+
+  // A move the game no longer allows is reported, not thrown out of an event handler or animation callback
+  const handleMoveError = (error: unknown) => {
+    if (error instanceof InvalidMoveError || error instanceof OutOfCardsError) {
+      onMoveError(error.message);
+      return;
+    }
+    throw error;
+  };
+
+  const playMove = (play: () => void) => {
+    try {
+      play();
+    } catch (error) {
+      handleMoveError(error);
+    }
+  };
+
+  const handleAnimatedMove = async (action: 'high' | 'low' | 'same', stackRow: number, stackColumn: number) => {
+    if (isAnimating || serverGame.pending) return;
     
     // Get the current top card from the stack
     const stack = gameState.stacks[stackRow - 1][stackColumn - 1];
@@ -35,49 +97,44 @@ const AnimatedMoveManager: FunctionComponent<AnimatedMoveManagerProps> = ({
       card: topCard
     };
 
+    // In server play the browser doesn't know the next card, so it asks instead of peeking
+    if (serverGame.id) {
+      await handleServerMove(move);
+      return;
+    }
+
+    // Preview the move with the game engine to get the card and result
+    let preview;
     try {
-      // Peek at the move to get the card and result
-      const { drawnCard, wouldBeCorrect } = peekMove(move);
-      
-      // Get element positions
-      const deckElement = deckRef.current;
-      const stackElement = stackRefs.current?.[stackRow - 1]?.[stackColumn - 1];
-      
-      // Get rects for animation
-      const fromRect = getElementRect(deckElement);
-      const toRect = getElementRect(stackElement);
-      
-      if (!fromRect || !toRect) {
-        // Fallback to immediate move if we can't get positions
-        makeMove(move);
-        return;
-      }
-      
-      // Queue the animation
-      queueCardAnimation({
-        type: 'card-move',
-        card: drawnCard,
-        fromRect,
-        toRect,
-        targetRow: stackRow,
-        targetColumn: stackColumn,
-        wasCorrectGuess: wouldBeCorrect,
-        duration: 400, // This will be overridden by animation manager
-        onComplete: () => {
-          // Apply the move after animation completes
-          makeMoveImmediate(move);
-        }
-      });
-      
+      preview = previewMove(gameState, move);
     } catch (error) {
-      console.error('Error during animated move:', error);
-      // Fallback to immediate move
-      try {
-        makeMove(move);
-      } catch (moveError) {
-        console.error('Fallback move also failed:', moveError);
-      }
+      handleMoveError(error);
+      return;
     }
+    const { drawnCard, wouldBeCorrect, wouldPass } = preview;
+
+    const fromRect = getElementRect(deckRef.current);
+    const toRect = getElementRect(stackRefs.current?.[stackRow - 1]?.[stackColumn - 1] ?? null);
+
+    if (!fromRect || !toRect) {
+      // Fallback to immediate move if we can't get positions
+      playMove(() => makeMove(move));
+      return;
+    }
+
+    // Queue the animation
+    queueCardAnimation({
+      type: 'card-move',
+      card: drawnCard,
+      fromRect,
+      toRect,
+      targetRow: stackRow,
+      targetColumn: stackColumn,
+      wasCorrectGuess: wouldBeCorrect || wouldPass,
+      duration: 400, // This will be overridden by animation manager
+      // Apply the move after animation completes; the game may have changed in the meantime
+      onComplete: () => playMove(() => makeMoveImmediate(move))
+    });
   };
 
   return <>{children(handleAnimatedMove)}</>;
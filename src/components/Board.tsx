@@ -1,36 +1,65 @@
 import { useStore } from "@nanostores/react";
-import { useRef, useEffect } from "react";
-import { $gameState, startNewGame } from "../store/gameState";
-import { $uiState, toggleEZMode, toggleCardCounting, toggleCardCountingPanel, setSelectedStack, clearSelectedStack, type StackPosition } from "../store/uiState";
+import { useRef, useEffect, useState } from "react";
+import { $gameState, undo, redo, exportGameRecord, importGameRecord, onGameEnd } from "../store/gameState";
+import { $isAnimating } from "../store/animationManager";
+import { initGamePersistence } from "../store/gamePersistence";
+import { initSettingsPersistence } from "../store/settingsPersistence";
+import { initDailyChallenge, startFreePlay } from "../store/dailyChallenge";
+import { $serverGame, $serverPlay, initServerGame, startServerGame } from "../store/serverGame";
+import { $analysis, initAnalysis } from "../store/analysis";
+import { initAssists } from "../store/assists";
+import { initLeaderboard } from "../store/leaderboard";
+import { initLeagues } from "../store/leagues";
+import { initStats } from "../store/stats";
+import { initAchievements } from "../store/achievements";
+import { initGameTimer } from "../store/gameTimer";
+import { $moveSuggestion, initMoveSuggestions } from "../store/moveSuggestion";
+import { $uiState, toggleEZMode, toggleEZEZMode, toggleCardCounting, toggleCardCountingPanel, setSelectedStack, clearSelectedStack, openSettings, openGameOver, openStats, openAchievements, type StackPosition } from "../store/uiState";
 import StacksComponent from "./Stacks";
 import CardPile from "./CardPile";
 import BackCardComponent from "./BackCard";
 import MobileActionPanel from "./MobileActionPanel";
 import FlyingCard from "./FlyingCard";
 import CardCountingPanel from "./CardCountingPanel";
+import SettingsDialog from "./SettingsDialog";
+import GameReview from "./GameReview";
+import LeaguesDialog from "./LeaguesDialog";
+import StatsDialog from "./StatsDialog";
+import AchievementsDialog from "./AchievementsDialog";
+import AchievementToast from "./AchievementToast";
+import GameOverDialog from "./GameOverDialog";
+import DailyChallengeBar from "./DailyChallengeBar";
+import FairnessCheck from "./FairnessCheck";
+import Leaderboard from "./Leaderboard";
 import AnimatedMoveManager from "./AnimatedMoveManager";
 import { useDeviceDetection } from "../hooks/useDeviceDetection";
+import { parseSeed } from "../utils/random";
+import { canRedo, canUndo, getUndosRemaining } from "../utils/gameEngine";
 
 const BoardComponent = () => {
   const gameState = useStore($gameState);
   const uiState = useStore($uiState);
+  const isAnimating = useStore($isAnimating);
+  const moveSuggestion = useStore($moveSuggestion);
+  const analysis = useStore($analysis);
+  const serverGame = useStore($serverGame);
   const deviceInfo = useDeviceDetection();
+  const [seedInput, setSeedInput] = useState("");
+  const [recordMessage, setRecordMessage] = useState<{ text: string; isError: boolean } | null>(null);
   const deckRef = useRef<HTMLDivElement>(null);
-  const stackRefs = useRef<(HTMLDivElement | null)[][]>([
-    [null, null, null],
-    [null, null, null],
-    [null, null, null]
-  ]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Filled in by Stacks, row by row, for whatever grid the rules deal
+  const stackRefs = useRef<(HTMLDivElement | null)[][]>([]);
 
   // Use touch-based interactions for touch devices OR small screens on any device
   const useTouchInterface = deviceInfo.isTouchDevice || deviceInfo.isMobile;
 
   const handleStackSelect = (row: number, column: number) => {
-    const stackPosition: StackPosition = { row: row as 1 | 2 | 3, column: column as 1 | 2 | 3 };
+    const stackPosition: StackPosition = { row, column };
     setSelectedStack(stackPosition);
   };
 
-  const handleMobileAction = (handleAnimatedMove: (action: 'high' | 'low' | 'same', stackRow: 1 | 2 | 3, stackColumn: 1 | 2 | 3) => void) => 
+  const handleMobileAction = (handleAnimatedMove: (action: 'high' | 'low' | 'same', stackRow: number, stackColumn: number) => void) => 
     (action: 'high' | 'low' | 'same') => {
       if (uiState.selectedStack) {
         handleAnimatedMove(action, uiState.selectedStack.row, uiState.selectedStack.column);
@@ -47,6 +76,116 @@ const BoardComponent = () => {
     clearSelectedStack();
   };
 
+  const undosRemaining = getUndosRemaining(gameState);
+
+  const handleUndo = () => {
+    clearSelectedStack();
+    undo();
+  };
+
+  const handleRedo = () => {
+    clearSelectedStack();
+    redo();
+  };
+
+  // Download the game record and copy it to the clipboard for bug reports
+  const handleExportGame = async () => {
+    const record = exportGameRecord();
+    const blob = new Blob([record], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `high-low-${gameState.seed ?? 'custom'}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    try {
+      await navigator.clipboard.writeText(record);
+      setRecordMessage({ text: 'Game record downloaded and copied', isError: false });
+    } catch {
+      setRecordMessage({ text: 'Game record downloaded', isError: false });
+    }
+  };
+
+  const handleImportGame = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      importGameRecord(await file.text());
+      clearSelectedStack();
+      setRecordMessage({ text: `Loaded ${file.name}`, isError: false });
+    } catch (error) {
+      setRecordMessage({ text: error instanceof Error ? error.message : 'Could not load game', isError: true });
+    } finally {
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  const handleMoveError = (message: string) => setRecordMessage({ text: message, isError: true });
+
+  // Start from the entered seed when there is a valid one, otherwise deal a random game.
+  // A new game always leaves the daily challenge.
+  const startGame = (seed?: number) => {
+    if ($serverPlay.get()) {
+      // Errors are shown from the server game store
+      startServerGame(seed).catch(() => {});
+    } else {
+      try {
+        startFreePlay(seed);
+      } catch (error) {
+        setRecordMessage({ text: error instanceof Error ? error.message : 'Could not deal that game', isError: true });
+      }
+    }
+  };
+
+  const handleStartNewGame = () => startGame(parseSeed(seedInput) ?? undefined);
+
+  // On touch devices EZ-EZ Mode opens the action panel on its recommended stack
+  // after every move. Cancelling leaves it closed until the next move.
+  useEffect(() => {
+    if (moveSuggestion && useTouchInterface && !isAnimating) {
+      setSelectedStack({ row: moveSuggestion.move.stackRow, column: moveSuggestion.move.stackColumn });
+    }
+  }, [moveSuggestion, isAnimating, useTouchInterface]);
+
+  // Restore saved settings before the game so they apply to it
+  useEffect(() => initSettingsPersistence(), []);
+
+  // Restore daily attempts before the game, so the restored game is tracked
+  useEffect(() => initDailyChallenge(), []);
+
+  // Restore the saved game and keep saving it. The `?action=new` app shortcut
+  // starts a fresh game instead; the parameter is dropped so a reload resumes it.
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const forceNewGame = url.searchParams.get('action') === 'new';
+    if (forceNewGame) {
+      url.searchParams.delete('action');
+      window.history.replaceState(null, '', url);
+    }
+    return initGamePersistence({ forceNewGame });
+  }, []);
+
+  // Resume a server game after the saved game is restored, so it replaces it
+  useEffect(() => initServerGame(), []);
+
+  // Track assistance once the saved game is back, for the leaderboard, leagues and achievements
+  useEffect(() => initAssists(), []);
+  useEffect(() => initLeaderboard(), []);
+  useEffect(() => initLeagues(), []);
+
+  // Count finished games, skipping one that was restored already finished
+  useEffect(() => initStats(), []);
+  // After the assists, so a game's assisted flag is up to date when it ends
+  useEffect(() => initAchievements(), []);
+
+  // Time each game, and sum it up once it ends
+  useEffect(() => initGameTimer(), []);
+  useEffect(() => onGameEnd(openGameOver), []);
+
+  // Heavy analysis runs in a worker; moves cancel whatever it was working on
+  useEffect(() => initAnalysis(), []);
+  useEffect(() => initMoveSuggestions(), []);
+
   // Expose game state to window for testing
   useEffect(() => {
     if (typeof window !== 'undefined') {
@@ -69,15 +208,33 @@ const BoardComponent = () => {
       <div id="controls-space" className={`
         ${deviceInfo.isMobile ? 'w-full flex flex-col items-center gap-3 mt-2' : 'flex flex-col items-center gap-2'}
       `}>
-        <button
-          className={`
-            bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors
-            ${deviceInfo.isMobile ? 'px-6 py-3 text-lg font-semibold' : 'px-4 py-2'}
-          `}
-          onClick={startNewGame}
-        >
-          {deviceInfo.isMobile ? 'New Game' : 'Start New Game'}
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            className={`
+              bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors
+              ${deviceInfo.isMobile ? 'px-6 py-3 text-lg font-semibold' : 'px-4 py-2'}
+            `}
+            onClick={handleStartNewGame}
+          >
+            {deviceInfo.isMobile ? 'New Game' : 'Start New Game'}
+          </button>
+          <input
+            data-testid="seed-input"
+            type="text"
+            inputMode="numeric"
+            placeholder="Seed (optional)"
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            aria-label="Game seed"
+            className={`
+              border border-gray-300 rounded bg-white text-gray-700
+              ${parseSeed(seedInput) === null && seedInput.trim() !== '' ? 'border-red-400' : ''}
+              ${deviceInfo.isMobile ? 'w-36 px-3 py-3 text-base' : 'w-32 px-2 py-2 text-sm'}
+            `}
+          />
+        </div>
+
+        <DailyChallengeBar />
         
         {/* Quick Settings */}
         <div className={`flex gap-2 ${deviceInfo.isMobile ? 'flex-col' : 'flex-row'}`}>
@@ -92,6 +249,24 @@ const BoardComponent = () => {
           >
             EZ Mode {uiState.ezMode.enabled ? 'ON' : 'OFF'}
           </button>
+          <button
+            data-testid="best-move-toggle"
+            onClick={toggleEZEZMode}
+            title="EZ-EZ Mode: highlight the best move on the board"
+            className={`
+              px-3 py-1 text-sm rounded transition-colors
+              ${uiState.ezEzMode.enabled 
+                ? 'bg-amber-500 text-white hover:bg-amber-600' 
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}
+            `}
+          >
+            ★ Best Move {uiState.ezEzMode.enabled ? 'ON' : 'OFF'}
+            {uiState.ezEzMode.enabled && analysis.suggest?.status === 'running' && analysis.suggest.gameState === gameState && (
+              <span data-testid="best-move-progress" className="ml-1 text-xs opacity-80">
+                {analysis.suggest.total > 0 ? `${Math.round((analysis.suggest.completed / analysis.suggest.total) * 100)}%` : '…'}
+              </span>
+            )}
+          </button>
           <button
             onClick={() => {
               if (uiState.cardCounting.enabled) {
@@ -114,7 +289,84 @@ const BoardComponent = () => {
               : 'Card Count OFF'
             }
           </button>
+          <button
+            data-testid="settings-button"
+            onClick={openSettings}
+            className="px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            ⚙ Settings
+          </button>
+          <button
+            data-testid="stats-button"
+            onClick={openStats}
+            className="px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            📊 Player Stats
+          </button>
+          <button
+            data-testid="achievements-button"
+            onClick={openAchievements}
+            className="px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            🏅 Achievements
+          </button>
+        </div>
+
+        {/* Undo / Redo */}
+        <div className="flex items-center gap-2">
+          <button
+            data-testid="undo-button"
+            onClick={handleUndo}
+            disabled={isAnimating || !canUndo(gameState)}
+            className="px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            ↶ Undo{undosRemaining !== null ? ` (${undosRemaining} left)` : ''}
+          </button>
+          <button
+            data-testid="redo-button"
+            onClick={handleRedo}
+            disabled={isAnimating || !canRedo(gameState)}
+            className="px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Redo ↷
+          </button>
         </div>
+
+        {/* Game Records */}
+        <div className="flex items-center gap-2">
+          <button
+            data-testid="export-game-button"
+            onClick={handleExportGame}
+            disabled={gameState.stacks[0][0].cards.length === 0 || (serverGame.id !== null && !gameState.won && !gameState.lost)}
+            title={serverGame.id !== null ? 'Server games can be exported once they end' : undefined}
+            className="px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export game
+          </button>
+          <button
+            data-testid="import-game-button"
+            onClick={() => importInputRef.current?.click()}
+            disabled={isAnimating}
+            className="px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import game
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".txt,text/plain"
+            className="hidden"
+            onChange={(e) => handleImportGame(e.target.files?.[0])}
+          />
+        </div>
+        {recordMessage && (
+          <p
+            data-testid="record-message"
+            className={`text-xs text-center ${recordMessage.isError ? 'text-red-600' : 'text-gray-500'}`}
+          >
+            {recordMessage.text}
+          </p>
+        )}
       </div>
       
       {/* Deck Display */}
@@ -139,10 +391,30 @@ const BoardComponent = () => {
         >
           Deck: {gameState.drawDeck.length} cards
         </p>
+        {gameState.stacks[0][0].cards.length > 0 && gameState.seed !== null && (
+          <p data-testid="game-seed" className="text-gray-400 text-xs text-center">
+            Seed: {gameState.seed}
+          </p>
+        )}
+        {serverGame.id && (
+          <p data-testid="server-game" className="text-gray-400 text-xs text-center">
+            🔒 Dealt by the server{serverGame.pending ? ' · waiting…' : ''}
+            {serverGame.commitment && (
+              <span data-testid="server-commitment" title={serverGame.commitment}>
+                {' '}· commitment {serverGame.commitment.slice(0, 12)}…
+              </span>
+            )}
+          </p>
+        )}
+        {serverGame.error && (
+          <p data-testid="server-game-error" className="text-red-600 text-xs text-center">
+            {serverGame.error}
+          </p>
+        )}
       </div>
       
       {/* Game Stacks */}
-      <AnimatedMoveManager deckRef={deckRef} stackRefs={stackRefs}>
+      <AnimatedMoveManager deckRef={deckRef} stackRefs={stackRefs} onMoveError={handleMoveError}>
         {(handleAnimatedMove) => (
           <div id="stacks-space" className={`
             ${deviceInfo.isMobile 
@@ -191,6 +463,22 @@ const BoardComponent = () => {
               💀 Game Over! 💀
             </div>
           )}
+
+          <div className="flex justify-center items-start gap-2 mt-2">
+            <button
+              data-testid="game-summary-button"
+              onClick={openGameOver}
+              className="px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300"
+            >
+              Game summary
+            </button>
+          </div>
+          <div className="mt-2">
+            <FairnessCheck />
+          </div>
+          <div className="mt-3">
+            <Leaderboard />
+          </div>
         </div>
       )}
 
@@ -200,7 +488,7 @@ const BoardComponent = () => {
           const deckElement = deckRef.current;
           const targetRow = uiState.animation.targetPosition.row;
           const targetColumn = uiState.animation.targetPosition.column;
-          const stackElement = stackRefs.current[targetRow - 1][targetColumn - 1];
+          const stackElement = stackRefs.current[targetRow - 1]?.[targetColumn - 1];
           
           if (deckElement && stackElement) {
             const deckRect = deckElement.getBoundingClientRect();
@@ -225,7 +513,7 @@ const BoardComponent = () => {
 
       {/* Touch Action Panel - render for all touch devices */}
       {useTouchInterface && (
-        <AnimatedMoveManager deckRef={deckRef} stackRefs={stackRefs}>
+        <AnimatedMoveManager deckRef={deckRef} stackRefs={stackRefs} onMoveError={handleMoveError}>
           {(handleAnimatedMove) => (
             <MobileActionPanel
               selectedStack={uiState.selectedStack}
@@ -239,6 +527,25 @@ const BoardComponent = () => {
 
       {/* Card Counting Panel */}
       <CardCountingPanel />
+
+      {/* Settings Dialog */}
+      <SettingsDialog />
+
+      {/* Post-game Review */}
+      <GameReview />
+
+      {/* Leagues Dialog */}
+      <LeaguesDialog />
+
+      {/* Player Stats */}
+      <StatsDialog />
+
+      {/* Game-over Summary */}
+      <GameOverDialog onPlayAgain={() => startGame()} onReplay={startGame} preferNativeShare={useTouchInterface} />
+
+      {/* Achievements */}
+      <AchievementsDialog />
+      <AchievementToast />
     </div>
   );
 };
@@ -1,9 +1,12 @@
 import type { FunctionComponent } from "react";
 import { useStore } from "@nanostores/react";
+import { $analysis, cancelAnalysis, requestAnalysis, type AnalysisEntry } from "../store/analysis";
 import { $gameState } from "../store/gameState";
 import { $uiState, toggleCardCountingPanel, toggleCardCounting } from "../store/uiState";
-import { getAllRanks, formatProbability, getCardCounts } from "../utils/probabilityCalculations";
-import type { CardCount, ProbabilityCalculation } from "../types/GameState";
+import { formatProbability, getCardCounts } from "../utils/probabilityCalculations";
+import { getDeckSize, keepsStackAlive } from "../utils/rules";
+import type { CardCount, GameState, ProbabilityCalculation } from "../types/GameState";
+import type { AnalysisKind } from "../workers/analysisProtocol";
 
 interface CardCountingPanelProps {
   className?: string;
@@ -97,6 +100,98 @@ const ProbabilityDisplay: FunctionComponent<{
   );
 };
 
+const AnalysisProgress = <K extends AnalysisKind>({ entry, label }: { entry: AnalysisEntry<K>; label: string }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-xs text-gray-600">
+      <span>{label}</span>
+      <button onClick={() => cancelAnalysis(entry.request.type)} className="text-purple-700 hover:underline">
+        Cancel
+      </button>
+    </div>
+    <div className="bg-gray-200 rounded-full h-2">
+      <div
+        className="h-2 rounded-full bg-purple-500 transition-all duration-300"
+        style={{ width: `${entry.total > 0 ? (entry.completed / entry.total) * 100 : 0}%` }}
+      />
+    </div>
+  </div>
+);
+
+const OptimalPlay: FunctionComponent<{ gameState: GameState }> = ({ gameState }) => {
+  const analysis = useStore($analysis);
+  const gameOver = gameState.won || gameState.lost || gameState.drawDeck.length === 0;
+
+  // Only show analyses of the position on the board
+  const solve = analysis.solve?.gameState === gameState ? analysis.solve : undefined;
+  const simulate = analysis.simulate?.gameState === gameState ? analysis.simulate : undefined;
+  const bestSoFar = solve?.result?.moves[0] ?? solve?.partial?.[0];
+  // Too big to solve exactly: every number shown is an estimate
+  const estimated = solve?.status === 'done' && solve.result?.exact === false;
+  const simulation = simulate?.result ?? simulate?.partial;
+
+  return (
+    <div data-testid="optimal-play" className="space-y-3 text-sm">
+      {solve?.status === 'running' && <AnalysisProgress entry={solve} label="Solving every move…" />}
+      {solve?.status === 'error' && (
+        <div className="text-gray-600">
+          {solve.error?.message}
+        </div>
+      )}
+      {bestSoFar && (solve?.status === 'running' || solve?.status === 'done') && (
+        <>
+          <div className="flex justify-between">
+            <span>
+              {solve.status !== 'done' ? 'Best so far:' : estimated ? 'Estimated win chance:' : 'Win chance:'}
+            </span>
+            <span className="font-semibold">{formatProbability(bestSoFar.winProbability)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>{estimated ? 'Estimated best move:' : 'Best move:'}</span>
+            <span className="font-semibold">
+              Stack {bestSoFar.move.stackRow},{bestSoFar.move.stackColumn} {bestSoFar.move.highLowSame} ({formatProbability(bestSoFar.successProbability)})
+            </span>
+          </div>
+        </>
+      )}
+
+      {simulate?.status === 'running' && <AnalysisProgress entry={simulate} label="Simulating games…" />}
+      {simulation && simulation.iterations > 0 && (
+        <div className="flex justify-between">
+          <span>Greedy play wins:</span>
+          <span className="font-semibold">
+            {formatProbability(simulation.winProbability)} ({formatProbability(simulation.confidenceInterval.lower)}–{formatProbability(simulation.confidenceInterval.upper)})
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          data-testid="solve-button"
+          onClick={() => requestAnalysis({ type: 'solve' })}
+          disabled={gameOver || solve?.status === 'running'}
+          className="px-3 py-2 text-sm bg-purple-100 text-purple-700 hover:bg-purple-200 disabled:opacity-50 rounded-lg transition-colors"
+        >
+          Solve
+        </button>
+        <button
+          data-testid="simulate-button"
+          onClick={() => requestAnalysis({
+            type: 'simulate',
+            strategy: 'greedy-probability',
+            iterations: 1000,
+            moveIterations: 0,
+            fromCurrentState: true
+          })}
+          disabled={gameOver || simulate?.status === 'running'}
+          className="px-3 py-2 text-sm bg-purple-100 text-purple-700 hover:bg-purple-200 disabled:opacity-50 rounded-lg transition-colors"
+        >
+          Simulate 1,000
+        </button>
+      </div>
+    </div>
+  );
+};
+
 const CardCountingPanel: FunctionComponent<CardCountingPanelProps> = ({ 
   className = ""
 }) => {
@@ -104,7 +199,8 @@ const CardCountingPanel: FunctionComponent<CardCountingPanelProps> = ({
   const uiState = useStore($uiState);
   
   // Calculate card counts dynamically from current seen cards for real-time updates
-  const currentCardCounts = getCardCounts(gameState.cardCounting.seenCards);
+  const { deck, rankOrder } = gameState.rules;
+  const currentCardCounts = getCardCounts(gameState.cardCounting.seenCards, deck, rankOrder);
 
   // Calculate current probabilities based on remaining cards in deck
   const currentProbabilities = (() => {
@@ -112,25 +208,21 @@ const CardCountingPanel: FunctionComponent<CardCountingPanelProps> = ({
     
     // For display purposes, show general probabilities based on deck composition
     const totalRemaining = gameState.drawDeck.length;
-    const ranks = getAllRanks();
     
     // Count remaining cards by rank value
     let higher = 0;
     let lower = 0;
     let same = 0;
     
-    // Assume we're comparing against a middle card (7) for general display
-    const baseRankValue = 7;
+    // Assume we're comparing against a middle card (7) for general display,
+    // under the game's rank order and tie rule
+    const baseCard = { suit: 'Hearts', rank: '7' } as const;
     
     currentCardCounts.forEach(count => {
-      const rankValue = ranks.indexOf(count.rank) + 2; // Convert to 2-14 scale
-      if (rankValue > baseRankValue) {
-        higher += count.remaining;
-      } else if (rankValue < baseRankValue) {
-        lower += count.remaining;
-      } else {
-        same += count.remaining;
-      }
+      const card = { suit: 'Hearts', rank: count.rank } as const;
+      if (keepsStackAlive(card, baseCard, 'high', gameState.rules)) higher += count.remaining;
+      if (keepsStackAlive(card, baseCard, 'low', gameState.rules)) lower += count.remaining;
+      if (keepsStackAlive(card, baseCard, 'same', gameState.rules)) same += count.remaining;
     });
     
     return {
@@ -187,7 +279,7 @@ const CardCountingPanel: FunctionComponent<CardCountingPanelProps> = ({
               </div>
               <div className="flex justify-between">
                 <span>Total cards:</span>
-                <span className="font-semibold">52</span>
+                <span className="font-semibold">{getDeckSize(deck)}</span>
               </div>
             </div>
           </div>
@@ -209,6 +301,12 @@ const CardCountingPanel: FunctionComponent<CardCountingPanelProps> = ({
             />
           </div>
 
+          {/* Optimal Play */}
+          <div className="bg-purple-50 p-4 rounded-lg border border-purple-200">
+            <h3 className="font-semibold text-purple-800 mb-3">Optimal Play</h3>
+            <OptimalPlay gameState={gameState} />
+          </div>
+
           {/* Quick Stats */}
           <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
             <h3 className="font-semibold text-gray-800 mb-3">Quick Stats</h3>
@@ -8,6 +8,7 @@ interface CardPileProps {
   'data-status'?: string;
   'data-row'?: number;
   'data-column'?: number;
+  'data-recommended'?: boolean;
 }
 
 const CardPile: FunctionComponent<CardPileProps> = ({ 
@@ -17,7 +18,8 @@ const CardPile: FunctionComponent<CardPileProps> = ({
   'data-testid': dataTestId,
   'data-status': dataStatus,
   'data-row': dataRow,
-  'data-column': dataColumn
+  'data-column': dataColumn,
+  'data-recommended': dataRecommended
 }) => {
   // Responsive dimensions based on card size
   const dimensions = {
@@ -36,6 +38,7 @@ const CardPile: FunctionComponent<CardPileProps> = ({
       data-status={dataStatus}
       data-row={dataRow}
       data-column={dataColumn}
+      data-recommended={dataRecommended}
     >
       {/* Container with responsive dimensions */}
       <div className="absolute inset-0">
@@ -0,0 +1,75 @@
+import { useEffect, useState, type FunctionComponent } from "react";
+import { useStore } from "@nanostores/react";
+import { $daily, startFreePlay } from "../store/dailyChallenge";
+import { startLeagueDaily } from "../store/leagues";
+import { openLeagues } from "../store/uiState";
+import { formatCountdown, getDailyChallenge, getDailyDate, getTimeUntilNextDaily } from "../utils/daily";
+
+// Ticks every second so the countdown and the date stay current
+const useNow = () => {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+  return now;
+};
+
+const DailyChallengeBar: FunctionComponent = () => {
+  const daily = useStore($daily);
+  const now = useNow();
+  const isDaily = daily.mode === 'daily' && daily.date !== null;
+  const attempt = isDaily ? daily.attempts[daily.date!] : null;
+  const todaysAttempt = daily.attempts[getDailyDate(now)];
+  // The challenge on the board can be yesterday's after midnight passes mid-game
+  const newChallengeReady = isDaily && daily.date !== getDailyDate(now);
+
+  const toggleClass = (active: boolean) => `
+    px-3 py-1 text-sm transition-colors
+    ${active ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}
+  `;
+
+  return (
+    <div data-testid="daily-challenge-bar" className="flex flex-col items-center gap-1">
+      <div className="flex items-center gap-2">
+        <div className="flex rounded overflow-hidden" role="group" aria-label="Game mode">
+          <button
+            data-testid="free-play-button"
+            onClick={() => { if (isDaily) startFreePlay(); }}
+            aria-pressed={!isDaily}
+            className={toggleClass(!isDaily)}
+          >
+            Free Play
+          </button>
+          <button
+            data-testid="daily-button"
+            onClick={() => startLeagueDaily()}
+            aria-pressed={isDaily}
+            className={toggleClass(isDaily)}
+          >
+            📅 Daily{todaysAttempt?.finished ? ' ✓' : ''}
+          </button>
+        </div>
+        <button
+          data-testid="leagues-button"
+          onClick={openLeagues}
+          className={`${toggleClass(false)} rounded`}
+        >
+          👥 Leagues
+        </button>
+      </div>
+
+      {isDaily && attempt && (
+        <p data-testid="daily-status" className="text-xs text-gray-500 text-center">
+          Daily #{getDailyChallenge(attempt.date).number} ({attempt.date})
+          {attempt.finished && ` · ${attempt.won ? 'Won' : `Lost with ${attempt.cardsLeft} cards left`}`}
+          {newChallengeReady
+            ? ' · A new challenge is ready'
+            : attempt.finished && ` · Next challenge in ${formatCountdown(getTimeUntilNextDaily(now))}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DailyChallengeBar;
@@ -5,10 +5,11 @@ import { $uiState } from "../store/uiState";
 import { calculateStackProbabilities } from "../utils/probabilityCalculations";
 
 interface DesktopStackControlsProps {
-  stackRow: 1 | 2 | 3;
-  stackColumn: 1 | 2 | 3;
+  stackRow: number;
+  stackColumn: number;
   isActive: boolean;
   onGuess: (guess: "high" | "low" | "same") => void;
+  recommendedGuess?: "high" | "low" | "same";
   size?: 'small' | 'medium' | 'large';
 }
 
@@ -17,6 +18,7 @@ const DesktopStackControls: FunctionComponent<DesktopStackControlsProps> = ({
   stackColumn,
   isActive,
   onGuess,
+  recommendedGuess,
   size = 'medium'
 }) => {
   const gameState = useStore($gameState);
@@ -24,7 +26,7 @@ const DesktopStackControls: FunctionComponent<DesktopStackControlsProps> = ({
   
   // Calculate probabilities for this stack if EZ Mode is enabled
   const probabilities = uiState.ezMode.enabled && isActive 
-    ? calculateStackProbabilities(gameState.stacks, stackRow, stackColumn, gameState.drawDeck.length)
+    ? calculateStackProbabilities(gameState.stacks, stackRow, stackColumn, gameState.drawDeck.length, gameState.rules)
     : null;
 
   if (!isActive) {
@@ -37,12 +39,18 @@ const DesktopStackControls: FunctionComponent<DesktopStackControlsProps> = ({
     large: uiState.ezMode.enabled ? 'text-xs py-2 px-3' : 'text-sm py-3 px-4'
   };
 
+  // EZ-EZ Mode: the recommended guess stands out as soon as the stack is hovered
+  const recommendedClass = (guess: "high" | "low" | "same") =>
+    recommendedGuess === guess ? 'ring-2 ring-inset ring-amber-300 group-hover:!opacity-80' : '';
+
   return (
     <>
       {/* Higher Button */}
       <button
         onClick={() => onGuess("high")}
+        data-recommended={recommendedGuess === "high" || undefined}
         className={`
+          ${recommendedClass("high")}
           flex-1 flex flex-col items-center justify-center opacity-0 group-hover:opacity-30 hover:!opacity-90 
           text-white font-semibold backdrop-blur-sm transition-all duration-150
           ${sizeClasses[size]}
@@ -70,7 +78,9 @@ const DesktopStackControls: FunctionComponent<DesktopStackControlsProps> = ({
       {/* Same Button */}
       <button
         onClick={() => onGuess("same")}
+        data-recommended={recommendedGuess === "same" || undefined}
         className={`
+          ${recommendedClass("same")}
           flex-1 flex flex-col items-center justify-center opacity-0 group-hover:opacity-30 hover:!opacity-90 
           text-white font-semibold backdrop-blur-sm transition-all duration-150
           ${sizeClasses[size]}
@@ -98,7 +108,9 @@ const DesktopStackControls: FunctionComponent<DesktopStackControlsProps> = ({
       {/* Lower Button */}
       <button
         onClick={() => onGuess("low")}
+        data-recommended={recommendedGuess === "low" || undefined}
         className={`
+          ${recommendedClass("low")}
           flex-1 flex flex-col items-center justify-center opacity-0 group-hover:opacity-30 hover:!opacity-90 
           text-white font-semibold backdrop-blur-sm transition-all duration-150
           ${sizeClasses[size]}
@@ -9,6 +9,7 @@ interface EZModeButtonProps {
   ezModeSettings: EZModeSettings;
   onClick: () => void;
   disabled?: boolean;
+  recommended?: boolean; // Highlighted by EZ-EZ Mode
   size?: 'small' | 'medium' | 'large';
 }
 
@@ -19,6 +20,7 @@ const EZModeButton: FunctionComponent<EZModeButtonProps> = ({
   ezModeSettings,
   onClick,
   disabled = false,
+  recommended = false,
   size = 'medium'
 }) => {
   const getDisplayContent = () => {
@@ -105,14 +107,15 @@ const EZModeButton: FunctionComponent<EZModeButtonProps> = ({
         active:scale-95
         backdrop-blur-sm
         disabled:opacity-50 disabled:cursor-not-allowed
-        border border-white/20
+        ${recommended ? 'ring-4 ring-amber-400' : 'border border-white/20'}
       `}
       onClick={onClick}
       disabled={disabled}
-      aria-label={`${primary}${secondary ? `, ${secondary} probability` : ''}`}
+      data-recommended={recommended || undefined}
+      aria-label={`${primary}${secondary ? `, ${secondary} probability` : ''}${recommended ? ', recommended' : ''}`}
     >
       <span className={ezMode && secondary ? 'text-sm leading-tight' : 'text-base'}>
-        {primary}
+        {recommended && '★ '}{primary}
       </span>
       {secondary && ezMode && (
         <span className="text-xs opacity-90 mt-0.5 leading-tight">
@@ -0,0 +1,50 @@
+import { useEffect, useState, type FunctionComponent } from "react";
+import { useStore } from "@nanostores/react";
+import { $gameState } from "../store/gameState";
+import { $serverGame } from "../store/serverGame";
+import { verifyFairGame, type FairnessReport } from "../utils/fairness";
+
+// Checks a finished server game against the commitment published when it was dealt
+const FairnessCheck: FunctionComponent = () => {
+  const gameState = useStore($gameState);
+  const { commitment, nonce, observed } = useStore($serverGame);
+  const [report, setReport] = useState<FairnessReport | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    if (!commitment || !nonce || !observed) return;
+
+    let cancelled = false;
+    verifyFairGame(commitment, nonce, gameState, observed).then((result) => {
+      if (!cancelled) setReport(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [commitment, nonce, observed, gameState]);
+
+  if (!commitment || !nonce || !observed) return null;
+
+  if (!report) {
+    return <p data-testid="fairness-check" className="text-xs text-gray-500 text-center">Verifying the deal…</p>;
+  }
+
+  return (
+    <div data-testid="fairness-check" data-valid={report.valid} className="text-xs text-center">
+      {report.valid ? (
+        <p className="text-green-700" title={`Seed ${gameState.seed}, nonce ${nonce}`}>
+          ✅ Fair deal: seed {gameState.seed} matches the commitment and all {observed.draws.length} draws shown
+        </p>
+      ) : (
+        <>
+          <p className="text-red-600 font-semibold">⚠️ This deal could not be verified</p>
+          <ul className="text-red-600">
+            {report.problems.map((problem) => <li key={problem}>{problem}</li>)}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FairnessCheck;
@@ -1,5 +1,7 @@
 import type { FunctionComponent } from "react";
 import { useEffect, useState } from "react";
+import { useStore } from "@nanostores/react";
+import { $animationTimings } from "../store/animationManager";
 import type { Card } from "../types/CardTypes";
 import CardComponent from "./Card";
 import "../styles/animations.css";
@@ -25,20 +27,17 @@ const FlyingCard: FunctionComponent<FlyingCardProps> = ({
   const deltaX = toRect.left - fromRect.left;
   const deltaY = toRect.top - fromRect.top;
 
-  // Check for reduced motion preference
-  const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
-  const animationDuration = prefersReducedMotion ? 50 : 400;
+  // Timings follow the reduced motion preference and the animation settings
+  const { animationDuration, pauseDuration } = useStore($animationTimings);
 
   useEffect(() => {
     // Show card at deck for a moment, then start animation
-    const pauseDuration = prefersReducedMotion ? 100 : 800; // Longer pause for users to read the card
-    
     const timer = setTimeout(() => {
       setIsAnimating(true);
     }, pauseDuration);
     
     return () => clearTimeout(timer);
-  }, [prefersReducedMotion]);
+  }, [pauseDuration]);
 
   return (
     <div
@@ -0,0 +1,192 @@
+import type { FunctionComponent } from "react";
+import { useStore } from "@nanostores/react";
+import { $assists } from "../store/assists";
+import { $gameState } from "../store/gameState";
+import { $gameTimer, getTimeTaken } from "../store/gameTimer";
+import { $uiState, closeGameOver, openGameReview } from "../store/uiState";
+import type { Card } from "../types/CardTypes";
+import type { GameState } from "../types/GameState";
+import { getUnfinishedDaily } from "../utils/daily";
+import { getPlayedMoves } from "../utils/gameEngine";
+import { formatCardCode } from "../utils/gameRecord";
+import { formatRate, getGameStats, type GuessType } from "../utils/stats";
+import ShareButton from "./ShareButton";
+
+interface GameOverDialogProps {
+  onPlayAgain: () => void;              // Deal a fresh game
+  onReplay: (seed: number) => void;     // Deal this game's seed again
+  preferNativeShare: boolean;
+}
+
+const guessLabels: Record<GuessType, string> = {
+  high: 'Higher',
+  low: 'Lower',
+  same: 'Same'
+};
+
+// m:ss, or h:mm:ss for games over an hour
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// A win under a draw target leaves cards in the deck, and a loss can leave stacks standing
+const getHeadline = (state: GameState) => {
+  if (state.won) return state.drawDeck.length === 0 ? '🎉 Deck cleared!' : '🎉 Draw target reached!';
+  return state.stacks.flat().some((stack) => stack.status === 'active') ? '💀 Too few stacks left standing' : '💀 All stacks failed';
+};
+
+const isRed = (card: Card) => card.suit === 'Hearts' || card.suit === 'Diamonds';
+
+const Fact: FunctionComponent<{ label: string; value: string | number; testId?: string }> = ({ label, value, testId }) => (
+  <div className="text-center">
+    <div data-testid={testId} className="text-lg font-semibold text-gray-800">{value}</div>
+    <div className="text-xs text-gray-500">{label}</div>
+  </div>
+);
+
+// Opens when a game ends: how it went, what comes next, and after a loss the cards that were left
+const GameOverDialog: FunctionComponent<GameOverDialogProps> = ({ onPlayAgain, onReplay, preferNativeShare }) => {
+  const uiState = useStore($uiState);
+  const gameState = useStore($gameState);
+  const timer = useStore($gameTimer);
+  const { assisted } = useStore($assists);
+
+  if (!uiState.gameOverOpen || (!gameState.won && !gameState.lost)) return null;
+
+  const stats = getGameStats(gameState);
+  const moves = getPlayedMoves(gameState).length;
+  const correct = stats.guesses.reduce((total, guess) => total + guess.correct, 0);
+  const timeTaken = getTimeTaken(timer);
+  const { seed } = gameState;
+  // Free play refuses a daily challenge's deal until its day is over, so there is nothing to replay yet
+  const unfinishedDaily = seed === null ? null : getUnfinishedDaily(seed);
+  const replayTitle =
+    seed === null
+      ? 'Only seeded deals can be replayed'
+      : unfinishedDaily
+        ? `Daily #${unfinishedDaily.number} can be replayed once its day is over`
+        : undefined;
+  // The deck is drawn from its end, so the next card is the last one
+  const remaining = [...gameState.drawDeck].reverse();
+
+  const handleReview = () => {
+    closeGameOver();
+    openGameReview();
+  };
+
+  const handleReplay = () => {
+    if (seed === null || unfinishedDaily) return;
+    closeGameOver();
+    onReplay(seed);
+  };
+
+  const handlePlayAgain = () => {
+    closeGameOver();
+    onPlayAgain();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={closeGameOver}>
+      <div
+        data-testid="game-over-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="game-over-title"
+        className="w-full max-w-md max-h-full overflow-y-auto bg-white rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2
+            id="game-over-title"
+            className={`text-lg font-semibold ${gameState.won ? 'text-green-600' : 'text-red-600'}`}
+          >
+            {getHeadline(gameState)}
+          </h2>
+          <button
+            onClick={closeGameOver}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close summary"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div data-testid="game-over-facts" className="grid grid-cols-3 gap-3 p-4 border-b border-gray-200">
+          <Fact label="Cards cleared" value={`${moves}/${moves + gameState.drawDeck.length}`} testId="game-over-cards" />
+          <Fact label="Correct guesses" value={`${correct}/${moves}`} />
+          <Fact label="Longest stack" value={stats.longestStack} />
+          <Fact label="Time" value={timeTaken === null ? '–' : formatDuration(timeTaken)} testId="game-over-time" />
+          <Fact label="Undos used" value={gameState.undosUsed} />
+          <Fact label="Assists" value={assisted ? 'Used' : 'None'} testId="game-over-assists" />
+        </div>
+
+        <section className="p-4 border-b border-gray-200">
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">Guesses</h3>
+          <table data-testid="game-over-guesses" className="w-full text-xs">
+            <tbody>
+              {stats.guesses.map((guess) => (
+                <tr key={guess.type}>
+                  <td className="text-gray-600">{guessLabels[guess.type]}</td>
+                  <td className="text-right">{guess.correct}/{guess.made} correct</td>
+                  <td className="text-right text-gray-500 w-12">{formatRate(guess.successRate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {gameState.lost && remaining.length > 0 && (
+          <section className="p-4 border-b border-gray-200">
+            <h3 className="text-sm font-semibold text-gray-700 mb-1">What would have come next</h3>
+            <ol data-testid="game-over-remaining" className="flex flex-wrap gap-1 font-mono text-xs">
+              {remaining.map((card) => (
+                <li
+                  key={`${card.rank}-${card.suit}`}
+                  className={`px-1 rounded border border-gray-200 ${isRed(card) ? 'text-red-600' : 'text-gray-800'}`}
+                >
+                  {formatCardCode(card)}
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+
+        <div className="flex flex-wrap justify-center items-start gap-2 p-4">
+          <button
+            data-testid="play-again-button"
+            onClick={handlePlayAgain}
+            className="px-3 py-1 text-sm rounded transition-colors bg-blue-500 text-white hover:bg-blue-600"
+          >
+            Play again
+          </button>
+          <button
+            data-testid="replay-deal-button"
+            onClick={handleReplay}
+            disabled={replayTitle !== undefined}
+            title={replayTitle}
+            className="px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Replay same deal
+          </button>
+          <button
+            data-testid="summary-review-button"
+            onClick={handleReview}
+            className="px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            Review game
+          </button>
+          <ShareButton preferNativeShare={preferNativeShare} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GameOverDialog;
@@ -0,0 +1,141 @@
+import { useEffect, useMemo, type FunctionComponent } from "react";
+import { useStore } from "@nanostores/react";
+import { $gameState } from "../store/gameState";
+import { $uiState, closeGameReview } from "../store/uiState";
+import { createGameRecord, formatCardCode } from "../utils/gameRecord";
+import { reviewGame, type MoveRating, type ReviewSummary } from "../utils/gameReview";
+import { formatProbability } from "../utils/probabilityCalculations";
+import type { PlayerMove } from "../types/GameState";
+
+const ratingStyles: Record<MoveRating, { label: string; className: string }> = {
+  best: { label: 'Best', className: 'bg-green-100 text-green-700' },
+  inaccuracy: { label: 'Inaccuracy', className: 'bg-yellow-100 text-yellow-800' },
+  blunder: { label: 'Blunder', className: 'bg-red-100 text-red-700' }
+};
+
+const formatMove = (move: PlayerMove) =>
+  `${move.stackRow},${move.stackColumn} ${formatCardCode(move.card)} ${move.highLowSame}`;
+
+const formatGuesses = (guesses: number) => guesses.toFixed(1);
+
+// One or two sentences on whether the draws or the choices decided the game
+const describeSummary = (summary: ReviewSummary): string => {
+  const luck =
+    Math.abs(summary.luck) < 0.5
+      ? 'The draws went about as expected'
+      : summary.luck > 0
+        ? `Lucky draws gave you ${formatGuesses(summary.luck)} more correct guesses than expected`
+        : `Unlucky draws cost you ${formatGuesses(-summary.luck)} correct guesses`;
+  const decisions =
+    summary.decisionCost < 0.05
+      ? 'and your choices were as good as they could be.'
+      : `and your choices gave up ${formatGuesses(summary.decisionCost)} correct guesses against the best moves.`;
+  return `${luck}, ${decisions}`;
+};
+
+const GameReview: FunctionComponent = () => {
+  const uiState = useStore($uiState);
+  const gameState = useStore($gameState);
+  const gameOver = gameState.won || gameState.lost;
+
+  const review = useMemo(
+    () => (gameOver ? reviewGame(createGameRecord(gameState)) : null),
+    [gameState, gameOver]
+  );
+
+  // A new game or an undo closes the review rather than leaving it to reappear at the next game over
+  useEffect(() => {
+    if (!gameOver && $uiState.get().reviewOpen) closeGameReview();
+  }, [gameOver]);
+
+  if (!uiState.reviewOpen || !review) {
+    return null;
+  }
+
+  const { summary } = review;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={closeGameReview}
+    >
+      <div
+        data-testid="game-review"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="game-review-title"
+        className="w-full max-w-lg max-h-full overflow-y-auto bg-white rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 id="game-review-title" className="text-lg font-semibold text-gray-800">Game Review</h2>
+          <button
+            onClick={closeGameReview}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close review"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Summary */}
+        <div data-testid="review-summary" className="p-4 space-y-3 border-b border-gray-200 text-sm">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <div className="text-xs text-gray-500">Correct guesses</div>
+              <div className="font-semibold">{summary.correctGuesses} / {summary.moves}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">Expected</div>
+              <div className="font-semibold">{formatGuesses(summary.expectedCorrectGuesses)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500">With best moves</div>
+              <div className="font-semibold">{formatGuesses(summary.bestCorrectGuesses)}</div>
+            </div>
+          </div>
+          <div className="flex justify-center gap-2">
+            {(Object.keys(ratingStyles) as MoveRating[]).map((rating) => (
+              <span key={rating} className={`px-2 py-0.5 rounded text-xs ${ratingStyles[rating].className}`}>
+                {ratingStyles[rating].label}: {summary.ratings[rating]}
+              </span>
+            ))}
+          </div>
+          <p className="text-gray-700">{describeSummary(summary)}</p>
+        </div>
+
+        {/* Moves */}
+        <ol className="p-4 space-y-1 text-sm">
+          {review.moves.map((move) => (
+            <li
+              key={move.moveNumber}
+              data-testid="review-move"
+              data-rating={move.rating}
+              className="flex items-center gap-2"
+            >
+              <span className="w-6 text-right text-gray-400">{move.moveNumber}.</span>
+              <span className="font-mono">{formatMove(move.move)}</span>
+              <span className={move.correct ? 'text-green-600' : move.passed ? 'text-gray-500' : 'text-red-600'}>
+                → {formatCardCode(move.drawnCard)} {move.correct ? '✓' : move.passed ? '=' : '✗'}
+              </span>
+              <span className="ml-auto text-gray-600">
+                {formatProbability(move.successProbability)}
+                {move.rating !== 'best' && (
+                  <span className="text-gray-400"> (best {formatMove(move.bestMove)}, {formatProbability(move.bestSuccessProbability)})</span>
+                )}
+              </span>
+              <span className={`px-2 py-0.5 rounded text-xs ${ratingStyles[move.rating].className}`}>
+                {ratingStyles[move.rating].label}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+export default GameReview;
@@ -0,0 +1,128 @@
+import { useEffect, type FormEvent, type FunctionComponent } from "react";
+import { useStore } from "@nanostores/react";
+import { $assists } from "../store/assists";
+import { $daily } from "../store/dailyChallenge";
+import { $gameState } from "../store/gameState";
+import {
+  $leaderboard,
+  getGameBoard,
+  loadLeaderboard,
+  setLeaderboardView,
+  setPlayerName,
+  submitScore
+} from "../store/leaderboard";
+import type { LeaderboardRanking } from "../types/Api";
+import { getDailyChallenge } from "../utils/daily";
+
+const rankingLabels: Record<LeaderboardRanking, string> = {
+  wins: 'Wins',
+  cards: 'Cards cleared',
+  score: 'Score'
+};
+
+const getBoardTitle = (board: string) => {
+  const [kind, value] = board.split(':');
+  return kind === 'daily' ? `Daily #${getDailyChallenge(value).number}` : `Seed ${value}`;
+};
+
+// Submit a finished game and show the top of its board
+const Leaderboard: FunctionComponent = () => {
+  const gameState = useStore($gameState);
+  const daily = useStore($daily);
+  const leaderboard = useStore($leaderboard);
+  const { assisted } = useStore($assists);
+  const board = getGameBoard(gameState, daily);
+  const { ranking, showAssisted, submitted } = leaderboard;
+
+  useEffect(() => {
+    if (board) loadLeaderboard(board);
+  }, [board, ranking, showAssisted]);
+
+  if (!board) return null;
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    submitScore();
+  };
+
+  return (
+    <section data-testid="leaderboard" className="w-full max-w-sm mx-auto text-sm">
+      <h3 className="font-semibold text-gray-700 text-center">{getBoardTitle(board)} leaderboard</h3>
+
+      {submitted ? (
+        <p data-testid="leaderboard-submitted" className="text-xs text-green-700 text-center">
+          Replayed: {submitted.result.cardsCleared} cards cleared, {submitted.result.score} points
+          {submitted.best.score !== submitted.result.score ? ` (your best here: ${submitted.best.score})` : ''}
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex justify-center gap-2 mt-1">
+          <input
+            data-testid="leaderboard-name"
+            value={leaderboard.player}
+            onChange={(event) => setPlayerName(event.target.value)}
+            placeholder="Nickname"
+            maxLength={24}
+            className="px-2 py-1 border rounded text-sm w-32"
+          />
+          <button
+            data-testid="leaderboard-submit"
+            type="submit"
+            disabled={leaderboard.pending || leaderboard.player.trim() === ''}
+            className="px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+          >
+            Submit score
+          </button>
+        </form>
+      )}
+      <p className="text-xs text-gray-500 text-center mt-1">
+        {assisted ? 'This game counts as assisted' : 'This game counts as unassisted'}
+      </p>
+      {!leaderboard.verified && (
+        <p data-testid="leaderboard-unverified" className="text-xs text-amber-700 text-center">
+          Unverified: a seed can be replayed before a run is submitted, so these scores may come from rehearsed deals
+        </p>
+      )}
+      {leaderboard.error && (
+        <p data-testid="leaderboard-error" className="text-xs text-red-600 text-center">{leaderboard.error}</p>
+      )}
+
+      <div className="flex justify-center gap-2 mt-2 text-xs">
+        <select
+          aria-label="Rank by"
+          value={ranking}
+          onChange={(event) => setLeaderboardView({ ranking: event.target.value as LeaderboardRanking })}
+          className="border rounded px-1"
+        >
+          {Object.entries(rankingLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={showAssisted}
+            onChange={(event) => setLeaderboardView({ showAssisted: event.target.checked })}
+          />
+          Assisted board
+        </label>
+      </div>
+
+      {leaderboard.entries.length === 0 ? (
+        <p className="text-xs text-gray-400 text-center mt-1">No scores yet</p>
+      ) : (
+        <ol data-testid="leaderboard-entries" className="mt-1">
+          {leaderboard.entries.map((entry) => (
+            <li key={entry.player} className="flex justify-between gap-2 text-xs">
+              <span>{entry.rank}. {entry.player}</span>
+              <span className="text-gray-500">
+                {entry.wins > 0 ? '🏆 ' : ''}{entry.cardsCleared} cards · {entry.score} pts
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,204 @@
+import { useEffect, useState, type FormEvent, type FunctionComponent } from "react";
+import { useStore } from "@nanostores/react";
+import { $leaderboard } from "../store/leaderboard";
+import {
+  $leagues,
+  createLeague,
+  joinLeague,
+  leaveLeague,
+  loadLeagueStandings,
+  setLeaguePeriod,
+  type SavedLeague
+} from "../store/leagues";
+import { $uiState, closeLeagues } from "../store/uiState";
+import type { LeaguePeriod, LeagueStandingsResponse } from "../types/Api";
+
+const periodLabels: Record<Exclude<LeaguePeriod, 'day'>, string> = {
+  week: 'This week',
+  all: 'All time'
+};
+
+const inputClass = 'px-2 py-1 border rounded text-sm min-w-0 flex-1';
+const buttonClass = 'px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50';
+
+const LeagueStandings: FunctionComponent<{ league: SavedLeague; standings?: LeagueStandingsResponse }> = ({
+  league,
+  standings
+}) => (
+  <section data-testid="league" className="p-4 border-b border-gray-200 text-sm">
+    <div className="flex items-baseline justify-between gap-2">
+      <h3 className="font-semibold text-gray-800">{league.name}</h3>
+      <button
+        onClick={() => leaveLeague(league.code)}
+        className="text-xs text-gray-400 hover:text-red-600"
+        aria-label={`Leave ${league.name}`}
+      >
+        Leave
+      </button>
+    </div>
+    <p className="text-xs text-gray-500">
+      Invite code <span data-testid="league-code" className="font-mono font-semibold text-gray-700">{league.code}</span>
+      {' '}· you play as {league.player}
+    </p>
+    {standings && (
+      <>
+        {standings.from && (
+          <p className="text-xs text-gray-400 mt-1">{standings.from} to {standings.to}</p>
+        )}
+        <table data-testid="league-standings" className="w-full mt-1 text-xs">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="font-normal">#</th>
+              <th className="font-normal">Player</th>
+              <th className="font-normal text-right">Days</th>
+              <th className="font-normal text-right">Wins</th>
+              <th className="font-normal text-right">Cards</th>
+              <th className="font-normal text-right">Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {standings.entries.map((entry) => (
+              <tr key={entry.player} className={entry.player === league.player ? 'font-semibold' : ''}>
+                <td>{entry.rank}</td>
+                <td>
+                  {entry.player}
+                  {entry.assistedGames > 0 && (
+                    <span className="text-gray-400" title={`${entry.assistedGames} assisted`}> *</span>
+                  )}
+                </td>
+                <td className="text-right">{entry.games}</td>
+                <td className="text-right">{entry.wins}</td>
+                <td className="text-right">{entry.cardsCleared}</td>
+                <td className="text-right">{entry.score}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </>
+    )}
+  </section>
+);
+
+// Private leagues: create one, join one with an invite code, and follow the standings
+const LeaguesDialog: FunctionComponent = () => {
+  const uiState = useStore($uiState);
+  const leagues = useStore($leagues);
+  const { player } = useStore($leaderboard);
+  const [leagueName, setLeagueName] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [nickname, setNickname] = useState(player);
+
+  useEffect(() => {
+    if (uiState.leaguesOpen) {
+      setNickname((current) => current || player);
+      leagues.leagues.forEach((league) => loadLeagueStandings(league.code));
+    }
+    // Refresh when the dialog opens, not on every change to the list
+  }, [uiState.leaguesOpen]);
+
+  if (!uiState.leaguesOpen) return null;
+
+  const handleCreate = (event: FormEvent) => {
+    event.preventDefault();
+    createLeague(leagueName, nickname).then((created) => created && setLeagueName(''));
+  };
+
+  const handleJoin = (event: FormEvent) => {
+    event.preventDefault();
+    joinLeague(inviteCode, nickname).then((joined) => joined && setInviteCode(''));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={closeLeagues}>
+      <div
+        data-testid="leagues-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="leagues-title"
+        className="w-full max-w-lg max-h-full overflow-y-auto bg-white rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 id="leagues-title" className="text-lg font-semibold text-gray-800">Leagues</h2>
+          <button
+            onClick={closeLeagues}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close leagues"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <p className="px-4 pt-3 text-xs text-gray-500">
+          Leagues rank their members' daily challenges. Your daily is played on the server, one attempt a day, and its result counts in every league you are in.
+        </p>
+
+        {leagues.leagues.length > 0 && (
+          <div className="flex justify-center gap-2 pt-3" role="group" aria-label="Standings period">
+            {(Object.keys(periodLabels) as (keyof typeof periodLabels)[]).map((period) => (
+              <button
+                key={period}
+                onClick={() => setLeaguePeriod(period)}
+                aria-pressed={leagues.period === period}
+                className={`px-3 py-1 text-xs rounded ${leagues.period === period ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'}`}
+              >
+                {periodLabels[period]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {leagues.leagues.map((league) => (
+          <LeagueStandings key={league.code} league={league} standings={leagues.standings[league.code]} />
+        ))}
+
+        <div className="p-4 space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            Nickname
+            <input
+              data-testid="league-nickname"
+              value={nickname}
+              onChange={(event) => setNickname(event.target.value)}
+              maxLength={24}
+              className={inputClass}
+            />
+          </label>
+          <form onSubmit={handleJoin} className="flex gap-2">
+            <input
+              data-testid="league-invite-code"
+              value={inviteCode}
+              onChange={(event) => setInviteCode(event.target.value)}
+              placeholder="Invite code"
+              maxLength={6}
+              className={`${inputClass} font-mono uppercase`}
+            />
+            <button type="submit" disabled={leagues.pending || !inviteCode.trim() || !nickname.trim()} className={buttonClass}>
+              Join
+            </button>
+          </form>
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              data-testid="league-name"
+              value={leagueName}
+              onChange={(event) => setLeagueName(event.target.value)}
+              placeholder="New league name"
+              maxLength={40}
+              className={inputClass}
+            />
+            <button type="submit" disabled={leagues.pending || !leagueName.trim() || !nickname.trim()} className={buttonClass}>
+              Create
+            </button>
+          </form>
+          {leagues.error && (
+            <p data-testid="leagues-error" className="text-xs text-red-600">{leagues.error}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeaguesDialog;
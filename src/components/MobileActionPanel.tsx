@@ -2,6 +2,7 @@ import type { FunctionComponent } from "react";
 import { useStore } from "@nanostores/react";
 import { $gameState } from "../store/gameState";
 import { $uiState, type StackPosition } from "../store/uiState";
+import { $moveSuggestion } from "../store/moveSuggestion";
 import { calculateStackProbabilities } from "../utils/probabilityCalculations";
 import EZModeButton from "./EZModeButton";
 
@@ -22,10 +23,17 @@ const MobileActionPanel: FunctionComponent<MobileActionPanelProps> = ({
   const isVisible = selectedStack && selectedCard;
   const gameState = useStore($gameState);
   const uiState = useStore($uiState);
+  const suggestion = useStore($moveSuggestion);
+  
+  // EZ-EZ Mode's recommended guess, when the selected stack is the one it picked
+  const recommendedAction = suggestion && selectedStack &&
+    suggestion.move.stackRow === selectedStack.row && suggestion.move.stackColumn === selectedStack.column
+    ? suggestion.move.highLowSame
+    : null;
   
   // Calculate probabilities for the selected stack
   const probabilities = selectedStack && uiState.ezMode.enabled
-    ? calculateStackProbabilities(gameState.stacks, selectedStack.row, selectedStack.column, gameState.drawDeck.length)
+    ? calculateStackProbabilities(gameState.stacks, selectedStack.row, selectedStack.column, gameState.drawDeck.length, gameState.rules)
     : null;
 
   const handleAction = (action: 'high' | 'low' | 'same') => {
@@ -92,6 +100,7 @@ const MobileActionPanel: FunctionComponent<MobileActionPanelProps> = ({
                 ezMode={uiState.ezMode.enabled}
                 ezModeSettings={uiState.ezMode}
                 onClick={() => handleAction('high')}
+                recommended={recommendedAction === 'high'}
                 size="large"
               />
             </div>
@@ -102,6 +111,7 @@ const MobileActionPanel: FunctionComponent<MobileActionPanelProps> = ({
                 ezMode={uiState.ezMode.enabled}
                 ezModeSettings={uiState.ezMode}
                 onClick={() => handleAction('same')}
+                recommended={recommendedAction === 'same'}
                 size="large"
               />
             </div>
@@ -112,6 +122,7 @@ const MobileActionPanel: FunctionComponent<MobileActionPanelProps> = ({
                 ezMode={uiState.ezMode.enabled}
                 ezModeSettings={uiState.ezMode}
                 onClick={() => handleAction('low')}
+                recommended={recommendedAction === 'low'}
                 size="large"
               />
             </div>
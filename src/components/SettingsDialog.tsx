@@ -0,0 +1,361 @@
+import type { FunctionComponent, ReactNode } from "react";
+import { useStore } from "@nanostores/react";
+import {
+  $uiState,
+  closeSettings,
+  updateCardCountingSettings,
+  updateEZEZModeSettings,
+  updateEZModeSettings,
+  type EZEZModeSettings,
+  type EZModeSettings,
+} from "../store/uiState";
+import {
+  $animationPreferences,
+  updateAnimationPreferences,
+  type AnimationPreferences,
+} from "../store/animationManager";
+import { $ruleSet, $undoLimit, setRuleSet, setUndoLimit } from "../store/gameState";
+import { $serverPlay, setServerPlay } from "../store/serverGame";
+import type { DeckType, RankOrder, RuleSet, TieRule } from "../types/RuleSet";
+import {
+  DEFAULT_RULES,
+  describeRuleSet,
+  getDeckSize,
+  getStackCount,
+  isDefaultRules,
+  MAX_GRID_SIZE,
+} from "../utils/rules";
+
+const SettingsSection: FunctionComponent<{ title: string; children: ReactNode }> = ({
+  title,
+  children
+}) => (
+  <section className="space-y-2">
+    <h3 className="font-semibold text-gray-800">{title}</h3>
+    {children}
+  </section>
+);
+
+const ToggleRow: FunctionComponent<{
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  testId?: string;
+}> = ({ label, checked, onChange, testId }) => (
+  <label className="flex items-center justify-between text-sm text-gray-700">
+    <span>{label}</span>
+    <input
+      data-testid={testId}
+      type="checkbox"
+      className="w-4 h-4"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+    />
+  </label>
+);
+
+const SelectRow: FunctionComponent<{
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+  testId?: string;
+}> = ({ label, value, options, onChange, testId }) => (
+  <label className="flex items-center justify-between text-sm text-gray-700">
+    <span>{label}</span>
+    <select
+      data-testid={testId}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-2 py-1 rounded border border-gray-300 bg-white"
+    >
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+const gridSizes = Array.from({ length: MAX_GRID_SIZE }, (_, index) => ({
+  value: String(index + 1),
+  label: String(index + 1)
+}));
+
+const deckOptions: { value: DeckType; label: string }[] = [
+  { value: 'standard', label: 'Standard (52 cards)' },
+  { value: 'short', label: 'Short (36 cards, 6 to Ace)' },
+  { value: 'piquet', label: 'Piquet (32 cards, 7 to Ace)' }
+];
+
+const rankOrderOptions: { value: RankOrder; label: string }[] = [
+  { value: 'ace-high', label: 'Aces high' },
+  { value: 'ace-low', label: 'Aces low' },
+  { value: 'ace-both', label: 'Aces high and low (wrap around)' },
+  { value: 'face-equal', label: 'Face cards equal' }
+];
+
+const tieRuleOptions: { value: TieRule; label: string }[] = [
+  { value: 'fail', label: 'Fail the stack' },
+  { value: 'free-pass', label: 'Free pass (stack survives)' },
+  { value: 'counts-both', label: 'Count as higher and lower' }
+];
+
+const drawTargets = [10, 15, 20, 25, 30, 40];
+
+// Apply a change and pull the win condition back within what the new grid and deck allow
+const changeRules = (rules: RuleSet, changes: Partial<RuleSet>) => {
+  const next = { ...rules, ...changes };
+  const { winCondition } = next;
+  const maxDraws = getDeckSize(next.deck) - getStackCount(next);
+  setRuleSet({
+    ...next,
+    winCondition: winCondition.type === 'clear-deck'
+      ? { ...winCondition, minStacks: Math.min(winCondition.minStacks, getStackCount(next)) }
+      : { ...winCondition, cards: Math.min(winCondition.cards, maxDraws) }
+  });
+};
+
+const SettingsDialog: FunctionComponent = () => {
+  const uiState = useStore($uiState);
+  const animationPreferences = useStore($animationPreferences);
+  const undoLimit = useStore($undoLimit);
+  const serverPlay = useStore($serverPlay);
+  const rules = useStore($ruleSet);
+
+  if (!uiState.settingsOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={closeSettings}
+    >
+      <div
+        data-testid="settings-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+        className="w-full max-w-sm max-h-full overflow-y-auto bg-white rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 id="settings-title" className="text-lg font-semibold text-gray-800">Settings</h2>
+          <button
+            onClick={closeSettings}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close settings"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-6">
+          <SettingsSection title="EZ Mode">
+            <ToggleRow
+              label="Show probabilities"
+              testId="setting-ez-mode"
+              checked={uiState.ezMode.enabled}
+              onChange={(enabled) => updateEZModeSettings({ enabled })}
+            />
+            <SelectRow
+              label="Display"
+              testId="setting-ez-display-mode"
+              value={uiState.ezMode.displayMode}
+              options={[
+                { value: 'percentage', label: 'Percentage' },
+                { value: 'detailed', label: 'Detailed' },
+                { value: 'color-coded', label: 'Color-coded' }
+              ]}
+              onChange={(displayMode) => updateEZModeSettings({ displayMode: displayMode as EZModeSettings['displayMode'] })}
+            />
+            <ToggleRow
+              label="Color buttons by confidence"
+              testId="setting-ez-color"
+              checked={uiState.ezMode.colorByConfidence}
+              onChange={(colorByConfidence) => updateEZModeSettings({ colorByConfidence })}
+            />
+          </SettingsSection>
+
+          <SettingsSection title="EZ-EZ Mode">
+            <ToggleRow
+              label="Highlight the best move"
+              testId="setting-ez-ez-mode"
+              checked={uiState.ezEzMode.enabled}
+              onChange={(enabled) => updateEZEZModeSettings({ enabled })}
+            />
+            <SelectRow
+              label="Best means"
+              testId="setting-ez-ez-rank-by"
+              value={uiState.ezEzMode.rankBy}
+              options={[
+                { value: 'draw-success', label: 'Likeliest next draw' },
+                { value: 'win-probability', label: 'Best chance to win' }
+              ]}
+              onChange={(rankBy) => updateEZEZModeSettings({ rankBy: rankBy as EZEZModeSettings['rankBy'] })}
+            />
+          </SettingsSection>
+
+          <SettingsSection title="Card Counting">
+            <ToggleRow
+              label="Track seen cards"
+              testId="setting-card-counting"
+              checked={uiState.cardCounting.enabled}
+              onChange={(enabled) => updateCardCountingSettings({ enabled })}
+            />
+            <ToggleRow
+              label="Show statistics panel"
+              testId="setting-card-counting-panel"
+              checked={uiState.cardCounting.panelOpen}
+              onChange={(panelOpen) => updateCardCountingSettings({ panelOpen })}
+            />
+          </SettingsSection>
+
+          <SettingsSection title="Animations">
+            <SelectRow
+              label="Motion"
+              testId="setting-motion"
+              value={animationPreferences.motion}
+              options={[
+                { value: 'system', label: 'System default' },
+                { value: 'full', label: 'Full' },
+                { value: 'reduced', label: 'Reduced' }
+              ]}
+              onChange={(motion) => updateAnimationPreferences({ motion: motion as AnimationPreferences['motion'] })}
+            />
+            <SelectRow
+              label="Show drawn card for"
+              testId="setting-pause-duration"
+              value={String(animationPreferences.pauseDuration)}
+              options={[
+                { value: '400', label: 'Short' },
+                { value: '800', label: 'Normal' },
+                { value: '1500', label: 'Long' }
+              ]}
+              onChange={(pauseDuration) => updateAnimationPreferences({ pauseDuration: Number(pauseDuration) })}
+            />
+          </SettingsSection>
+
+          <SettingsSection title="Game">
+            <SelectRow
+              label="Undos per game"
+              testId="undo-limit-select"
+              value={undoLimit === null ? 'unlimited' : String(undoLimit)}
+              options={[
+                { value: 'unlimited', label: 'Unlimited' },
+                { value: '5', label: '5' },
+                { value: '3', label: '3' },
+                { value: '1', label: '1' },
+                { value: '0', label: 'None' }
+              ]}
+              onChange={(value) => setUndoLimit(value === 'unlimited' ? null : Number(value))}
+            />
+            <ToggleRow
+              label="Deal on the server (hides the deck, no undos)"
+              testId="setting-server-play"
+              checked={serverPlay}
+              onChange={setServerPlay}
+            />
+            <p className="text-xs text-gray-500">Applies from the next new game.</p>
+          </SettingsSection>
+
+          <SettingsSection title="Rules">
+            <SelectRow
+              label="Rows"
+              testId="setting-rules-rows"
+              value={String(rules.rows)}
+              options={gridSizes}
+              onChange={(rows) => changeRules(rules, { rows: Number(rows) })}
+            />
+            <SelectRow
+              label="Columns"
+              testId="setting-rules-columns"
+              value={String(rules.columns)}
+              options={gridSizes}
+              onChange={(columns) => changeRules(rules, { columns: Number(columns) })}
+            />
+            <SelectRow
+              label="Deck"
+              testId="setting-rules-deck"
+              value={rules.deck}
+              options={deckOptions}
+              onChange={(deck) => changeRules(rules, { deck: deck as DeckType })}
+            />
+            <SelectRow
+              label="Ranks"
+              testId="setting-rules-rank-order"
+              value={rules.rankOrder}
+              options={rankOrderOptions}
+              onChange={(rankOrder) => changeRules(rules, { rankOrder: rankOrder as RankOrder })}
+            />
+            <SelectRow
+              label="Ties on higher or lower"
+              testId="setting-rules-tie-rule"
+              value={rules.tieRule}
+              options={tieRuleOptions}
+              onChange={(tieRule) => changeRules(rules, { tieRule: tieRule as TieRule })}
+            />
+            <SelectRow
+              label="Win by"
+              testId="setting-rules-win"
+              value={rules.winCondition.type}
+              options={[
+                { value: 'clear-deck', label: 'Clearing the deck' },
+                { value: 'draw-target', label: 'Surviving a number of draws' }
+              ]}
+              onChange={(type) => changeRules(rules, {
+                winCondition: type === 'clear-deck'
+                  ? { type: 'clear-deck', minStacks: 1 }
+                  : { type: 'draw-target', cards: drawTargets[1] }
+              })}
+            />
+            {rules.winCondition.type === 'clear-deck' ? (
+              <SelectRow
+                label="Stacks left standing"
+                testId="setting-rules-min-stacks"
+                value={String(rules.winCondition.minStacks)}
+                options={Array.from({ length: getStackCount(rules) }, (_, index) => ({
+                  value: String(index + 1),
+                  label: index === 0 ? 'At least 1' : `At least ${index + 1}`
+                }))}
+                onChange={(minStacks) => changeRules(rules, { winCondition: { type: 'clear-deck', minStacks: Number(minStacks) } })}
+              />
+            ) : (
+              <SelectRow
+                label="Draws to survive"
+                testId="setting-rules-draw-target"
+                value={String(rules.winCondition.cards)}
+                options={[...new Set([...drawTargets, rules.winCondition.cards])]
+                  .filter((cards) => cards <= getDeckSize(rules.deck) - getStackCount(rules))
+                  .sort((a, b) => a - b)
+                  .map((cards) => ({ value: String(cards), label: String(cards) }))}
+                onChange={(cards) => changeRules(rules, { winCondition: { type: 'draw-target', cards: Number(cards) } })}
+              />
+            )}
+            <p data-testid="setting-rules-summary" className="text-xs text-gray-500">
+              {describeRuleSet(rules)}.{' '}
+              {isDefaultRules(rules) ? 'Classic rules.' : 'Games under other rules are not ranked on leaderboards.'}
+            </p>
+            {!isDefaultRules(rules) && (
+              <button
+                data-testid="setting-rules-reset"
+                onClick={() => setRuleSet(DEFAULT_RULES)}
+                className="px-3 py-1 text-sm rounded transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                Back to classic rules
+              </button>
+            )}
+          </SettingsSection>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
@@ -0,0 +1,57 @@
+import { useState, type FunctionComponent } from "react";
+import { useStore } from "@nanostores/react";
+import { $daily } from "../store/dailyChallenge";
+import { $gameState } from "../store/gameState";
+import { getDailyChallenge } from "../utils/daily";
+import { createShareCard } from "../utils/shareCard";
+
+interface ShareButtonProps {
+  preferNativeShare: boolean; // Open the share sheet on touch devices that have one
+}
+
+const ShareButton: FunctionComponent<ShareButtonProps> = ({ preferNativeShare }) => {
+  const gameState = useStore($gameState);
+  const daily = useStore($daily);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleShare = async () => {
+    const attempt = daily.mode === 'daily' && daily.date ? daily.attempts[daily.date] : null;
+    const text = createShareCard(gameState, {
+      dailyNumber: attempt?.seed === gameState.seed ? getDailyChallenge(attempt.date).number : undefined
+    });
+
+    if (preferNativeShare && typeof navigator.share === 'function') {
+      try {
+        await navigator.share({ text });
+        return;
+      } catch (error) {
+        // Closing the share sheet is not an error worth reporting
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+      }
+    }
+
+    try {
+      await navigator.clipboard.writeText(text);
+      setMessage('Result copied');
+    } catch {
+      setMessage('Could not copy the result');
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <button
+        data-testid="share-button"
+        onClick={handleShare}
+        className="px-3 py-1 text-sm rounded transition-colors bg-blue-100 text-blue-700 hover:bg-blue-200"
+      >
+        Share
+      </button>
+      {message && (
+        <p data-testid="share-message" className="text-xs text-gray-500">{message}</p>
+      )}
+    </div>
+  );
+};
+
+export default ShareButton;
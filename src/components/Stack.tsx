@@ -1,6 +1,8 @@
 import type { FunctionComponent } from "react";
+import { useStore } from "@nanostores/react";
 import type { Stack } from "../types/GameState";
 import { makeMove } from "../store/gameState";
+import { $moveSuggestion } from "../store/moveSuggestion";
 import BackCardComponent from "./BackCard";
 import CardComponent from "./Card";
 import CardPile from "./CardPile";
@@ -8,13 +10,13 @@ import { useHapticFeedback } from "../hooks/useHapticFeedback";
 import DesktopStackControls from "./DesktopStackControls";
 
 interface StackComponentProps extends Stack {
-  row: 1 | 2 | 3;
-  column: 1 | 2 | 3;
+  row: number;
+  column: number;
   selected?: boolean;
   onSelect?: (row: number, column: number) => void;
   isMobile?: boolean;
   useTouchInterface?: boolean;
-  onAnimatedMove?: (action: 'high' | 'low' | 'same', row: 1 | 2 | 3, column: 1 | 2 | 3) => void;
+  onAnimatedMove?: (action: 'high' | 'low' | 'same', row: number, column: number) => void;
 }
 
 const StackComponent: FunctionComponent<StackComponentProps> = ({
@@ -30,6 +32,7 @@ const StackComponent: FunctionComponent<StackComponentProps> = ({
 }) => {
   // ALL HOOKS MUST BE CALLED AT THE TOP IN THE SAME ORDER EVERY TIME
   const { lightImpact } = useHapticFeedback();
+  const suggestion = useStore($moveSuggestion);
 
   // Early returns are OK after all hooks are called
   if (cards.length === 0) {
@@ -44,6 +47,12 @@ const StackComponent: FunctionComponent<StackComponentProps> = ({
 
   const topCard = cards[cards.length - 1];
 
+  // EZ-EZ Mode marks the stack holding the best move on the board
+  const recommendedGuess = suggestion && status === "active" &&
+    suggestion.move.stackRow === row && suggestion.move.stackColumn === column
+    ? suggestion.move.highLowSame
+    : undefined;
+
   const handleGuess = (guess: "high" | "low" | "same") => {
     if (status === "active") {
       if (onAnimatedMove) {
@@ -89,12 +98,13 @@ const StackComponent: FunctionComponent<StackComponentProps> = ({
       data-status={status}
       data-row={row}
       data-column={column}
+      data-recommended={recommendedGuess ? true : undefined}
     >
       <div 
         className={`
           relative 
           ${useTouchInterface ? 'group-touch' : 'group'}
-          ${selected ? 'ring-4 ring-blue-500 bg-blue-50' : ''}
+          ${selected ? 'ring-4 ring-blue-500 bg-blue-50' : recommendedGuess ? 'ring-4 ring-amber-400' : ''}
           transition-all duration-200
           ${useTouchInterface && status === "active" ? 'active:scale-95 cursor-pointer' : ''}
         `}
@@ -105,6 +115,16 @@ const StackComponent: FunctionComponent<StackComponentProps> = ({
           touchOptimized={useTouchInterface}
           selected={selected}
         />
+
+        {recommendedGuess && (
+          <div
+            data-testid="recommended-badge"
+            className="absolute -top-2 -left-2 z-20 bg-amber-400 text-white text-xs font-bold rounded-full w-6 h-6 flex items-center justify-center pointer-events-none"
+            aria-label={`Recommended: ${recommendedGuess}`}
+          >
+            ★
+          </div>
+        )}
         
         {/* Desktop/non-touch hover buttons overlay */}
         <div className={`absolute inset-0 transition-opacity duration-200 z-10 flex-col rounded-md overflow-clip ${useTouchInterface ? 'hidden' : 'hidden group-hover:flex'}`}>
@@ -113,6 +133,7 @@ const StackComponent: FunctionComponent<StackComponentProps> = ({
             stackColumn={column}
             isActive={status === "active"}
             onGuess={handleGuess}
+            recommendedGuess={recommendedGuess}
             size={isMobile ? 'small' : 'medium'}
           />
         </div>
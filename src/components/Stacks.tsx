@@ -3,8 +3,8 @@ import type { Stacks } from "../types/GameState";
 import StackComponent from "./Stack";
 
 interface StackPosition {
-  row: 1 | 2 | 3;
-  column: 1 | 2 | 3;
+  row: number;
+  column: number;
 }
 
 interface StacksComponentProps {
@@ -14,7 +14,7 @@ interface StacksComponentProps {
   isMobile?: boolean;
   useTouchInterface?: boolean;
   stackRefs?: { current: (HTMLDivElement | null)[][] };
-  onAnimatedMove?: (action: 'high' | 'low' | 'same', row: 1 | 2 | 3, column: 1 | 2 | 3) => void;
+  onAnimatedMove?: (action: 'high' | 'low' | 'same', row: number, column: number) => void;
 }
 
 const StacksComponent: FunctionComponent<StacksComponentProps> = ({ 
@@ -41,14 +41,14 @@ const StacksComponent: FunctionComponent<StacksComponentProps> = ({
               key={`${rowIndex}-${colIndex}`}
               ref={(el) => {
                 if (stackRefs) {
-                  stackRefs.current[rowIndex][colIndex] = el;
+                  (stackRefs.current[rowIndex] ??= [])[colIndex] = el;
                 }
               }}
             >
               <StackComponent
                 {...stack}
-                row={(rowIndex + 1) as 1 | 2 | 3}
-                column={(colIndex + 1) as 1 | 2 | 3}
+                row={rowIndex + 1}
+                column={colIndex + 1}
                 selected={
                   selectedStack?.row === rowIndex + 1 && 
                   selectedStack?.column === colIndex + 1
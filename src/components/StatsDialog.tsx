@@ -0,0 +1,182 @@
+import { useState, type FunctionComponent } from "react";
+import { useStore } from "@nanostores/react";
+import { $gameState } from "../store/gameState";
+import { $stats, resetStats } from "../store/stats";
+import { $uiState, closeStats } from "../store/uiState";
+import { describeRuleSet, formatRuleSet, isDefaultRules, parseRuleSet } from "../utils/rules";
+import { createEmptyStats, formatRate, getStatsSummary, type GuessType, type StatsSummary } from "../utils/stats";
+
+const guessLabels: Record<GuessType, string> = {
+  high: 'Higher',
+  low: 'Lower',
+  same: 'Same'
+};
+
+const Tile: FunctionComponent<{ label: string; value: string | number }> = ({ label, value }) => (
+  <div className="flex-1 min-w-16 text-center">
+    <div className="text-xl font-semibold text-gray-800">{value}</div>
+    <div className="text-xs text-gray-500">{label}</div>
+  </div>
+);
+
+// One bar per guess type: green for correct guesses, red for wrong ones
+const GuessChart: FunctionComponent<{ guesses: StatsSummary['guesses'] }> = ({ guesses }) => {
+  const most = Math.max(1, ...guesses.map((guess) => guess.made));
+  return (
+    <div data-testid="stats-guesses" className="space-y-1">
+      {guesses.map((guess) => (
+        <div key={guess.type} className="flex items-center gap-2 text-xs">
+          <span className="w-12 text-gray-600">{guessLabels[guess.type]}</span>
+          <div className="flex-1 flex h-3 bg-gray-100 rounded overflow-hidden">
+            <div className="bg-green-500" style={{ width: `${(guess.correct / most) * 100}%` }} />
+            <div className="bg-red-400" style={{ width: `${((guess.made - guess.correct) / most) * 100}%` }} />
+          </div>
+          <span className="w-24 text-right text-gray-600">
+            {guess.made} · {formatRate(guess.successRate)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Losses by how many cards were left in the deck, from 0 up to the most seen
+const LossChart: FunctionComponent<{ buckets: StatsSummary['cardsLeftAtLoss'] }> = ({ buckets }) => {
+  if (buckets.length === 0) {
+    return <p className="text-xs text-gray-400 text-center">No losses yet</p>;
+  }
+  const most = Math.max(...buckets.map((bucket) => bucket.losses));
+  const columns = Array.from({ length: buckets[buckets.length - 1].cardsLeft + 1 }, (_, cardsLeft) => ({
+    cardsLeft,
+    losses: buckets.find((bucket) => bucket.cardsLeft === cardsLeft)?.losses ?? 0
+  }));
+
+  return (
+    <div data-testid="stats-losses">
+      <div className="flex items-end gap-px h-24">
+        {columns.map(({ cardsLeft, losses }) => (
+          <div
+            key={cardsLeft}
+            className="flex-1 bg-blue-400 rounded-t"
+            style={{ height: `${(losses / most) * 100}%` }}
+            title={`${losses} ${losses === 1 ? 'loss' : 'losses'} with ${cardsLeft} cards left`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>0</span>
+        <span>cards left</span>
+        <span>{columns.length - 1}</span>
+      </div>
+    </div>
+  );
+};
+
+const describeRules = (rulesKey: string) => {
+  const rules = parseRuleSet(rulesKey);
+  return isDefaultRules(rules) ? 'Classic rules' : describeRuleSet(rules);
+};
+
+// Lifetime stats for this browser, one rule set at a time
+const StatsDialog: FunctionComponent = () => {
+  const uiState = useStore($uiState);
+  const stats = useStore($stats);
+  const gameState = useStore($gameState);
+  // The rules of the game on the board until another rule set is picked
+  const [pickedRules, setPickedRules] = useState<string | null>(null);
+
+  if (!uiState.statsOpen) return null;
+
+  const rulesKey = pickedRules ?? formatRuleSet(gameState.rules);
+  const rulesKeys = [...new Set([rulesKey, ...Object.keys(stats)])];
+  const summary = getStatsSummary(stats[rulesKey] ?? createEmptyStats());
+
+  const handleReset = () => {
+    if (window.confirm('Reset all of your stats, under every rule set?')) resetStats();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={closeStats}>
+      <div
+        data-testid="stats-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="stats-title"
+        className="w-full max-w-md max-h-full overflow-y-auto bg-white rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 id="stats-title" className="text-lg font-semibold text-gray-800">Player stats</h2>
+          <button
+            onClick={closeStats}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Close player stats"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-4 pt-3 text-xs text-gray-600">
+          {rulesKeys.length > 1 ? (
+            <select
+              data-testid="stats-rules"
+              aria-label="Rule set"
+              value={rulesKey}
+              onChange={(event) => setPickedRules(event.target.value)}
+              className="w-full border rounded px-1"
+            >
+              {rulesKeys.map((key) => (
+                <option key={key} value={key}>{describeRules(key)}</option>
+              ))}
+            </select>
+          ) : (
+            <p data-testid="stats-rules">{describeRules(rulesKey)}</p>
+          )}
+          <p className="text-gray-400 mt-1">Each rule set keeps its own stats.</p>
+        </div>
+
+        <div data-testid="stats-summary" className="flex flex-wrap gap-2 p-4 border-b border-gray-200">
+          <Tile label="Played" value={summary.gamesPlayed} />
+          <Tile label="Win rate" value={formatRate(summary.winRate)} />
+          <Tile label="Streak" value={summary.currentStreak} />
+          <Tile label="Best streak" value={summary.bestStreak} />
+          <Tile label="Longest stack" value={summary.longestStack} />
+        </div>
+
+        <section className="p-4 border-b border-gray-200">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Wins and losses</h3>
+          <div className="flex h-3 bg-gray-100 rounded overflow-hidden">
+            <div className="bg-green-500" style={{ width: `${(summary.winRate ?? 0) * 100}%` }} />
+            <div className="bg-red-400 flex-1" style={{ display: summary.losses > 0 ? undefined : 'none' }} />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">{summary.wins} won · {summary.losses} lost</p>
+        </section>
+
+        <section className="p-4 border-b border-gray-200">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Guesses</h3>
+          <GuessChart guesses={summary.guesses} />
+        </section>
+
+        <section className="p-4 border-b border-gray-200">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Cards left when a game was lost</h3>
+          <LossChart buckets={summary.cardsLeftAtLoss} />
+        </section>
+
+        <div className="p-4 text-right">
+          <button
+            onClick={handleReset}
+            disabled={Object.keys(stats).length === 0}
+            className="text-xs text-gray-400 hover:text-red-600 disabled:opacity-50"
+          >
+            Reset stats
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsDialog;
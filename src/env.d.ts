@@ -2,8 +2,11 @@ import "react";
 
 type Runtime = import("@astrojs/cloudflare").Runtime<Env>;
 
-declare namespace App {
-  interface Locals extends Runtime {}
+// This file is a module (it imports react), so App has to be declared globally
+declare global {
+  namespace App {
+    interface Locals extends Runtime {}
+  }
 }
 
 declare module "react" {
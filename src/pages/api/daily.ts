@@ -0,0 +1,29 @@
+import type { APIRoute } from "astro";
+import { errorResponse, json } from "../../server/http";
+import { getDailyChallenge, getDailyDate, getTimeUntilNextDaily, parseDailyDate } from "../../utils/daily";
+
+export const prerender = false;
+
+/**
+ * GET /api/daily[?date=YYYY-MM-DD]
+ * Metadata for today's challenge, or for an earlier one. Future challenges are not available.
+ */
+export const GET: APIRoute = ({ url }) => {
+  const now = new Date();
+  const today = getDailyDate(now);
+  const requested = url.searchParams.get("date");
+
+  const date = requested === null ? today : parseDailyDate(requested);
+  if (date === null) {
+    return errorResponse(400, "invalid_request", `Invalid date "${requested}". Use YYYY-MM-DD, from the first challenge on.`);
+  }
+  if (date > today) {
+    return errorResponse(404, "not_found", `The challenge for ${date} is not available yet`);
+  }
+
+  // Today's challenge can be cached until it changes; earlier ones never change
+  const maxAge = date === today ? Math.floor(getTimeUntilNextDaily(now) / 1000) : 31_536_000;
+  return json(getDailyChallenge(date), {
+    headers: { "Cache-Control": `public, max-age=${maxAge}` },
+  });
+};
@@ -0,0 +1,17 @@
+import type { APIRoute } from "astro";
+import { getServerGame } from "../../../../server/gameStore";
+import { gameErrorResponse, getGameStorage, json } from "../../../../server/http";
+
+export const prerender = false;
+
+/**
+ * GET /api/games/:id
+ * The game as the player may see it
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    return json(await getServerGame(getGameStorage(locals), params.id!));
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+};
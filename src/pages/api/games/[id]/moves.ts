@@ -0,0 +1,18 @@
+import type { APIRoute } from "astro";
+import { parseMoveRequest, playServerMove } from "../../../../server/gameStore";
+import { gameErrorResponse, getGameStorage, json, readJSONBody } from "../../../../server/http";
+
+export const prerender = false;
+
+/**
+ * POST /api/games/:id/moves
+ * Play a MoveRequest and get back the card it drew, the outcome and the new state
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const move = parseMoveRequest(await readJSONBody(request));
+    return json(await playServerMove(getGameStorage(locals), params.id!, move));
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+};
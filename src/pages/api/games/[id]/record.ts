@@ -0,0 +1,17 @@
+import type { APIRoute } from "astro";
+import { getServerGameRecord } from "../../../../server/gameStore";
+import { gameErrorResponse, getGameStorage, json } from "../../../../server/http";
+
+export const prerender = false;
+
+/**
+ * GET /api/games/:id/record
+ * The game record of a finished game, as JSON and in the text format
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    return json(await getServerGameRecord(getGameStorage(locals), params.id!));
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+};
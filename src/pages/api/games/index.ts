@@ -0,0 +1,18 @@
+import type { APIRoute } from "astro";
+import { createServerGame, parseCreateGameRequest } from "../../../server/gameStore";
+import { gameErrorResponse, getGameStorage, json, readJSONBody } from "../../../server/http";
+
+export const prerender = false;
+
+/**
+ * POST /api/games
+ * Deal a new server-checked game. Body (optional): a CreateGameRequest
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const options = parseCreateGameRequest(await readJSONBody(request));
+    return json(await createServerGame(getGameStorage(locals), options), { status: 201 });
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+};
@@ -0,0 +1,45 @@
+import type { APIRoute } from "astro";
+import {
+  getLeaderboard,
+  isVerifiedBoard,
+  parseScoreSubmission,
+  parseStandingsQuery,
+  submitScore,
+} from "../../server/leaderboard";
+import { gameErrorResponse, getLeaderboardStore, json, readJSONBody } from "../../server/http";
+import type { LeaderboardResponse } from "../../types/Api";
+
+export const prerender = false;
+
+/**
+ * GET /api/leaderboard[?board=all|daily:YYYY-MM-DD|seed:<seed>&assisted=false&ranking=wins|cards|score&limit=20]
+ * The top players of a board
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    const query = parseStandingsQuery(url.searchParams);
+    const body: LeaderboardResponse = {
+      board: query.board,
+      assisted: query.assisted,
+      verified: isVerifiedBoard(query.board),
+      ranking: query.ranking,
+      entries: await getLeaderboard(getLeaderboardStore(locals), query),
+    };
+    return json(body);
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+};
+
+/**
+ * POST /api/leaderboard
+ * Submit a finished game. Body: a ScoreSubmission, whose record is replayed before it is ranked.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const submission = parseScoreSubmission(await readJSONBody(request));
+    return json(await submitScore(getLeaderboardStore(locals), submission), { status: 201 });
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+};
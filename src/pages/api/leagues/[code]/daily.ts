@@ -0,0 +1,19 @@
+import type { APIRoute } from "astro";
+import { gameErrorResponse, getGameStorage, getLeagueStore, json, readJSONBody } from "../../../../server/http";
+import { startLeagueDaily } from "../../../../server/leagues";
+
+export const prerender = false;
+
+/**
+ * POST /api/leagues/:code/daily
+ * Start or resume a member's one attempt at today's challenge, played like
+ * any other server game. Body: a LeagueDailyRequest
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const body = await readJSONBody(request);
+    return json(await startLeagueDaily(getLeagueStore(locals), getGameStorage(locals), params.code!, body));
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+};
@@ -0,0 +1,17 @@
+import type { APIRoute } from "astro";
+import { gameErrorResponse, getLeagueStore, json } from "../../../../server/http";
+import { getLeagueSummary } from "../../../../server/leagues";
+
+export const prerender = false;
+
+/**
+ * GET /api/leagues/:code
+ * The league's name and members
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    return json(await getLeagueSummary(getLeagueStore(locals), params.code!));
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+};
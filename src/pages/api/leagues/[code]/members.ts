@@ -0,0 +1,17 @@
+import type { APIRoute } from "astro";
+import { gameErrorResponse, getLeagueStore, json, readJSONBody } from "../../../../server/http";
+import { joinLeague } from "../../../../server/leagues";
+
+export const prerender = false;
+
+/**
+ * POST /api/leagues/:code/members
+ * Join a league with its invite code. Body: { player }
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    return json(await joinLeague(getLeagueStore(locals), params.code!, await readJSONBody(request)), { status: 201 });
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+};
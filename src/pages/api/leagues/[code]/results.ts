@@ -0,0 +1,19 @@
+import type { APIRoute } from "astro";
+import { gameErrorResponse, getGameStorage, getLeagueStore, json, readJSONBody } from "../../../../server/http";
+import { submitLeagueResult } from "../../../../server/leagues";
+
+export const prerender = false;
+
+/**
+ * POST /api/leagues/:code/results
+ * Add the result of a member's finished daily attempt. Body: a LeagueResultSubmission
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    const body = await readJSONBody(request);
+    const response = await submitLeagueResult(getLeagueStore(locals), getGameStorage(locals), params.code!, body);
+    return json(response, { status: 201 });
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+};
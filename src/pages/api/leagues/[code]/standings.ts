@@ -0,0 +1,29 @@
+import type { APIRoute } from "astro";
+import { gameErrorResponse, getLeagueStore, json } from "../../../../server/http";
+import { getLeagueStandings, parseLeagueStandingsQuery } from "../../../../server/leagues";
+import type { LeagueStandingsResponse } from "../../../../types/Api";
+
+export const prerender = false;
+
+/**
+ * GET /api/leagues/:code/standings[?period=week|day|all&date=YYYY-MM-DD&ranking=wins|cards|score]
+ * Every member's daily challenge totals for the week (or day) of the date, or for all time
+ */
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    const query = parseLeagueStandingsQuery(url.searchParams);
+    const { league, entries } = await getLeagueStandings(getLeagueStore(locals), params.code!, query);
+    const body: LeagueStandingsResponse = {
+      code: league.code,
+      name: league.name,
+      period: query.period,
+      from: query.from,
+      to: query.to,
+      ranking: query.ranking,
+      entries,
+    };
+    return json(body);
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+};
@@ -0,0 +1,17 @@
+import type { APIRoute } from "astro";
+import { gameErrorResponse, getLeagueStore, json, readJSONBody } from "../../../server/http";
+import { createLeague } from "../../../server/leagues";
+
+export const prerender = false;
+
+/**
+ * POST /api/leagues
+ * Create a league. Body: { name, player }. The response holds the invite code and the creator's membership.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    return json(await createLeague(getLeagueStore(locals), await readJSONBody(request)), { status: 201 });
+  } catch (error) {
+    return gameErrorResponse(error);
+  }
+};
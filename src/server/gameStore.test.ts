@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import { getDailySeed } from "../utils/daily";
+import { getPlayedMoves, InvalidMoveError } from "../utils/gameEngine";
+import { replayGameRecord } from "../utils/gameRecord";
+import {
+  createServerGame,
+  GameInProgressError,
+  GameNotFoundError,
+  getServerGame,
+  getServerGameRecord,
+  InvalidRequestError,
+  loadGame,
+  parseCreateGameRequest,
+  parseMoveRequest,
+  playServerMove,
+  StaleGameStateError,
+  type GameStorage,
+} from "./gameStore";
+
+const createMemoryGameStorage = (): GameStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    get: async (key) => items.get(key) ?? null,
+    put: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+describe("Server Game Store", () => {
+  it("should hide the seed and the deck order from the client", async () => {
+    const storage = createMemoryGameStorage();
+
+    const { id, state } = await createServerGame(storage, { seed: 2024 });
+    const stored = await loadGame(storage, id);
+
+    expect(state.seed).toBeNull();
+    expect(state.undoLimit).toBe(0);
+    expect(state.stacks).toEqual(stored.stacks);
+    expect(state.drawDeck).toHaveLength(stored.drawDeck.length);
+    expect(state.drawDeck).toEqual(expect.arrayContaining(stored.drawDeck));
+    expect(state.drawDeck).not.toEqual(stored.drawDeck);
+    expect(stored.seed).toBe(2024);
+  });
+
+  it("should play moves on the stored game and reveal only the drawn card", async () => {
+    const storage = createMemoryGameStorage();
+    const { id, state } = await createServerGame(storage, { seed: 5 });
+    const nextCard = (await loadGame(storage, id)).drawDeck.at(-1);
+
+    const response = await playServerMove(storage, id, {
+      stackRow: 1,
+      stackColumn: 1,
+      highLowSame: "high",
+      card: state.stacks[0][0].cards[0],
+      expectedMoves: 0,
+    });
+
+    expect(response.outcome.drawnCard).toEqual(nextCard);
+    expect(response.state.stacks[0][0].cards).toEqual([state.stacks[0][0].cards[0], nextCard]);
+    expect((await getServerGame(storage, id)).state).toEqual(response.state);
+  });
+
+  it("should return the full state, the nonce and the record once the game is over", async () => {
+    const storage = createMemoryGameStorage();
+    const { id, commitment, nonce } = await createServerGame(storage, { seed: 5 });
+    expect(commitment).toMatch(/^[0-9a-f]{64}$/);
+    expect(nonce).toBeUndefined();
+    await expect(getServerGameRecord(storage, id)).rejects.toThrow(GameInProgressError);
+
+    let response;
+    do {
+      const state = (response ?? (await getServerGame(storage, id))).state;
+      const stack = state.stacks.flat().find((s) => s.status === "active")!;
+      const index = state.stacks.flat().indexOf(stack);
+      response = await playServerMove(storage, id, {
+        stackRow: (Math.floor(index / 3) + 1) as 1 | 2 | 3,
+        stackColumn: ((index % 3) + 1) as 1 | 2 | 3,
+        highLowSame: "same",
+        card: stack.cards.at(-1)!,
+        expectedMoves: getPlayedMoves(state).length,
+      });
+    } while (!response.state.won && !response.state.lost);
+
+    expect(response.state).toEqual(await loadGame(storage, id));
+    expect(response.state.seed).toBe(5);
+    expect(response.commitment).toBe(commitment);
+    expect(response.nonce).toMatch(/^[0-9a-f]{32}$/);
+
+    const { record, text } = await getServerGameRecord(storage, id);
+    expect(record.seed).toBe(5);
+    expect(text).toMatch(/^# High-Low game record/);
+    expect(replayGameRecord(record)).toMatchObject({ stacks: response.state.stacks, lost: response.state.lost });
+  });
+
+  it("should deal the requested game", async () => {
+    const storage = createMemoryGameStorage();
+
+    const daily = await createServerGame(storage, { daily: "2026-03-01" });
+
+    expect((await loadGame(storage, daily.id)).seed).toBe(getDailySeed("2026-03-01"));
+
+    const small = await createServerGame(storage, { seed: 3, rules: "grid=2x2 deck=piquet" });
+    expect(small.state.stacks.map((row) => row.length)).toEqual([2, 2]);
+    expect(small.state.drawDeck).toHaveLength(28);
+  });
+
+  it("should validate game options", () => {
+    const now = new Date("2026-06-15T12:00:00Z");
+
+    expect(parseCreateGameRequest(undefined, now)).toEqual({});
+    expect(parseCreateGameRequest({ seed: 7 }, now)).toEqual({ seed: 7 });
+    expect(parseCreateGameRequest({ daily: "2026-06-15" }, now)).toEqual({ daily: "2026-06-15" });
+    expect(() => parseCreateGameRequest({ seed: -1 }, now)).toThrow(/seed must be a whole number/);
+    expect(() => parseCreateGameRequest({ seed: "7" }, now)).toThrow(/seed must be a whole number/);
+    expect(() => parseCreateGameRequest({ seed: 7, daily: "2026-06-15" }, now)).toThrow(/either seed or daily/);
+    expect(() => parseCreateGameRequest({ daily: "2026-06-16" }, now)).toThrow(/not available yet/);
+    expect(() => parseCreateGameRequest({ seed: getDailySeed("2026-06-16") }, now)).toThrow(/daily challenge for 2026-06-16/);
+    expect(() => parseCreateGameRequest({ winnableOnly: true }, now)).toThrow(/Unknown option "winnableOnly"/);
+    expect(() => parseCreateGameRequest({ undoLimit: 3 }, now)).toThrow(/Unknown option "undoLimit"/);
+    expect(() => parseCreateGameRequest([], now)).toThrow(InvalidRequestError);
+    expect(parseCreateGameRequest({ rules: "grid=4x4" }, now)).toEqual({ rules: "grid=4x4" });
+    expect(() => parseCreateGameRequest({ rules: "grid=9x9" }, now)).toThrow(/1 to 5 rows/);
+    expect(() => parseCreateGameRequest({ daily: "2026-06-15", rules: "grid=4x4" }, now)).toThrow(/default rules/);
+  });
+
+  it("should reject unknown games, illegal moves and malformed requests", async () => {
+    const storage = createMemoryGameStorage();
+    const { id, state } = await createServerGame(storage, { seed: 5 });
+    const wrongCard = state.stacks[0][1].cards[0];
+
+    await expect(getServerGame(storage, "missing")).rejects.toThrow(GameNotFoundError);
+    await expect(getServerGameRecord(storage, "missing")).rejects.toThrow(GameNotFoundError);
+    await expect(
+      playServerMove(storage, id, { stackRow: 1, stackColumn: 1, highLowSame: "low", card: wrongCard, expectedMoves: 0 }),
+    ).rejects.toThrow(InvalidMoveError);
+    await expect(
+      playServerMove(storage, id, { stackRow: 4, stackColumn: 1, highLowSame: "low", card: wrongCard, expectedMoves: 0 }),
+    ).rejects.toThrow(InvalidMoveError);
+    expect(() => parseMoveRequest({ stackRow: 0, stackColumn: 1, highLowSame: "low", card: wrongCard, expectedMoves: 0 })).toThrow(
+      InvalidRequestError,
+    );
+    expect(() => parseMoveRequest({ stackRow: 1, stackColumn: 1, highLowSame: "up", card: wrongCard, expectedMoves: 0 })).toThrow(
+      InvalidRequestError,
+    );
+    expect(() => parseMoveRequest({ stackRow: 1, stackColumn: 1, highLowSame: "low", card: wrongCard })).toThrow(
+      /expectedMoves/,
+    );
+    expect(() => parseMoveRequest(null)).toThrow(InvalidRequestError);
+  });
+
+  it("should reject a move based on a state the game has moved on from", async () => {
+    const storage = createMemoryGameStorage();
+    const { id, state } = await createServerGame(storage, { seed: 5 });
+    const move = { stackRow: 1, stackColumn: 1, highLowSame: "high", card: state.stacks[0][0].cards[0] } as const;
+
+    await playServerMove(storage, id, { ...move, expectedMoves: 0 });
+
+    // A retried request must not play the move a second time
+    await expect(playServerMove(storage, id, { ...move, expectedMoves: 0 })).rejects.toThrow(StaleGameStateError);
+    expect(getPlayedMoves(await loadGame(storage, id))).toHaveLength(1);
+  });
+});
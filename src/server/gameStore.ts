@@ -0,0 +1,262 @@
+// Server-side games. The full state, deck order included, only ever lives in
+// storage (a Workers KV namespace in production); clients get a redacted copy.
+import type { Card, CardSuit } from "../types/CardTypes";
+import type { GameState } from "../types/GameState";
+import type { CreateGameRequest, GameRecordResponse, MoveRequest, MoveResponse, ServerGameResponse } from "../types/Api";
+import { getDailyDate, getDailySeed, getUnfinishedDaily, parseDailyDate } from "../utils/daily";
+import { createCommitment, createNonce } from "../utils/fairness";
+import { applyMove, createGame, getInitialDealOrder, getPlayedMoves } from "../utils/gameEngine";
+import { createGameRecord, serializeGameRecord } from "../utils/gameRecord";
+import { getAllRanks } from "../utils/probabilityCalculations";
+import { parseSeed } from "../utils/random";
+import { DEFAULT_RULES, getRankValue, InvalidRulesError, parseRuleSet } from "../utils/rules";
+
+// Abandoned games are dropped from storage after a week
+export const GAME_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+export class GameNotFoundError extends Error {
+  constructor(id: string) {
+    super(`No game with id "${id}"`);
+    this.name = "GameNotFoundError";
+  }
+}
+
+export class InvalidRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRequestError";
+  }
+}
+
+export class GameInProgressError extends Error {
+  constructor(id: string) {
+    super(`Game "${id}" is still in play; its record is available once it is over`);
+    this.name = "GameInProgressError";
+  }
+}
+
+export class StaleGameStateError extends Error {
+  constructor(id: string, expectedMoves: number, playedMoves: number) {
+    super(`Game "${id}" has ${playedMoves} moves played, not ${expectedMoves}; reload it before moving`);
+    this.name = "StaleGameStateError";
+  }
+}
+
+// The parts of a KV namespace the game store uses
+export interface GameStorage {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+// A game as it is kept in storage
+export interface StoredGame {
+  state: GameState;
+  nonce: string;      // Revealed with the seed when the game ends
+  commitment: string; // Published when the game is dealt (see utils/fairness.ts)
+  daily?: string;     // The date of the challenge, for a daily challenge game
+}
+
+const gameKey = (id: string) => `game:${id}`;
+
+const suits: CardSuit[] = ["Hearts", "Diamonds", "Clubs", "Spades"];
+const ranks = getAllRanks();
+
+const compareCards = (a: Card, b: Card) =>
+  suits.indexOf(a.suit) - suits.indexOf(b.suit) || getRankValue(a.rank) - getRankValue(b.rank);
+
+/**
+ * The state a client may see. While the game is in play the seed is hidden
+ * and the deck is sorted, so the client knows which cards are left (as card
+ * counting would tell it anyway) but not their order.
+ */
+export function redactGameState(state: GameState): GameState {
+  if (state.won || state.lost) return state;
+  return { ...state, seed: null, drawDeck: [...state.drawDeck].sort(compareCards) };
+}
+
+const isCard = (value: unknown): value is Card => {
+  const card = value as Card;
+  return typeof card === "object" && card !== null && suits.includes(card.suit) && ranks.includes(card.rank);
+};
+
+/**
+ * Check that a request body is a MoveRequest
+ * @throws InvalidRequestError describing the first problem found
+ */
+export function parseMoveRequest(body: unknown): MoveRequest {
+  const move = body as MoveRequest;
+  if (typeof move !== "object" || move === null) {
+    throw new InvalidRequestError("Expected a move object");
+  }
+  // Whether the stack exists depends on the game's grid, which the engine checks
+  if (!Number.isInteger(move.stackRow) || !Number.isInteger(move.stackColumn) || move.stackRow < 1 || move.stackColumn < 1) {
+    throw new InvalidRequestError("stackRow and stackColumn must be whole numbers from 1");
+  }
+  if (!["high", "low", "same"].includes(move.highLowSame)) {
+    throw new InvalidRequestError('highLowSame must be "high", "low" or "same"');
+  }
+  if (!isCard(move.card)) {
+    throw new InvalidRequestError("card must have a valid suit and rank");
+  }
+  if (!Number.isInteger(move.expectedMoves) || move.expectedMoves < 0) {
+    throw new InvalidRequestError("expectedMoves must be a whole number from 0");
+  }
+  return {
+    stackRow: move.stackRow,
+    stackColumn: move.stackColumn,
+    highLowSame: move.highLowSame,
+    card: { suit: move.card.suit, rank: move.card.rank },
+    expectedMoves: move.expectedMoves,
+  };
+}
+
+/**
+ * Check that a request body is a CreateGameRequest. An empty body deals a random game.
+ * @throws InvalidRequestError describing the first problem found
+ */
+export function parseCreateGameRequest(body: unknown, now: Date = new Date()): CreateGameRequest {
+  if (body === undefined || body === null) return {};
+  if (typeof body !== "object" || Array.isArray(body)) {
+    throw new InvalidRequestError("Expected an object of game options");
+  }
+
+  const { seed, daily, rules, ...unknown } = body as Record<string, unknown>;
+  const unknownFields = Object.keys(unknown);
+  if (unknownFields.length > 0) {
+    throw new InvalidRequestError(`Unknown option "${unknownFields[0]}"; expected seed, daily or rules`);
+  }
+  if (seed !== undefined && daily !== undefined) {
+    throw new InvalidRequestError("Pass either seed or daily, not both");
+  }
+  if (rules !== undefined && daily !== undefined) {
+    throw new InvalidRequestError("Daily challenges are played under the default rules");
+  }
+
+  const request: CreateGameRequest = {};
+  if (seed !== undefined) {
+    const parsed = typeof seed === "number" ? parseSeed(String(seed)) : null;
+    if (parsed === null) {
+      throw new InvalidRequestError("seed must be a whole number between 0 and 4294967295");
+    }
+    const challenge = getUnfinishedDaily(parsed, now);
+    if (challenge) {
+      throw new InvalidRequestError(`seed deals the daily challenge for ${challenge.date}, which cannot be played freely until that day is over`);
+    }
+    request.seed = parsed;
+  }
+  if (daily !== undefined) {
+    const date = typeof daily === "string" ? parseDailyDate(daily) : null;
+    if (date === null) {
+      throw new InvalidRequestError("daily must be a YYYY-MM-DD date, from the first challenge on");
+    }
+    if (date > getDailyDate(now)) {
+      throw new InvalidRequestError(`The challenge for ${date} is not available yet`);
+    }
+    request.daily = date;
+  }
+  if (rules !== undefined) {
+    if (typeof rules !== "string") {
+      throw new InvalidRequestError('rules must be a rule set such as "grid=3x4 deck=short"');
+    }
+    try {
+      parseRuleSet(rules);
+    } catch (error) {
+      throw new InvalidRequestError(error instanceof InvalidRulesError ? error.message : "rules are not a rule set");
+    }
+    request.rules = rules;
+  }
+  return request;
+}
+
+// The seed a request deals, following the same rules as the browser's New Game
+const getRequestedSeed = ({ seed, daily }: CreateGameRequest): number | undefined =>
+  daily !== undefined ? getDailySeed(daily) : seed;
+
+const saveGame = (storage: GameStorage, id: string, game: StoredGame) =>
+  storage.put(gameKey(id), JSON.stringify(game), { expirationTtl: GAME_TTL_SECONDS });
+
+const isOver = (state: GameState) => state.won || state.lost;
+
+// What a client may see of a stored game: the commitment from the start, and the nonce at the end.
+// The seed stays hidden in play for daily games too, since createGame would rebuild the deck from it.
+const toResponse = (id: string, { state, nonce, commitment }: StoredGame): ServerGameResponse => ({
+  id,
+  state: redactGameState(state),
+  commitment,
+  ...(isOver(state) ? { nonce } : {}),
+});
+
+/**
+ * @throws GameNotFoundError when there is no such game, or it has expired
+ */
+export async function loadStoredGame(storage: GameStorage, id: string): Promise<StoredGame> {
+  const stored = await storage.get(gameKey(id));
+  if (stored === null) throw new GameNotFoundError(id);
+  const game = JSON.parse(stored) as StoredGame;
+  // Games stored before parts of the rule set were added are classic games
+  return { ...game, state: { ...game.state, rules: { ...DEFAULT_RULES, ...game.state.rules } } };
+}
+
+export async function loadGame(storage: GameStorage, id: string): Promise<GameState> {
+  return (await loadStoredGame(storage, id)).state;
+}
+
+/**
+ * Deal a new game, commit to its deal and store it. Server games have no undos,
+ * since a player who has seen the next card could take a move back and guess again.
+ */
+export async function createServerGame(
+  storage: GameStorage,
+  request: CreateGameRequest = {},
+): Promise<ServerGameResponse> {
+  const id = crypto.randomUUID();
+  const rules = request.rules ? parseRuleSet(request.rules) : DEFAULT_RULES;
+  const state = createGame({ seed: getRequestedSeed(request), undoLimit: 0, rules });
+  const nonce = createNonce();
+  const commitment = await createCommitment(state.seed!, nonce, getInitialDealOrder(state));
+
+  const game: StoredGame = { state, nonce, commitment, ...(request.daily ? { daily: request.daily } : {}) };
+  await saveGame(storage, id, game);
+  return toResponse(id, game);
+}
+
+export async function getServerGame(storage: GameStorage, id: string): Promise<ServerGameResponse> {
+  return toResponse(id, await loadStoredGame(storage, id));
+}
+
+/**
+ * Play a move on a stored game and reveal only the card it drew.
+ * The move count is checked on a read and the game saved by a later write, and
+ * KV cannot compare-and-set between them: two requests arriving together can
+ * both pass the check, and the last write wins. The check stops retried and
+ * replayed requests, not a client racing itself.
+ * @throws GameNotFoundError, StaleGameStateError when other moves were played
+ * since the one the client expected, or the engine's InvalidMoveError for a
+ * move that cannot be played
+ */
+export async function playServerMove(
+  storage: GameStorage,
+  id: string,
+  { expectedMoves, ...move }: MoveRequest,
+): Promise<MoveResponse> {
+  const game = await loadStoredGame(storage, id);
+  const playedMoves = getPlayedMoves(game.state).length;
+  if (expectedMoves !== playedMoves) throw new StaleGameStateError(id, expectedMoves, playedMoves);
+
+  const { state, outcome } = applyMove(game.state, move);
+  const updated = { ...game, state };
+  await saveGame(storage, id, updated);
+  return { ...toResponse(id, updated), outcome };
+}
+
+/**
+ * The record of a finished game, for replaying or importing it
+ * @throws GameNotFoundError, or GameInProgressError while the game is in play
+ */
+export async function getServerGameRecord(storage: GameStorage, id: string): Promise<GameRecordResponse> {
+  const { state } = await loadStoredGame(storage, id);
+  if (!isOver(state)) throw new GameInProgressError(id);
+
+  const record = createGameRecord(state);
+  return { id, record, text: serializeGameRecord(record) };
+}
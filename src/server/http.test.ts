@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { InvalidMoveError } from "../utils/gameEngine";
+import { GameInProgressError, GameNotFoundError, InvalidRequestError } from "./gameStore";
+import { gameErrorResponse, readJSONBody } from "./http";
+
+const post = (body: string) => new Request("http://localhost/api/games", { method: "POST", body });
+
+describe("HTTP helpers", () => {
+  it("should read JSON bodies and reject malformed ones", async () => {
+    expect(await readJSONBody(post('{"seed":5}'))).toEqual({ seed: 5 });
+    expect(await readJSONBody(post(""))).toBeUndefined();
+    await expect(readJSONBody(post("{seed"))).rejects.toThrow(InvalidRequestError);
+  });
+
+  it("should map game errors to statuses and error codes", async () => {
+    const cases = [
+      [new InvalidRequestError("bad"), 400, "invalid_request"],
+      [new GameNotFoundError("x"), 404, "not_found"],
+      [new InvalidMoveError("Cannot play on failed stack at position [1,1]"), 409, "invalid_move"],
+      [new GameInProgressError("x"), 409, "game_in_progress"],
+    ] as const;
+
+    for (const [error, status, code] of cases) {
+      const response = gameErrorResponse(error);
+      expect(response.status).toBe(status);
+      expect(await response.json()).toEqual({ error: error.message, code });
+    }
+    expect(() => gameErrorResponse(new Error("boom"))).toThrow("boom");
+  });
+});
@@ -0,0 +1,88 @@
+// Helpers for JSON API routes
+import type { ApiErrorCode, ApiErrorResponse } from "../types/Api";
+import { InvalidMoveError } from "../utils/gameEngine";
+import {
+  GameInProgressError,
+  GameNotFoundError,
+  InvalidRequestError,
+  StaleGameStateError,
+  type GameStorage,
+} from "./gameStore";
+import { createD1LeaderboardStore, ReplayMismatchError, type LeaderboardStore } from "./leaderboard";
+import {
+  createD1LeagueStore,
+  DailyAttemptNotFoundError,
+  InvalidMemberTokenError,
+  LeagueNotFoundError,
+  NicknameTakenError,
+  ResultAlreadySubmittedError,
+  type LeagueStore,
+} from "./leagues";
+
+export function json(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init.headers },
+  });
+}
+
+export function errorResponse(status: number, code: ApiErrorCode, error: string): Response {
+  const body: ApiErrorResponse = { error, code };
+  return json(body, { status });
+}
+
+/**
+ * Parse a JSON request body. An empty body is undefined.
+ * @throws InvalidRequestError when the body is not valid JSON
+ */
+export async function readJSONBody(request: Request): Promise<unknown> {
+  const text = await request.text();
+  if (text.trim() === "") return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new InvalidRequestError("The request body is not valid JSON");
+  }
+}
+
+/**
+ * Turn an error thrown while handling an API request into a response:
+ * 400 for a malformed request, 403 for a league token that does not fit,
+ * 404 for an unknown game, league or league attempt, 409 for a move the game does not allow
+ * or that was chosen from an old state, a game that is not over yet or a
+ * clash with what is already stored, and 422 for a record that does not replay to its claimed result.
+ * Anything else is rethrown.
+ */
+export function gameErrorResponse(error: unknown): Response {
+  if (error instanceof InvalidRequestError) return errorResponse(400, "invalid_request", error.message);
+  if (error instanceof InvalidMemberTokenError) return errorResponse(403, "forbidden", error.message);
+  if (
+    error instanceof GameNotFoundError ||
+    error instanceof LeagueNotFoundError ||
+    error instanceof DailyAttemptNotFoundError
+  ) {
+    return errorResponse(404, "not_found", error.message);
+  }
+  if (error instanceof InvalidMoveError) return errorResponse(409, "invalid_move", error.message);
+  if (error instanceof StaleGameStateError) return errorResponse(409, "stale_state", error.message);
+  if (error instanceof GameInProgressError) return errorResponse(409, "game_in_progress", error.message);
+  if (error instanceof NicknameTakenError) return errorResponse(409, "nickname_taken", error.message);
+  if (error instanceof ResultAlreadySubmittedError) return errorResponse(409, "already_submitted", error.message);
+  if (error instanceof ReplayMismatchError) return errorResponse(422, "replay_mismatch", error.message);
+  throw error;
+}
+
+// Games live in the GAMES KV namespace (simulated locally by `wrangler dev` and `astro dev`)
+export function getGameStorage(locals: App.Locals): GameStorage {
+  return locals.runtime.env.GAMES;
+}
+
+// Leaderboards live in the LEADERBOARD D1 database (see migrations/ for the schema)
+export function getLeaderboardStore(locals: App.Locals): LeaderboardStore {
+  return createD1LeaderboardStore(locals.runtime.env.LEADERBOARD);
+}
+
+// Leagues share the LEADERBOARD database
+export function getLeagueStore(locals: App.Locals): LeagueStore {
+  return createD1LeagueStore(locals.runtime.env.LEADERBOARD);
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import type { ScoreSubmission } from "../types/Api";
+import type { GameState } from "../types/GameState";
+import { getDailySeed } from "../utils/daily";
+import { applyMove, createGame, getLegalMoves, undoMove } from "../utils/gameEngine";
+import { createGameRecord, serializeGameRecord, type Assist } from "../utils/gameRecord";
+import { DEFAULT_RULES } from "../utils/rules";
+import { getGameResult } from "../utils/score";
+import { InvalidRequestError } from "./gameStore";
+import {
+  compareResults,
+  getLeaderboard,
+  isVerifiedBoard,
+  parseScoreSubmission,
+  parseStandingsQuery,
+  ReplayMismatchError,
+  submitScore,
+  verifyScoreSubmission,
+  type LeaderboardStore,
+  type ScoreRow,
+} from "./leaderboard";
+
+const now = new Date("2026-03-01T12:00:00Z");
+
+// Play the first (or last) legal move until the game ends
+const playGame = (seed: number, undoLimit: number | null = null, pickLast = false): GameState => {
+  let state = createGame({ seed, undoLimit });
+  while (!state.won && !state.lost) {
+    const moves = getLegalMoves(state);
+    state = applyMove(state, moves[pickLast ? moves.length - 1 : 0]).state;
+  }
+  return state;
+};
+
+const createSubmission = (
+  state: GameState,
+  changes: Partial<ScoreSubmission> = {},
+  assists: Assist[] = [],
+): ScoreSubmission => ({
+  player: "ada",
+  record: serializeGameRecord(createGameRecord(state, assists)),
+  claimed: getGameResult(state),
+  ...changes,
+});
+
+// Keeps rows in memory and ranks them like the D1 store
+const createMemoryLeaderboardStore = (): LeaderboardStore => {
+  const rows = new Map<string, ScoreRow>();
+  const key = (board: string, assisted: boolean, player: string) => `${board}|${assisted}|${player}`;
+  return {
+    getScore: async (board, assisted, player) => rows.get(key(board, assisted, player)) ?? null,
+    saveScore: async (row) => {
+      rows.set(key(row.board, row.assisted, row.player), row);
+    },
+    getStandings: async ({ board, assisted, ranking, limit }) =>
+      [...rows.values()]
+        .filter((row) => row.assisted === assisted && (board === "all" || row.board === board))
+        .sort((a, b) => compareResults(b, a, ranking))
+        .slice(0, limit)
+        .map(({ player, won, cardsCleared, score }) => ({ player, games: 1, wins: Number(won), cardsCleared, score })),
+  };
+};
+
+describe("Leaderboard", () => {
+  it("should accept a record that replays to its claimed result", () => {
+    const state = playGame(7);
+
+    const { board, result } = verifyScoreSubmission(createSubmission(state), now);
+
+    expect(board).toBe("seed:7");
+    expect(result).toEqual(getGameResult(state));
+  });
+
+  it("should read whether a game was assisted from its record", () => {
+    expect(verifyScoreSubmission(createSubmission(playGame(7)), now).assisted).toBe(false);
+    expect(verifyScoreSubmission(createSubmission(playGame(7), {}, ["card-counting"]), now).assisted).toBe(true);
+
+    let undone = createGame({ seed: 7 });
+    undone = undoMove(applyMove(undone, getLegalMoves(undone)[0]).state);
+    while (!undone.won && !undone.lost) undone = applyMove(undone, getLegalMoves(undone)[0]).state;
+    expect(verifyScoreSubmission(createSubmission(undone), now).assisted).toBe(true);
+  });
+
+  it("should reject records that do not reproduce the claim", () => {
+    const state = playGame(7);
+    const claimed = getGameResult(state);
+    const forged = createSubmission(state).record.replace("seed: 7", "seed: 8");
+
+    expect(() => verifyScoreSubmission(createSubmission(state, { claimed: { ...claimed, won: true } }), now)).toThrow(
+      ReplayMismatchError,
+    );
+    expect(() => verifyScoreSubmission(createSubmission(state, { record: forged }), now)).toThrow(ReplayMismatchError);
+    expect(() => verifyScoreSubmission(createSubmission(state, { daily: "2026-03-01" }), now)).toThrow(
+      ReplayMismatchError,
+    );
+  });
+
+  it("should only rank games played under the default rules", () => {
+    let state = createGame({ seed: 7, rules: { ...DEFAULT_RULES, rows: 2, columns: 2 } });
+    while (!state.won && !state.lost) state = applyMove(state, getLegalMoves(state)[0]).state;
+
+    expect(() => verifyScoreSubmission(createSubmission(state), now)).toThrow(/default rules/);
+  });
+
+  it("should rank daily games on the daily board, played without undos", () => {
+    const seed = getDailySeed("2026-03-01");
+
+    expect(verifyScoreSubmission(createSubmission(playGame(seed, 0), { daily: "2026-03-01" }), now).board).toBe(
+      "daily:2026-03-01",
+    );
+    expect(() => verifyScoreSubmission(createSubmission(playGame(seed), { daily: "2026-03-01" }), now)).toThrow(
+      /without undos/,
+    );
+    expect(() => verifyScoreSubmission(createSubmission(playGame(seed, 0), { daily: "2026-03-02" }), now)).toThrow(
+      InvalidRequestError,
+    );
+  });
+
+  it("should keep each player's best result and rank assisted games apart", async () => {
+    const store = createMemoryLeaderboardStore();
+    const [better, worse] = [playGame(7), playGame(7, null, true)].sort(
+      (a, b) => compareResults(getGameResult(b), getGameResult(a)),
+    );
+    expect(compareResults(getGameResult(better), getGameResult(worse))).toBeGreaterThan(0);
+
+    await submitScore(store, createSubmission(better), now);
+    await submitScore(store, createSubmission(worse, { player: "bob" }, ["ez-mode"]), now);
+    const again = await submitScore(store, createSubmission(worse), now);
+
+    const query = parseStandingsQuery(new URLSearchParams("board=seed:7"));
+    const unassisted = await getLeaderboard(store, query);
+    const assisted = await getLeaderboard(store, { ...query, assisted: true });
+
+    expect(again.result).toEqual(getGameResult(worse));
+    expect(again.best).toEqual(getGameResult(better));
+    expect(unassisted.map((entry) => [entry.rank, entry.player])).toEqual([[1, "ada"]]);
+    expect(assisted.map((entry) => entry.player)).toEqual(["bob"]);
+  });
+
+  it("should validate submissions and leaderboard queries", () => {
+    const submission = createSubmission(playGame(7));
+
+    expect(parseScoreSubmission(submission)).toEqual(submission);
+    expect(() => parseScoreSubmission({ ...submission, player: " " })).toThrow(/player must be/);
+    expect(() => parseScoreSubmission({ ...submission, claimed: { won: false, cardsCleared: -1, score: 0 } })).toThrow(
+      /cardsCleared/,
+    );
+    expect(parseStandingsQuery(new URLSearchParams())).toEqual({
+      board: "all",
+      assisted: false,
+      ranking: "wins",
+      limit: 20,
+    });
+    expect(() => parseStandingsQuery(new URLSearchParams("board=seed:x"))).toThrow(/board must be/);
+    expect(() => parseStandingsQuery(new URLSearchParams("ranking=luck"))).toThrow(/ranking must be/);
+    expect(() => parseStandingsQuery(new URLSearchParams("limit=500"))).toThrow(/limit must be/);
+    expect([isVerifiedBoard("daily:2026-03-01"), isVerifiedBoard("seed:7"), isVerifiedBoard("all")]).toEqual([
+      true,
+      false,
+      false,
+    ]);
+  });
+});
@@ -0,0 +1,339 @@
+// Leaderboards of replay-verified results, kept in a D1 database. Every
+// submission carries its full game record, which is replayed from the seed
+// before anything is stored, so only results the deal really produces are ranked.
+import type { LeaderboardEntry, LeaderboardRanking, ScoreSubmission, ScoreSubmissionResponse } from "../types/Api";
+import { getDailyDate, getDailySeed, parseDailyDate } from "../utils/daily";
+import { GameRecordError, isAssistedRecord, parseGameRecord, replayGameRecord } from "../utils/gameRecord";
+import { parseSeed } from "../utils/random";
+import { isDefaultRules } from "../utils/rules";
+import { getGameResult, type GameResult } from "../utils/score";
+import { InvalidRequestError } from "./gameStore";
+
+export const MAX_PLAYER_NAME_LENGTH = 24;
+export const DEFAULT_LEADERBOARD_SIZE = 20;
+export const MAX_LEADERBOARD_SIZE = 100;
+export const ALL_BOARDS = "all";
+
+const rankings: LeaderboardRanking[] = ["wins", "cards", "score"];
+
+export class ReplayMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayMismatchError";
+  }
+}
+
+/**
+ * Whether a board's results can be trusted to be first attempts. A seed can be
+ * played over and over before a run is submitted, so knowing the deal in
+ * advance does not show in the replay. Free play refuses a daily challenge's
+ * deal until its day is over, so daily boards are verified.
+ */
+export const isVerifiedBoard = (board: string) => board.startsWith("daily:");
+
+// A player's best result on one board
+export interface ScoreRow extends GameResult {
+  board: string;
+  assisted: boolean;
+  player: string;
+  record: string;
+  submittedAt: string;
+}
+
+export type Standing = Omit<LeaderboardEntry, "rank">;
+
+export interface StandingsQuery {
+  board: string; // A deal's board, or ALL_BOARDS for totals
+  assisted: boolean;
+  ranking: LeaderboardRanking;
+  limit: number;
+}
+
+// Where leaderboards are kept: D1 in production, a fake in tests
+export interface LeaderboardStore {
+  getScore(board: string, assisted: boolean, player: string): Promise<ScoreRow | null>;
+  saveScore(row: ScoreRow): Promise<void>;
+  getStandings(query: StandingsQuery): Promise<Standing[]>;
+}
+
+// The fields each ranking orders by, most important first
+export const rankingOrder: Record<LeaderboardRanking, (keyof GameResult)[]> = {
+  wins: ["won", "cardsCleared", "score"],
+  cards: ["cardsCleared", "won", "score"],
+  score: ["score", "won", "cardsCleared"],
+};
+
+// A single result, or totals where `won` counts the wins
+type Ranked = { [Field in keyof GameResult]: number | boolean };
+
+// Positive when a ranks above b
+export function compareResults(a: Ranked, b: Ranked, ranking: LeaderboardRanking = "wins"): number {
+  for (const field of rankingOrder[ranking]) {
+    const difference = Number(a[field]) - Number(b[field]);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+const parseBoolean = (value: unknown, field: string): boolean => {
+  if (typeof value !== "boolean") throw new InvalidRequestError(`${field} must be true or false`);
+  return value;
+};
+
+const parseCount = (value: unknown, field: string): number => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new InvalidRequestError(`${field} must be a whole number`);
+  }
+  return value;
+};
+
+export function parsePlayerName(value: unknown): string {
+  const name = typeof value === "string" ? value.trim() : "";
+  // No control characters, which could break layouts where the name is shown
+  if (name.length === 0 || name.length > MAX_PLAYER_NAME_LENGTH || /\p{Cc}/u.test(name)) {
+    throw new InvalidRequestError(`player must be 1 to ${MAX_PLAYER_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+/**
+ * Check that a request body is a ScoreSubmission
+ * @throws InvalidRequestError describing the first problem found
+ */
+export function parseScoreSubmission(body: unknown): ScoreSubmission {
+  const submission = body as ScoreSubmission;
+  if (typeof submission !== "object" || submission === null) {
+    throw new InvalidRequestError("Expected a score submission object");
+  }
+  if (typeof submission.record !== "string") {
+    throw new InvalidRequestError("record must be the game record text");
+  }
+  if (submission.daily !== undefined && typeof submission.daily !== "string") {
+    throw new InvalidRequestError("daily must be a YYYY-MM-DD date");
+  }
+  const claimed = submission.claimed;
+  if (typeof claimed !== "object" || claimed === null) {
+    throw new InvalidRequestError("claimed must give the game's result");
+  }
+
+  return {
+    player: parsePlayerName(submission.player),
+    record: submission.record,
+    ...(submission.daily !== undefined ? { daily: submission.daily } : {}),
+    claimed: {
+      won: parseBoolean(claimed.won, "claimed.won"),
+      cardsCleared: parseCount(claimed.cardsCleared, "claimed.cardsCleared"),
+      score: parseCount(claimed.score, "claimed.score"),
+    },
+  };
+}
+
+/**
+ * Replay a submission's record and work out which board it belongs on, and
+ * whether it goes on the assisted one
+ * @throws InvalidRequestError for a record that cannot be ranked, or
+ * ReplayMismatchError when the replay does not reproduce the claimed result
+ */
+export function verifyScoreSubmission(
+  submission: ScoreSubmission,
+  now: Date = new Date(),
+): { board: string; assisted: boolean; result: GameResult } {
+  let record;
+  try {
+    record = parseGameRecord(submission.record);
+  } catch (error) {
+    throw new InvalidRequestError(error instanceof GameRecordError ? error.message : "record is not a game record");
+  }
+  if (record.seed === null) {
+    throw new InvalidRequestError("Only seeded games can be ranked");
+  }
+  // Boards are per deal, and a seed deals differently under other rules
+  if (!isDefaultRules(record.rules)) {
+    throw new InvalidRequestError("Only games played under the default rules can be ranked");
+  }
+
+  let board = `seed:${record.seed}`;
+  if (submission.daily !== undefined) {
+    const date = parseDailyDate(submission.daily);
+    if (date === null || date > getDailyDate(now)) {
+      throw new InvalidRequestError(`There is no daily challenge for "${submission.daily}"`);
+    }
+    if (record.seed !== getDailySeed(date)) {
+      throw new ReplayMismatchError(`The record is not the deal of the ${date} challenge`);
+    }
+    if (record.undoLimit !== 0) {
+      throw new InvalidRequestError("Daily challenges are played without undos");
+    }
+    board = `daily:${date}`;
+  }
+
+  let state;
+  try {
+    state = replayGameRecord(record);
+  } catch (error) {
+    throw new ReplayMismatchError(error instanceof Error ? error.message : String(error));
+  }
+  if (!state.won && !state.lost) {
+    throw new InvalidRequestError("Only finished games can be ranked");
+  }
+
+  const result = getGameResult(state);
+  const { claimed } = submission;
+  if (result.won !== claimed.won || result.cardsCleared !== claimed.cardsCleared || result.score !== claimed.score) {
+    throw new ReplayMismatchError(
+      `The record replays to ${result.won ? "a win" : "a loss"} with ${result.cardsCleared} cards cleared ` +
+        `and ${result.score} points, not the claimed result`,
+    );
+  }
+  return { board, assisted: isAssistedRecord(record), result };
+}
+
+/**
+ * Verify a submission and keep it if it is the player's best on its board
+ * @returns the board, the verified result and the player's best result there
+ */
+export async function submitScore(
+  store: LeaderboardStore,
+  submission: ScoreSubmission,
+  now: Date = new Date(),
+): Promise<ScoreSubmissionResponse> {
+  const { board, assisted, result } = verifyScoreSubmission(submission, now);
+  const { player, record } = submission;
+
+  const existing = await store.getScore(board, assisted, player);
+  if (existing && compareResults(existing, result) >= 0) {
+    const { won, cardsCleared, score } = existing;
+    return { board, assisted, result, best: { won, cardsCleared, score } };
+  }
+
+  await store.saveScore({ board, assisted, player, record, submittedAt: now.toISOString(), ...result });
+  return { board, assisted, result, best: result };
+}
+
+/**
+ * Parse the board, assisted, ranking and limit query parameters
+ * @throws InvalidRequestError for a value that is not allowed
+ */
+export function parseStandingsQuery(params: URLSearchParams): StandingsQuery {
+  const board = params.get("board") ?? ALL_BOARDS;
+  const [kind, value] = board.split(":");
+  const validBoard =
+    board === ALL_BOARDS ||
+    (kind === "daily" && parseDailyDate(value) !== null) ||
+    (kind === "seed" && parseSeed(value) !== null);
+  if (!validBoard) {
+    throw new InvalidRequestError(`board must be "${ALL_BOARDS}", "daily:YYYY-MM-DD" or "seed:<seed>"`);
+  }
+
+  const assisted = params.get("assisted") ?? "false";
+  if (assisted !== "true" && assisted !== "false") {
+    throw new InvalidRequestError("assisted must be true or false");
+  }
+
+  const ranking = (params.get("ranking") ?? "wins") as LeaderboardRanking;
+  if (!rankings.includes(ranking)) {
+    throw new InvalidRequestError(`ranking must be one of ${rankings.join(", ")}`);
+  }
+
+  const limit = Number(params.get("limit") ?? DEFAULT_LEADERBOARD_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LEADERBOARD_SIZE) {
+    throw new InvalidRequestError(`limit must be between 1 and ${MAX_LEADERBOARD_SIZE}`);
+  }
+
+  return { board, assisted: assisted === "true", ranking, limit };
+}
+
+export async function getLeaderboard(store: LeaderboardStore, query: StandingsQuery): Promise<LeaderboardEntry[]> {
+  const standings = await store.getStandings(query);
+  return standings.map((standing, index) => ({ rank: index + 1, ...standing }));
+}
+
+// Column names of the scores table (see migrations/)
+const orderColumns: Record<keyof GameResult, string> = {
+  won: "wins",
+  cardsCleared: "cards_cleared",
+  score: "score",
+};
+
+interface StandingRow {
+  player: string;
+  games: number;
+  wins: number;
+  cards_cleared: number;
+  score: number;
+}
+
+interface ScoreTableRow {
+  board: string;
+  assisted: number;
+  player: string;
+  won: number;
+  cards_cleared: number;
+  score: number;
+  record: string;
+  submitted_at: string;
+}
+
+export function createD1LeaderboardStore(db: D1Database): LeaderboardStore {
+  return {
+    async getScore(board, assisted, player) {
+      const row = await db
+        .prepare("SELECT * FROM scores WHERE board = ?1 AND assisted = ?2 AND player = ?3")
+        .bind(board, Number(assisted), player)
+        .first<ScoreTableRow>();
+      if (!row) return null;
+      return {
+        board: row.board,
+        assisted: row.assisted === 1,
+        player: row.player,
+        won: row.won === 1,
+        cardsCleared: row.cards_cleared,
+        score: row.score,
+        record: row.record,
+        submittedAt: row.submitted_at,
+      };
+    },
+
+    async saveScore(row) {
+      await db
+        .prepare(
+          `INSERT OR REPLACE INTO scores (board, assisted, player, won, cards_cleared, score, record, submitted_at)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)`,
+        )
+        .bind(
+          row.board,
+          Number(row.assisted),
+          row.player,
+          Number(row.won),
+          row.cardsCleared,
+          row.score,
+          row.record,
+          row.submittedAt,
+        )
+        .run();
+    },
+
+    async getStandings({ board, assisted, ranking, limit }) {
+      // Per deal each player has one row, so the totals are that row; "all" adds up every deal
+      const order = rankingOrder[ranking].map((field) => `${orderColumns[field]} DESC`).join(", ");
+      const where = board === ALL_BOARDS ? "assisted = ?1" : "assisted = ?1 AND board = ?3";
+      const { results } = await db
+        .prepare(
+          `SELECT player, COUNT(*) AS games, SUM(won) AS wins, SUM(cards_cleared) AS cards_cleared, SUM(score) AS score
+           FROM scores WHERE ${where}
+           GROUP BY player
+           ORDER BY ${order}, MIN(submitted_at) ASC
+           LIMIT ?2`,
+        )
+        .bind(Number(assisted), limit, ...(board === ALL_BOARDS ? [] : [board]))
+        .all<StandingRow>();
+      return results.map((row) => ({
+        player: row.player,
+        games: row.games,
+        wins: row.wins,
+        cardsCleared: row.cards_cleared,
+        score: row.score,
+      }));
+    },
+  };
+}
@@ -0,0 +1,254 @@
+import { describe, expect, it } from "vitest";
+import type { ServerGameResponse } from "../types/Api";
+import type { GameState } from "../types/GameState";
+import { getDailySeed } from "../utils/daily";
+import { applyMove, createGame, getLegalMoves, getPlayedMoves } from "../utils/gameEngine";
+import type { Assist } from "../utils/gameRecord";
+import { getGameResult } from "../utils/score";
+import { GameInProgressError, loadGame, playServerMove, type GameStorage } from "./gameStore";
+import { compareResults } from "./leaderboard";
+import {
+  createLeague,
+  DailyAttemptNotFoundError,
+  getLeagueStandings,
+  getLeagueSummary,
+  InvalidMemberTokenError,
+  joinLeague,
+  LeagueNotFoundError,
+  NicknameTakenError,
+  parseLeagueStandingsQuery,
+  ResultAlreadySubmittedError,
+  startLeagueDaily,
+  submitLeagueResult,
+  type League,
+  type LeagueAttempt,
+  type LeagueMember,
+  type LeagueResultRow,
+  type LeagueStore,
+} from "./leagues";
+
+const now = new Date("2026-10-21T12:00:00Z"); // A Wednesday
+
+// Keeps leagues in memory and totals results like the D1 store
+const createMemoryLeagueStore = (): LeagueStore => {
+  const leagues = new Map<string, League>();
+  const members = new Map<string, LeagueMember[]>();
+  const attempts: LeagueAttempt[] = [];
+  const results: LeagueResultRow[] = [];
+  return {
+    createLeague: async (league) => {
+      if (leagues.has(league.code)) return false;
+      leagues.set(league.code, league);
+      members.set(league.code, []);
+      return true;
+    },
+    getLeague: async (code) => leagues.get(code) ?? null,
+    getMembers: async (code) => (members.get(code) ?? []).map((member) => member.player),
+    addMember: async (code, member) => {
+      const list = members.get(code)!;
+      if (list.some((existing) => existing.player === member.player)) return false;
+      list.push(member);
+      return true;
+    },
+    findMember: async (code, token) => members.get(code)?.find((member) => member.token === token)?.player ?? null,
+    saveAttempt: async (attempt) => {
+      if (attempts.some((a) => a.code === attempt.code && a.player === attempt.player && a.date === attempt.date)) {
+        return false;
+      }
+      attempts.push(attempt);
+      return true;
+    },
+    getAttempt: async (code, player, date) =>
+      attempts.find((a) => a.code === code && a.player === player && a.date === date)?.gameId ?? null,
+    saveResult: async (row) => {
+      if (results.some((r) => r.code === row.code && r.player === row.player && r.date === row.date)) return false;
+      results.push(row);
+      return true;
+    },
+    getStandings: async (code, { from, to, ranking }) =>
+      members
+        .get(code)!
+        .map(({ player }) => {
+          const played = results.filter(
+            (r) => r.code === code && r.player === player && (from === null || (r.date >= from && r.date <= to!)),
+          );
+          return {
+            player,
+            games: played.length,
+            wins: played.filter((r) => r.won).length,
+            cardsCleared: played.reduce((sum, r) => sum + r.cardsCleared, 0),
+            score: played.reduce((sum, r) => sum + r.score, 0),
+            assistedGames: played.filter((r) => r.assisted).length,
+          };
+        })
+        .sort(
+          (a, b) =>
+            compareResults({ ...b, won: b.wins }, { ...a, won: a.wins }, ranking) || a.player.localeCompare(b.player),
+        ),
+  };
+};
+
+const createMemoryGameStorage = (): GameStorage => {
+  const items = new Map<string, string>();
+  return {
+    get: async (key) => items.get(key) ?? null,
+    put: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+// Play a game with the first (or last) legal move until it ends, locally or through the server
+const pickMove = (state: GameState, pickLast: boolean) => {
+  const moves = getLegalMoves(state);
+  return moves[pickLast ? moves.length - 1 : 0];
+};
+
+const playLocally = (date: string, pickLast = false): GameState => {
+  let state = createGame({ seed: getDailySeed(date), undoLimit: 0 });
+  while (!state.won && !state.lost) state = applyMove(state, pickMove(state, pickLast)).state;
+  return state;
+};
+
+const playOnServer = async (games: GameStorage, { id, state }: ServerGameResponse, pickLast = false) => {
+  while (!state.won && !state.lost) {
+    const move = pickMove(state, pickLast);
+    ({ state } = await playServerMove(games, id, { ...move, expectedMoves: getPlayedMoves(state).length }));
+  }
+  return state;
+};
+
+const noon = (date: string) => new Date(`${date}T12:00:00Z`);
+
+describe("Leagues", () => {
+  it("should create a league with an invite code and let others join it", async () => {
+    const store = createMemoryLeagueStore();
+
+    const created = await createLeague(store, { name: "Friday Cards", player: "ada" }, now);
+    const joined = await joinLeague(store, created.league.code.toLowerCase(), { player: "bob" }, now);
+
+    expect(created.league.code).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+    expect(created.membership).toMatchObject({ code: created.league.code, player: "ada" });
+    expect(joined.membership.token).not.toBe(created.membership.token);
+    expect(await getLeagueSummary(store, created.league.code)).toMatchObject({
+      name: "Friday Cards",
+      members: ["ada", "bob"],
+    });
+  });
+
+  it("should reject unknown codes, taken nicknames and bad requests", async () => {
+    const store = createMemoryLeagueStore();
+    const { league } = await createLeague(store, { name: "Friday Cards", player: "ada" }, now);
+
+    await expect(joinLeague(store, "ZZZZZZ", { player: "bob" }, now)).rejects.toThrow(LeagueNotFoundError);
+    await expect(joinLeague(store, league.code, { player: "ada" }, now)).rejects.toThrow(NicknameTakenError);
+    await expect(createLeague(store, { name: "", player: "ada" }, now)).rejects.toThrow(/name must be/);
+    await expect(createLeague(store, null, now)).rejects.toThrow(/Expected a league name/);
+  });
+
+  it("should give each member one attempt a day, which other leagues can share before it is played", async () => {
+    const store = createMemoryLeagueStore();
+    const games = createMemoryGameStorage();
+    const { membership: friday } = await createLeague(store, { name: "Friday Cards", player: "ada" }, now);
+    const { membership: office } = await createLeague(store, { name: "Office", player: "ada" }, now);
+    const { membership: club } = await createLeague(store, { name: "Club", player: "ada" }, now);
+
+    const attempt = await startLeagueDaily(store, games, friday.code, { token: friday.token }, now);
+    const shared = await startLeagueDaily(store, games, office.code, { token: office.token, gameId: attempt.id }, now);
+
+    expect(attempt.state.seed).toBeNull();
+    expect((await loadGame(games, attempt.id)).seed).toBe(getDailySeed("2026-10-21"));
+    expect(attempt.state.drawDeck).not.toEqual((await loadGame(games, attempt.id)).drawDeck);
+    expect(shared.id).toBe(attempt.id);
+    expect((await startLeagueDaily(store, games, friday.code, { token: friday.token }, now)).id).toBe(attempt.id);
+
+    const move = pickMove(attempt.state, false);
+    await playServerMove(games, attempt.id, { ...move, expectedMoves: 0 });
+    const resumed = await startLeagueDaily(store, games, friday.code, { token: friday.token }, now);
+
+    expect(getPlayedMoves(resumed.state)).toHaveLength(1);
+    await expect(
+      startLeagueDaily(store, games, club.code, { token: club.token, gameId: attempt.id }, now),
+    ).rejects.toThrow(/no moves played/);
+    await expect(startLeagueDaily(store, games, friday.code, { token: club.token }, now)).rejects.toThrow(
+      InvalidMemberTokenError,
+    );
+  });
+
+  it("should take one result per member per day from their finished attempt", async () => {
+    const store = createMemoryLeagueStore();
+    const games = createMemoryGameStorage();
+    const { league, membership } = await createLeague(store, { name: "Friday Cards", player: "ada" }, now);
+    const { token } = membership;
+    const attempt = await startLeagueDaily(store, games, league.code, { token }, now);
+
+    await expect(submitLeagueResult(store, games, league.code, { token, daily: "2026-10-21" }, now)).rejects.toThrow(
+      GameInProgressError,
+    );
+    const state = await playOnServer(games, attempt);
+    const response = await submitLeagueResult(store, games, league.code, { token, daily: "2026-10-21" }, now);
+
+    expect(response).toEqual({ code: league.code, player: "ada", date: "2026-10-21", result: getGameResult(state) });
+    await expect(submitLeagueResult(store, games, league.code, { token, daily: "2026-10-21" }, now)).rejects.toThrow(
+      ResultAlreadySubmittedError,
+    );
+    await expect(
+      submitLeagueResult(store, games, league.code, { token: "not-a-token", daily: "2026-10-21" }, now),
+    ).rejects.toThrow(InvalidMemberTokenError);
+    await expect(submitLeagueResult(store, games, league.code, { token, daily: "2026-10-20" }, now)).rejects.toThrow(
+      DailyAttemptNotFoundError,
+    );
+    await expect(
+      submitLeagueResult(store, games, league.code, { token, daily: "2026-10-20", assists: ["peeking"] }, now),
+    ).rejects.toThrow(/assists must list/);
+  });
+
+  it("should rank members by week and for all time", async () => {
+    const store = createMemoryLeagueStore();
+    const games = createMemoryGameStorage();
+    const { league, membership: ada } = await createLeague(store, { name: "Friday Cards", player: "ada" }, now);
+    const { membership: bob } = await joinLeague(store, league.code, { player: "bob" }, now);
+    await joinLeague(store, league.code, { player: "cy" }, now);
+    const play = async (token: string, date: string, pickLast = false, assists: Assist[] = []) => {
+      await playOnServer(games, await startLeagueDaily(store, games, league.code, { token }, noon(date)), pickLast);
+      await submitLeagueResult(store, games, league.code, { token, daily: date, assists }, noon(date));
+    };
+
+    // Last week bob played; this week both did, and ada played the better game with help
+    const [first, last] = [playLocally("2026-10-20"), playLocally("2026-10-20", true)].map(getGameResult);
+    const adaPicksLast = compareResults(last, first) > 0;
+    await play(bob.token, "2026-10-15");
+    await play(ada.token, "2026-10-20", adaPicksLast, ["card-counting"]);
+    await play(bob.token, "2026-10-20", !adaPicksLast);
+    const week = await getLeagueStandings(store, league.code, parseLeagueStandingsQuery(new URLSearchParams(), now));
+    const allTime = await getLeagueStandings(
+      store,
+      league.code,
+      parseLeagueStandingsQuery(new URLSearchParams("period=all&ranking=cards"), now),
+    );
+
+    expect(week.entries.map((entry) => [entry.rank, entry.player, entry.games])).toEqual([
+      [1, "ada", 1],
+      [2, "bob", 1],
+      [3, "cy", 0],
+    ]);
+    expect(week.entries[0].assistedGames).toBe(1);
+    expect(allTime.entries.find((entry) => entry.player === "bob")!.games).toBe(2);
+  });
+
+  it("should turn the period and date into a date range", () => {
+    expect(parseLeagueStandingsQuery(new URLSearchParams(), now)).toEqual({
+      period: "week",
+      from: "2026-10-19",
+      to: "2026-10-25",
+      ranking: "wins",
+    });
+    expect(parseLeagueStandingsQuery(new URLSearchParams("period=day&date=2026-10-01"), now)).toMatchObject({
+      from: "2026-10-01",
+      to: "2026-10-01",
+    });
+    expect(parseLeagueStandingsQuery(new URLSearchParams("period=all"), now)).toMatchObject({ from: null, to: null });
+    expect(() => parseLeagueStandingsQuery(new URLSearchParams("period=month"), now)).toThrow(/period must be/);
+    expect(() => parseLeagueStandingsQuery(new URLSearchParams("date=yesterday"), now)).toThrow(/Invalid date/);
+  });
+});
@@ -0,0 +1,495 @@
+// Private leagues: a named group, joined with a short invite code, whose
+// members' daily challenge results are ranked by week and for all time.
+// Each member gets one attempt a day, played as a server game tied to their
+// token, and the result is read from that game rather than sent by the client.
+import type {
+  CreateLeagueRequest,
+  LeagueDailyRequest,
+  LeagueJoinResponse,
+  LeaguePeriod,
+  LeagueResultResponse,
+  LeagueResultSubmission,
+  LeagueStandingEntry,
+  LeagueSummary,
+  LeaderboardRanking,
+  ServerGameResponse,
+} from "../types/Api";
+import { getDailyDate, getDailyWeek, parseDailyDate } from "../utils/daily";
+import { getPlayedMoves } from "../utils/gameEngine";
+import { ASSISTS, createGameRecord, isAssistedRecord, serializeGameRecord, type Assist } from "../utils/gameRecord";
+import { getGameResult, type GameResult } from "../utils/score";
+import {
+  createServerGame,
+  GameInProgressError,
+  getServerGame,
+  InvalidRequestError,
+  loadStoredGame,
+  type GameStorage,
+} from "./gameStore";
+import { parsePlayerName, rankingOrder } from "./leaderboard";
+
+export const INVITE_CODE_LENGTH = 6;
+export const MAX_LEAGUE_NAME_LENGTH = 40;
+const MAX_CODE_ATTEMPTS = 5;
+
+// No 0/O or 1/I, so codes survive being read out loud
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+const periods: LeaguePeriod[] = ["day", "week", "all"];
+const rankings: LeaderboardRanking[] = ["wins", "cards", "score"];
+
+export class LeagueNotFoundError extends Error {
+  constructor(code: string) {
+    super(`No league with invite code "${code}"`);
+    this.name = "LeagueNotFoundError";
+  }
+}
+
+export class NicknameTakenError extends Error {
+  constructor(player: string) {
+    super(`Someone in this league is already called "${player}"`);
+    this.name = "NicknameTakenError";
+  }
+}
+
+export class InvalidMemberTokenError extends Error {
+  constructor() {
+    super("The token does not belong to a member of this league");
+    this.name = "InvalidMemberTokenError";
+  }
+}
+
+export class DailyAttemptNotFoundError extends Error {
+  constructor(player: string, date: string) {
+    super(`${player} has not started the ${date} challenge in this league`);
+    this.name = "DailyAttemptNotFoundError";
+  }
+}
+
+export class ResultAlreadySubmittedError extends Error {
+  constructor(player: string, date: string) {
+    super(`${player} already has a result for ${date}`);
+    this.name = "ResultAlreadySubmittedError";
+  }
+}
+
+export interface League {
+  code: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface LeagueMember {
+  player: string;
+  token: string;
+  joinedAt: string;
+}
+
+// A member's one attempt at a day's challenge
+export interface LeagueAttempt {
+  code: string;
+  player: string;
+  date: string;
+  gameId: string; // The server game it is played in
+  startedAt: string;
+}
+
+export interface LeagueResultRow extends GameResult {
+  code: string;
+  player: string;
+  date: string;
+  assisted: boolean;
+  record: string;
+  submittedAt: string;
+}
+
+export interface LeagueStandingsQuery {
+  period: LeaguePeriod;
+  from: string | null;
+  to: string | null;
+  ranking: LeaderboardRanking;
+}
+
+// Where leagues are kept: D1 in production, a fake in tests
+export interface LeagueStore {
+  createLeague(league: League): Promise<boolean>; // false when the code is taken
+  getLeague(code: string): Promise<League | null>;
+  getMembers(code: string): Promise<string[]>;
+  addMember(code: string, member: LeagueMember): Promise<boolean>; // false when the nickname is taken
+  findMember(code: string, token: string): Promise<string | null>;
+  saveAttempt(attempt: LeagueAttempt): Promise<boolean>; // false when the member already has that day's attempt
+  getAttempt(code: string, player: string, date: string): Promise<string | null>; // The attempt's game id
+  saveResult(row: LeagueResultRow): Promise<boolean>; // false when the member already has that day's result
+  getStandings(code: string, query: LeagueStandingsQuery): Promise<Omit<LeagueStandingEntry, "rank">[]>;
+}
+
+const randomIndexes = (count: number) => [...crypto.getRandomValues(new Uint8Array(count))];
+
+export function createInviteCode(): string {
+  return randomIndexes(INVITE_CODE_LENGTH)
+    .map((byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length])
+    .join("");
+}
+
+// Codes are matched case-insensitively, so "abc234" finds "ABC234"
+export function normalizeInviteCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+const createToken = () =>
+  randomIndexes(16)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const parseLeagueName = (value: unknown): string => {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (name.length === 0 || name.length > MAX_LEAGUE_NAME_LENGTH || /\p{Cc}/u.test(name)) {
+    throw new InvalidRequestError(`name must be 1 to ${MAX_LEAGUE_NAME_LENGTH} characters`);
+  }
+  return name;
+};
+
+const asObject = (body: unknown, description: string): Record<string, unknown> => {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new InvalidRequestError(`Expected ${description}`);
+  }
+  return body as Record<string, unknown>;
+};
+
+/**
+ * @throws LeagueNotFoundError when there is no league with the code
+ */
+export async function getLeagueSummary(store: LeagueStore, code: string): Promise<LeagueSummary> {
+  const league = await store.getLeague(normalizeInviteCode(code));
+  if (!league) throw new LeagueNotFoundError(code);
+  return { ...league, members: await store.getMembers(league.code) };
+}
+
+const join = async (store: LeagueStore, league: League, player: string, now: Date): Promise<LeagueJoinResponse> => {
+  const member: LeagueMember = { player, token: createToken(), joinedAt: now.toISOString() };
+  if (!(await store.addMember(league.code, member))) throw new NicknameTakenError(player);
+
+  return {
+    league: { ...league, members: await store.getMembers(league.code) },
+    membership: { code: league.code, player, token: member.token },
+  };
+};
+
+/**
+ * Create a league under a fresh invite code, with its creator as the first member
+ * @throws InvalidRequestError for a missing name or nickname
+ */
+export async function createLeague(store: LeagueStore, body: unknown, now: Date = new Date()): Promise<LeagueJoinResponse> {
+  const request = asObject(body, "a league name and a nickname") as Partial<CreateLeagueRequest>;
+  const name = parseLeagueName(request.name);
+  const player = parsePlayerName(request.player);
+
+  // Codes are random, so a clash is rare; try a few before giving up
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const league: League = { code: createInviteCode(), name, createdAt: now.toISOString() };
+    if (await store.createLeague(league)) return join(store, league, player, now);
+  }
+  throw new Error("Could not find a free invite code");
+}
+
+/**
+ * @throws LeagueNotFoundError, NicknameTakenError or InvalidRequestError
+ */
+export async function joinLeague(
+  store: LeagueStore,
+  code: string,
+  body: unknown,
+  now: Date = new Date(),
+): Promise<LeagueJoinResponse> {
+  const player = parsePlayerName(asObject(body, "a nickname").player);
+  const league = await store.getLeague(normalizeInviteCode(code));
+  if (!league) throw new LeagueNotFoundError(code);
+  return join(store, league, player, now);
+}
+
+// The league and the member a token belongs to
+const findMembership = async (
+  store: LeagueStore,
+  code: string,
+  token: unknown,
+): Promise<{ league: League; player: string }> => {
+  if (typeof token !== "string") throw new InvalidRequestError("token must be a membership token");
+  const league = await store.getLeague(normalizeInviteCode(code));
+  if (!league) throw new LeagueNotFoundError(code);
+  const player = await store.findMember(league.code, token);
+  if (!player) throw new InvalidMemberTokenError();
+  return { league, player };
+};
+
+const parseAssists = (value: unknown): Assist[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((assist) => !ASSISTS.includes(assist))) {
+    throw new InvalidRequestError(`assists must list any of ${ASSISTS.join(", ")}`);
+  }
+  return value;
+};
+
+/**
+ * Start a member's attempt at today's challenge as a server game, or return
+ * the one already started: each member gets one attempt per day. A player in
+ * several leagues can pass the game of an attempt from another league, as
+ * long as no move has been played in it, so the one game counts for all of them.
+ * @throws LeagueNotFoundError, InvalidMemberTokenError, GameNotFoundError or InvalidRequestError
+ */
+export async function startLeagueDaily(
+  store: LeagueStore,
+  games: GameStorage,
+  code: string,
+  body: unknown,
+  now: Date = new Date(),
+): Promise<ServerGameResponse> {
+  const request = asObject(body, "a membership token") as Partial<LeagueDailyRequest>;
+  if (request.gameId !== undefined && typeof request.gameId !== "string") {
+    throw new InvalidRequestError("gameId must be the id of a server game");
+  }
+  const { league, player } = await findMembership(store, code, request.token);
+  const date = getDailyDate(now);
+
+  const existing = await store.getAttempt(league.code, player, date);
+  if (existing) return getServerGame(games, existing);
+
+  let game: ServerGameResponse;
+  if (request.gameId !== undefined) {
+    const shared = await loadStoredGame(games, request.gameId);
+    if (shared.daily !== date || getPlayedMoves(shared.state).length > 0) {
+      throw new InvalidRequestError(`Only a game of the ${date} challenge with no moves played yet can be shared`);
+    }
+    game = await getServerGame(games, request.gameId);
+  } else {
+    game = await createServerGame(games, { daily: date });
+  }
+
+  const attempt: LeagueAttempt = { code: league.code, player, date, gameId: game.id, startedAt: now.toISOString() };
+  if (await store.saveAttempt(attempt)) return game;
+  // Started from another device in the meantime
+  return getServerGame(games, (await store.getAttempt(league.code, player, date))!);
+}
+
+/**
+ * Add the result of a member's finished attempt at a day's challenge to the
+ * league. The server played the game, so only the assists come from the client.
+ * @throws LeagueNotFoundError, InvalidMemberTokenError, DailyAttemptNotFoundError,
+ * GameNotFoundError, GameInProgressError, ResultAlreadySubmittedError or InvalidRequestError
+ */
+export async function submitLeagueResult(
+  store: LeagueStore,
+  games: GameStorage,
+  code: string,
+  body: unknown,
+  now: Date = new Date(),
+): Promise<LeagueResultResponse> {
+  const submission = asObject(body, "a league result") as Partial<LeagueResultSubmission>;
+  const date = typeof submission.daily === "string" ? parseDailyDate(submission.daily) : null;
+  if (date === null) throw new InvalidRequestError("daily must be a YYYY-MM-DD date");
+  const assists = parseAssists(submission.assists);
+  const { league, player } = await findMembership(store, code, submission.token);
+
+  const gameId = await store.getAttempt(league.code, player, date);
+  if (!gameId) throw new DailyAttemptNotFoundError(player, date);
+  const { state } = await loadStoredGame(games, gameId);
+  if (!state.won && !state.lost) throw new GameInProgressError(gameId);
+
+  const record = createGameRecord(state, assists);
+  const result = getGameResult(state);
+  const saved = await store.saveResult({
+    code: league.code,
+    player,
+    date,
+    assisted: isAssistedRecord(record),
+    record: serializeGameRecord(record),
+    submittedAt: now.toISOString(),
+    ...result,
+  });
+  if (!saved) throw new ResultAlreadySubmittedError(player, date);
+
+  return { code: league.code, player, date, result };
+}
+
+/**
+ * Parse the period, date and ranking query parameters. A period covers the
+ * day or the Monday to Sunday week of `date` (today by default), or all time.
+ * @throws InvalidRequestError for a value that is not allowed
+ */
+export function parseLeagueStandingsQuery(params: URLSearchParams, now: Date = new Date()): LeagueStandingsQuery {
+  const period = (params.get("period") ?? "week") as LeaguePeriod;
+  if (!periods.includes(period)) {
+    throw new InvalidRequestError(`period must be one of ${periods.join(", ")}`);
+  }
+
+  const ranking = (params.get("ranking") ?? "wins") as LeaderboardRanking;
+  if (!rankings.includes(ranking)) {
+    throw new InvalidRequestError(`ranking must be one of ${rankings.join(", ")}`);
+  }
+
+  const requested = params.get("date");
+  const date = requested === null ? getDailyDate(now) : parseDailyDate(requested);
+  if (date === null) {
+    throw new InvalidRequestError(`Invalid date "${requested}". Use YYYY-MM-DD, from the first challenge on.`);
+  }
+
+  if (period === "all") return { period, from: null, to: null, ranking };
+  if (period === "day") return { period, from: date, to: date, ranking };
+  const week = getDailyWeek(date);
+  return { period, from: week.start, to: week.end, ranking };
+}
+
+/**
+ * Every member's totals for the period, ranked. Members without results still appear, at the bottom.
+ * @throws LeagueNotFoundError when there is no league with the code
+ */
+export async function getLeagueStandings(
+  store: LeagueStore,
+  code: string,
+  query: LeagueStandingsQuery,
+): Promise<{ league: League; entries: LeagueStandingEntry[] }> {
+  const league = await store.getLeague(normalizeInviteCode(code));
+  if (!league) throw new LeagueNotFoundError(code);
+
+  const standings = await store.getStandings(league.code, query);
+  return { league, entries: standings.map((standing, index) => ({ rank: index + 1, ...standing })) };
+}
+
+// Column names of the league tables (see migrations/)
+const orderColumns: Record<keyof GameResult, string> = {
+  won: "wins",
+  cardsCleared: "cards_cleared",
+  score: "score",
+};
+
+interface LeagueRow {
+  code: string;
+  name: string;
+  created_at: string;
+}
+
+interface StandingRow {
+  player: string;
+  games: number;
+  wins: number;
+  cards_cleared: number;
+  score: number;
+  assisted_games: number;
+}
+
+// D1 reports a broken PRIMARY KEY or UNIQUE constraint as an error mentioning it
+const isConstraintError = (error: unknown) => error instanceof Error && /UNIQUE constraint failed/.test(error.message);
+
+const insertUnique = async (statement: D1PreparedStatement): Promise<boolean> => {
+  try {
+    await statement.run();
+    return true;
+  } catch (error) {
+    if (isConstraintError(error)) return false;
+    throw error;
+  }
+};
+
+export function createD1LeagueStore(db: D1Database): LeagueStore {
+  return {
+    createLeague({ code, name, createdAt }) {
+      return insertUnique(
+        db.prepare("INSERT INTO leagues (code, name, created_at) VALUES (?1, ?2, ?3)").bind(code, name, createdAt),
+      );
+    },
+
+    async getLeague(code) {
+      const row = await db.prepare("SELECT * FROM leagues WHERE code = ?1").bind(code).first<LeagueRow>();
+      return row ? { code: row.code, name: row.name, createdAt: row.created_at } : null;
+    },
+
+    async getMembers(code) {
+      const { results } = await db
+        .prepare("SELECT player FROM league_members WHERE league_code = ?1 ORDER BY joined_at, player")
+        .bind(code)
+        .all<{ player: string }>();
+      return results.map((row) => row.player);
+    },
+
+    addMember(code, { player, token, joinedAt }) {
+      return insertUnique(
+        db
+          .prepare("INSERT INTO league_members (league_code, player, token, joined_at) VALUES (?1, ?2, ?3, ?4)")
+          .bind(code, player, token, joinedAt),
+      );
+    },
+
+    async findMember(code, token) {
+      const row = await db
+        .prepare("SELECT player FROM league_members WHERE league_code = ?1 AND token = ?2")
+        .bind(code, token)
+        .first<{ player: string }>();
+      return row?.player ?? null;
+    },
+
+    saveAttempt({ code, player, date, gameId, startedAt }) {
+      return insertUnique(
+        db
+          .prepare(
+            "INSERT INTO league_attempts (league_code, player, date, game_id, started_at) VALUES (?1, ?2, ?3, ?4, ?5)",
+          )
+          .bind(code, player, date, gameId, startedAt),
+      );
+    },
+
+    async getAttempt(code, player, date) {
+      const row = await db
+        .prepare("SELECT game_id FROM league_attempts WHERE league_code = ?1 AND player = ?2 AND date = ?3")
+        .bind(code, player, date)
+        .first<{ game_id: string }>();
+      return row?.game_id ?? null;
+    },
+
+    saveResult(row) {
+      return insertUnique(
+        db
+          .prepare(
+            `INSERT INTO league_results
+               (league_code, player, date, assisted, won, cards_cleared, score, record, submitted_at)
+             VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9)`,
+          )
+          .bind(
+            row.code,
+            row.player,
+            row.date,
+            Number(row.assisted),
+            Number(row.won),
+            row.cardsCleared,
+            row.score,
+            row.record,
+            row.submittedAt,
+          ),
+      );
+    },
+
+    async getStandings(code, { from, to, ranking }) {
+      const order = rankingOrder[ranking].map((field) => `${orderColumns[field]} DESC`).join(", ");
+      const period = from === null ? "" : "AND r.date BETWEEN ?2 AND ?3";
+      const { results } = await db
+        .prepare(
+          `SELECT m.player, COUNT(r.date) AS games, COALESCE(SUM(r.won), 0) AS wins,
+                  COALESCE(SUM(r.cards_cleared), 0) AS cards_cleared, COALESCE(SUM(r.score), 0) AS score,
+                  COALESCE(SUM(r.assisted), 0) AS assisted_games
+           FROM league_members m
+           LEFT JOIN league_results r ON r.league_code = m.league_code AND r.player = m.player ${period}
+           WHERE m.league_code = ?1
+           GROUP BY m.player
+           ORDER BY ${order}, m.player`,
+        )
+        .bind(code, ...(from === null ? [] : [from, to]))
+        .all<StandingRow>();
+      return results.map((row) => ({
+        player: row.player,
+        games: row.games,
+        wins: row.wins,
+        cardsCleared: row.cards_cleared,
+        score: row.score,
+        assistedGames: row.assisted_games,
+      }));
+    },
+  };
+}
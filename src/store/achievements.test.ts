@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getLegalMoves } from "../utils/gameEngine";
+import { createMemoryStorage } from "../utils/storage";
+import { $achievements, ACHIEVEMENTS_STORAGE_KEY, dismissAchievementToast, initAchievements } from "./achievements";
+import { $gameState, makeMove, setUndoLimit, startNewGame } from "./gameState";
+
+const playToEnd = () => {
+  while (!$gameState.get().won && !$gameState.get().lost) makeMove(getLegalMoves($gameState.get())[0]);
+};
+
+describe("Achievements Store", () => {
+  let storage: Storage;
+  let stop: () => void;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    setUndoLimit(null);
+    $achievements.set({ progress: {}, toasts: [] });
+    startNewGame(1);
+    stop = initAchievements(storage);
+  });
+
+  afterEach(() => stop());
+
+  it("should track progress from moves and finished games and save it", () => {
+    playToEnd();
+    const { progress } = $achievements.get();
+
+    expect(progress.regular).toEqual({ progress: 1, unlockedAt: null });
+    expect(progress.skyscraper.progress).toBeGreaterThan(1);
+    expect(JSON.parse(storage.getItem(ACHIEVEMENTS_STORAGE_KEY)!)).toEqual(progress);
+  });
+
+  it("should queue a toast for each unlock until it is dismissed", () => {
+    $achievements.set({ progress: { regular: { progress: 24, unlockedAt: null } }, toasts: [] });
+
+    playToEnd();
+    expect($achievements.get().toasts).toContain("regular");
+
+    dismissAchievementToast("regular");
+    expect($achievements.get().toasts).not.toContain("regular");
+  });
+
+  it("should restore saved progress", () => {
+    storage.setItem(ACHIEVEMENTS_STORAGE_KEY, JSON.stringify({ regular: { progress: 3, unlockedAt: null } }));
+    stop();
+
+    stop = initAchievements(storage);
+    expect($achievements.get().progress.regular.progress).toBe(3);
+  });
+});
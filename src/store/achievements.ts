@@ -0,0 +1,62 @@
+import { atom } from "nanostores";
+import { applyAchievementEvent, type AchievementEvent, type AchievementProgressMap } from "../utils/achievements";
+import { getPlayedMoves } from "../utils/gameEngine";
+import { getLocalStorage, readJSON, writeJSON } from "../utils/storage";
+import { $gameState, onGameEnd } from "./gameState";
+import { $assists } from "./assists";
+
+export const ACHIEVEMENTS_STORAGE_KEY = "high-low:achievements";
+
+export interface AchievementsState {
+  progress: AchievementProgressMap; // By achievement id
+  toasts: string[]; // Ids of newly unlocked achievements still to be announced, oldest first
+}
+
+export const $achievements = atom<AchievementsState>({
+  progress: {},
+  toasts: []
+});
+
+const updateAchievements = (changes: Partial<AchievementsState>) => {
+  $achievements.set({ ...$achievements.get(), ...changes });
+};
+
+export function dismissAchievementToast(id: string) {
+  updateAchievements({ toasts: $achievements.get().toasts.filter((toast) => toast !== id) });
+}
+
+/**
+ * Restore achievement progress and feed it every move played and every game
+ * that ends from then on
+ * @returns a function that stops listening
+ */
+export function initAchievements(storage: Storage | undefined = getLocalStorage()): () => void {
+  updateAchievements({ progress: readJSON<AchievementProgressMap>(ACHIEVEMENTS_STORAGE_KEY, storage) ?? {} });
+
+  const handle = (event: AchievementEvent) => {
+    const { progress, unlocked } = applyAchievementEvent($achievements.get().progress, event);
+    if (progress === $achievements.get().progress) return;
+
+    updateAchievements({
+      progress,
+      toasts: [...$achievements.get().toasts, ...unlocked.map((achievement) => achievement.id)]
+    });
+    writeJSON(ACHIEVEMENTS_STORAGE_KEY, progress, storage);
+  };
+
+  let previous = $gameState.get();
+  const unsubscribers = [
+    $gameState.listen((state) => {
+      const last = previous;
+      previous = state;
+      // One more move applied: a guess was played (or redone)
+      const moves = getPlayedMoves(state);
+      if (moves.length === getPlayedMoves(last).length + 1) {
+        handle({ type: "move", entry: moves[moves.length - 1], state });
+      }
+    }),
+    // The flag covers EZ Mode, EZ-EZ Mode, card counting and undos
+    onGameEnd((state) => handle({ type: "gameOver", state, assisted: $assists.get().assisted }))
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
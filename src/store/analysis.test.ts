@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AnalysisWorkerRequest } from "../workers/analysisProtocol";
+import { $analysis, cancelAnalysis, initAnalysis, requestAnalysis, type AnalysisWorker } from "./analysis";
+import { startNewGame } from "./gameState";
+
+// Record what the store sends to each worker it spawns
+class FakeWorker implements AnalysisWorker {
+  static instances: FakeWorker[] = [];
+  messages: AnalysisWorkerRequest[] = [];
+  terminated = false;
+  onmessage: AnalysisWorker["onmessage"] = null;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: AnalysisWorkerRequest) {
+    this.messages.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+describe("Analysis", () => {
+  let stop: () => void;
+
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal("Worker", FakeWorker);
+    startNewGame(42);
+    stop = initAnalysis();
+  });
+
+  afterEach(() => {
+    stop();
+    vi.unstubAllGlobals();
+  });
+
+  it("should stop the worker on cancel and restart the analyses still running", () => {
+    const solveId = requestAnalysis({ type: "solve" });
+    const simulateId = requestAnalysis({
+      type: "simulate",
+      strategy: "greedy-probability",
+      iterations: 100,
+      fromCurrentState: true,
+    });
+
+    cancelAnalysis("solve");
+
+    const [first, second] = FakeWorker.instances;
+    expect(first.terminated).toBe(true);
+    expect(second.messages).toEqual([expect.objectContaining({ type: "analyze", id: simulateId })]);
+    expect($analysis.get().solve).toMatchObject({ id: solveId, status: "cancelled" });
+    expect($analysis.get().simulate?.status).toBe("running");
+  });
+
+  it("should stop the worker when the position changes", () => {
+    requestAnalysis({ type: "solve" });
+
+    startNewGame(43);
+
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+    expect(FakeWorker.instances).toHaveLength(1);
+    expect($analysis.get()).toEqual({});
+  });
+});
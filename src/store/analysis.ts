@@ -0,0 +1,186 @@
+import { atom } from "nanostores";
+import type { GameState } from "../types/GameState";
+import type {
+  AnalysisKind,
+  AnalysisPartials,
+  AnalysisRequest,
+  AnalysisResults,
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse,
+} from "../workers/analysisProtocol";
+import { createAnalysisRunner } from "../workers/analysisRunner";
+import { $gameState } from "./gameState";
+
+export interface AnalysisEntry<K extends AnalysisKind = AnalysisKind> {
+  id: number;
+  request: Extract<AnalysisRequest, { type: K }>;
+  gameState: GameState; // The position being analysed
+  status: 'running' | 'done' | 'cancelled' | 'error';
+  completed: number;
+  total: number;
+  partial: AnalysisPartials[K] | null;
+  result: AnalysisResults[K] | null;
+  error: { name: string; message: string } | null;
+}
+
+// The latest analysis of each kind
+export type AnalysisState = { [K in AnalysisKind]?: AnalysisEntry<K> };
+
+export const $analysis = atom<AnalysisState>({});
+
+// The parts of a Worker the store uses, so it can also run in-process
+export interface AnalysisWorker {
+  postMessage: (message: AnalysisWorkerRequest) => void;
+  terminate: () => void;
+  onmessage: ((event: { data: AnalysisWorkerResponse }) => void) | null;
+}
+
+// Runs analyses on the main thread, a step at a time, where workers are unavailable.
+// Terminating it cancels them at their next step.
+const createInlineWorker = (): AnalysisWorker => {
+  const running = new Set<number>();
+  const worker: AnalysisWorker = {
+    onmessage: null,
+    postMessage: (message) => {
+      if (message.type === 'analyze') running.add(message.id);
+      setTimeout(() => void handleMessage(message), 0);
+    },
+    terminate: () => {
+      worker.onmessage = null;
+      running.forEach((id) => void handleMessage({ type: 'cancel', id }));
+    },
+  };
+  const handleMessage = createAnalysisRunner((response) => {
+    if (response.type !== 'progress') running.delete(response.id);
+    worker.onmessage?.({ data: response });
+  });
+  return worker;
+};
+
+const createWorker = (): AnalysisWorker =>
+  typeof Worker === 'undefined'
+    ? createInlineWorker()
+    : (new Worker(new URL("../workers/analysis.worker.ts", import.meta.url), { type: "module" }) as unknown as AnalysisWorker);
+
+let worker: AnalysisWorker | null = null;
+let nextId = 1;
+
+const getWorker = () => {
+  if (!worker) {
+    worker = createWorker();
+    worker.onmessage = (event) => handleResponse(event.data);
+  }
+  return worker;
+};
+
+const findKind = (id: number): AnalysisKind | undefined =>
+  (Object.keys($analysis.get()) as AnalysisKind[]).find((kind) => $analysis.get()[kind]?.id === id);
+
+const updateEntry = (kind: AnalysisKind, changes: Partial<AnalysisEntry>) => {
+  const currentState = $analysis.get();
+  $analysis.set({
+    ...currentState,
+    [kind]: { ...currentState[kind], ...changes },
+  });
+};
+
+function handleResponse(response: AnalysisWorkerResponse) {
+  // Responses for cancelled or replaced analyses are ignored
+  const kind = findKind(response.id);
+  if (!kind || $analysis.get()[kind]?.status !== 'running') return;
+
+  switch (response.type) {
+    case 'progress':
+      updateEntry(kind, { completed: response.completed, total: response.total, partial: response.partial });
+      break;
+    case 'result':
+      updateEntry(kind, { status: 'done', result: response.result, completed: $analysis.get()[kind]!.total });
+      break;
+    case 'cancelled':
+      updateEntry(kind, { status: 'cancelled' });
+      break;
+    case 'error':
+      updateEntry(kind, { status: 'error', error: { name: response.name, message: response.message } });
+      break;
+  }
+}
+
+/**
+ * Analyse the current game state in the worker. Replaces any running analysis of the same kind.
+ * @returns the analysis id
+ */
+export function requestAnalysis(request: AnalysisRequest): number {
+  cancelAnalysis(request.type);
+
+  const id = nextId++;
+  const gameState = $gameState.get();
+  $analysis.set({
+    ...$analysis.get(),
+    [request.type]: {
+      id,
+      request,
+      gameState,
+      status: 'running',
+      completed: 0,
+      total: 0,
+      partial: null,
+      result: null,
+      error: null,
+    },
+  });
+  getWorker().postMessage({ type: 'analyze', id, gameState, request });
+  return id;
+}
+
+// A solver step can take seconds, longer than a cancel message would wait in
+// the worker's queue, so the worker is stopped outright. Analyses that are
+// still wanted start over in a fresh one.
+const restartWorker = () => {
+  worker?.terminate();
+  worker = null;
+  for (const entry of Object.values($analysis.get())) {
+    if (entry?.status === 'running') {
+      getWorker().postMessage({ type: 'analyze', id: entry.id, gameState: entry.gameState, request: entry.request });
+    }
+  }
+};
+
+const cancelKinds = (kinds: AnalysisKind[]) => {
+  const running = kinds.filter((kind) => $analysis.get()[kind]?.status === 'running');
+  if (running.length === 0) return;
+
+  running.forEach((kind) => updateEntry(kind, { status: 'cancelled' }));
+  restartWorker();
+};
+
+// Stop running analyses, of one kind or all of them
+export function cancelAnalysis(kind?: AnalysisKind) {
+  cancelKinds(kind ? [kind] : (Object.keys($analysis.get()) as AnalysisKind[]));
+}
+
+/**
+ * Cancel and forget analyses of earlier positions whenever the game state
+ * changes, so a move, undo or new game never shows stale results
+ * @returns a function that stops listening and shuts the worker down
+ */
+export function initAnalysis(): () => void {
+  const unsubscribe = $gameState.listen((gameState) => {
+    const currentState = $analysis.get();
+    const kinds = (Object.keys(currentState) as AnalysisKind[]).filter(
+      (kind) => currentState[kind]?.gameState !== gameState,
+    );
+    if (kinds.length === 0) return;
+
+    cancelKinds(kinds);
+    const remaining = { ...$analysis.get() };
+    kinds.forEach((kind) => delete remaining[kind]);
+    $analysis.set(remaining);
+  });
+
+  return () => {
+    unsubscribe();
+    cancelAnalysis();
+    worker?.terminate();
+    worker = null;
+  };
+}
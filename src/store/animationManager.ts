@@ -21,17 +21,39 @@ export const $animationQueue = atom<AnimationSequence[]>([]);
 // Animation settings
 export const $animationSettings = atom({
   prefersReducedMotion: false,
-  pauseDuration: 800,
   animationDuration: 400,
   reducedPauseDuration: 100,
   reducedAnimationDuration: 50
 });
 
+// Player's animation preferences from the settings dialog
+export interface AnimationPreferences {
+  motion: 'system' | 'reduced' | 'full';  // 'system' follows prefers-reduced-motion
+  pauseDuration: number;                   // How long the drawn card is shown before it flies
+}
+
+export const $animationPreferences = atom<AnimationPreferences>({
+  motion: 'system',
+  pauseDuration: 800
+});
+
+export function updateAnimationPreferences(preferences: Partial<AnimationPreferences>) {
+  $animationPreferences.set({
+    ...$animationPreferences.get(),
+    ...preferences
+  });
+}
+
 // Computed animation durations based on motion preference
-export const $animationTimings = computed([$animationSettings], (settings) => {
-  const { prefersReducedMotion, pauseDuration, animationDuration, reducedPauseDuration, reducedAnimationDuration } = settings;
+export const $animationTimings = computed([$animationSettings, $animationPreferences], (settings, preferences) => {
+  const { animationDuration, reducedPauseDuration, reducedAnimationDuration } = settings;
+  const { pauseDuration } = preferences;
+  const prefersReducedMotion = preferences.motion === 'system'
+    ? settings.prefersReducedMotion
+    : preferences.motion === 'reduced';
   
   return {
+    prefersReducedMotion,
     pauseDuration: prefersReducedMotion ? reducedPauseDuration : pauseDuration,
     animationDuration: prefersReducedMotion ? reducedAnimationDuration : animationDuration,
     totalDuration: prefersReducedMotion ? 
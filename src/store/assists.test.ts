@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createMemoryStorage } from "../utils/storage";
+import { getHighestProbabilityMove } from "../utils/strategies";
+import { $assists, initAssists } from "./assists";
+import { $gameState, makeMove, setUndoLimit, startNewGame, undo } from "./gameState";
+import { $uiState, toggleCardCounting, toggleEZMode } from "./uiState";
+
+describe("Assists", () => {
+  let storage: Storage;
+  let stop: () => void;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    setUndoLimit(null);
+    if ($uiState.get().ezMode.enabled) toggleEZMode();
+    if ($uiState.get().cardCounting.enabled) toggleCardCounting();
+    startNewGame(1);
+    stop = initAssists(storage);
+  });
+
+  afterEach(() => stop());
+
+  it("should mark a game assisted once EZ Mode or card counting is turned on", () => {
+    expect($assists.get().assisted).toBe(false);
+
+    toggleCardCounting();
+    toggleCardCounting();
+    toggleEZMode();
+
+    expect($assists.get()).toEqual({ assists: ["card-counting", "ez-mode"], assisted: true });
+  });
+
+  it("should mark a game assisted when a move is taken back", () => {
+    makeMove(getHighestProbabilityMove($gameState.get()));
+    undo();
+
+    expect($assists.get()).toEqual({ assists: [], assisted: true });
+  });
+
+  it("should start each new deal unassisted unless assistance is still on", () => {
+    toggleEZMode();
+    toggleEZMode();
+
+    startNewGame(2);
+    expect($assists.get().assisted).toBe(false);
+
+    toggleEZMode();
+    startNewGame(3);
+    expect($assists.get().assisted).toBe(true);
+  });
+
+  it("should remember the assists of the game on the board across reloads", () => {
+    toggleCardCounting();
+    toggleCardCounting();
+    stop();
+    $assists.set({ assists: [], assisted: false });
+
+    stop = initAssists(storage);
+
+    expect($assists.get()).toEqual({ assists: ["card-counting"], assisted: true });
+  });
+});
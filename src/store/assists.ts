@@ -0,0 +1,73 @@
+import { atom } from "nanostores";
+import { getDealKey, type Assist } from "../utils/gameRecord";
+import { getLocalStorage, readJSON, writeJSON } from "../utils/storage";
+import { $gameState } from "./gameState";
+import { $uiState, type UIState } from "./uiState";
+
+export const ASSISTS_STORAGE_KEY = "high-low:assisted";
+
+// How the game on the board was helped along, for the leaderboard, leagues and achievements
+export interface AssistsState {
+  assists: Assist[]; // Help turned on while the game was in play, recorded when it is submitted
+  assisted: boolean; // Assists were used or a move was taken back
+}
+
+export const $assists = atom<AssistsState>({
+  assists: [],
+  assisted: false
+});
+
+// The help turned on right now
+export const getActiveAssists = (uiState: UIState): Assist[] => [
+  ...(uiState.ezMode.enabled ? (["ez-mode"] as const) : []),
+  ...(uiState.ezEzMode.enabled ? (["ez-ez-mode"] as const) : []),
+  ...(uiState.cardCounting.enabled ? (["card-counting"] as const) : [])
+];
+
+const mergeAssists = (assists: Assist[], more: Assist[]) => [...new Set([...assists, ...more])];
+
+/**
+ * Track how the game on the board was assisted: turning on EZ Mode, EZ-EZ
+ * Mode or card counting adds to its assists until another deal replaces it,
+ * and taking a move back marks it assisted too. The assists are saved so a
+ * reload does not clear them. Call after the saved game has been restored.
+ * @returns a function that stops tracking
+ */
+export function initAssists(storage: Storage | undefined = getLocalStorage()): () => void {
+  const saved = readJSON<{ deal: string; assists?: Assist[] }>(ASSISTS_STORAGE_KEY, storage);
+  const state = $gameState.get();
+  let deal = getDealKey(state);
+
+  const setAssists = (assists: Assist[], undosUsed: number) => {
+    $assists.set({ assists, assisted: assists.length > 0 || undosUsed > 0 });
+    writeJSON(ASSISTS_STORAGE_KEY, { deal, assists }, storage);
+  };
+
+  // Looking at the odds after the game is over does not change how it was played
+  const inPlay = !state.won && !state.lost;
+  setAssists(
+    mergeAssists(saved?.deal === deal ? saved.assists ?? [] : [], inPlay ? getActiveAssists($uiState.get()) : []),
+    state.undosUsed
+  );
+
+  const unsubscribers = [
+    $gameState.listen((state) => {
+      const nextDeal = getDealKey(state);
+      if (nextDeal !== deal) {
+        deal = nextDeal;
+        setAssists(getActiveAssists($uiState.get()), state.undosUsed);
+      } else if (state.undosUsed > 0 && !$assists.get().assisted) {
+        setAssists($assists.get().assists, state.undosUsed);
+      }
+    }),
+    $uiState.listen((uiState) => {
+      const state = $gameState.get();
+      const { assists } = $assists.get();
+      const added = getActiveAssists(uiState).filter((assist) => !assists.includes(assist));
+      if (added.length > 0 && !state.won && !state.lost) {
+        setAssists(mergeAssists(assists, added), state.undosUsed);
+      }
+    })
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DailySeedError, getDailySeed } from "../utils/daily";
+import { createMemoryStorage } from "../utils/storage";
+import { getHighestProbabilityMove } from "../utils/strategies";
+import {
+  $daily,
+  DAILY_STORAGE_KEY,
+  getDailyAttempt,
+  initDailyChallenge,
+  startDailyChallenge,
+  startFreePlay,
+} from "./dailyChallenge";
+import { $gameState, makeMove, startNewGame } from "./gameState";
+
+const today = new Date("2026-10-19T15:30:00Z");
+
+const playToEnd = () => {
+  while (!$gameState.get().won && !$gameState.get().lost) {
+    makeMove(getHighestProbabilityMove($gameState.get()));
+  }
+};
+
+describe("Daily Challenge", () => {
+  let storage: Storage;
+  let stop: () => void;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    $daily.set({ mode: "free", date: null, attempts: {} });
+    startNewGame(1);
+    stop = initDailyChallenge(storage);
+  });
+
+  afterEach(() => stop());
+
+  it("should deal the day's seed without undos", () => {
+    startDailyChallenge(today);
+
+    expect($gameState.get().seed).toBe(getDailySeed("2026-10-19"));
+    expect($gameState.get().undoLimit).toBe(0);
+    expect($daily.get()).toMatchObject({ mode: "daily", date: "2026-10-19" });
+    expect(getDailyAttempt("2026-10-19")).toMatchObject({ finished: false, movesPlayed: 0 });
+  });
+
+  it("should record the result and show it again instead of a second attempt", () => {
+    startDailyChallenge(today);
+    playToEnd();
+    const finished = $gameState.get();
+
+    startFreePlay();
+    startDailyChallenge(today);
+
+    expect($gameState.get()).toEqual(finished);
+    expect(getDailyAttempt("2026-10-19")).toMatchObject({
+      finished: true,
+      won: finished.won,
+      movesPlayed: finished.journal.length,
+    });
+  });
+
+  it("should resume an unfinished attempt after free play", () => {
+    startDailyChallenge(today);
+    makeMove(getHighestProbabilityMove($gameState.get()));
+    const inProgress = $gameState.get();
+
+    startFreePlay(42);
+    expect($daily.get().mode).toBe("free");
+    expect($gameState.get().seed).toBe(42);
+
+    startDailyChallenge(today);
+    expect($gameState.get()).toEqual(inProgress);
+  });
+
+  it("should switch to free play when another game replaces the daily one", () => {
+    startDailyChallenge(today);
+    startNewGame(7);
+
+    expect($daily.get()).toMatchObject({ mode: "free", date: null });
+  });
+
+  it("should refuse to deal today's challenge in free play", () => {
+    startDailyChallenge();
+    const daily = $gameState.get();
+
+    expect(() => startFreePlay(daily.seed!)).toThrow(DailySeedError);
+    expect($gameState.get()).toBe(daily);
+    expect($daily.get().mode).toBe("daily");
+  });
+
+  it("should restore attempts and the mode from storage", () => {
+    startDailyChallenge(today);
+    stop();
+    const saved = JSON.parse(storage.getItem(DAILY_STORAGE_KEY)!);
+    $daily.set({ mode: "free", date: null, attempts: {} });
+
+    stop = initDailyChallenge(storage);
+
+    expect($daily.get()).toEqual(saved);
+    expect($daily.get().mode).toBe("daily");
+  });
+});
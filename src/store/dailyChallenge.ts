@@ -0,0 +1,144 @@
+import { atom } from "nanostores";
+import type { GameState } from "../types/GameState";
+import { getDailyChallenge, getDailyDate } from "../utils/daily";
+import { createGame, getPlayedMoves } from "../utils/gameEngine";
+import { DEFAULT_RULES } from "../utils/rules";
+import { getLocalStorage, readJSON, writeJSON } from "../utils/storage";
+import { getDealKey } from "../utils/gameRecord";
+import { $gameState, startNewGame } from "./gameState";
+
+export const DAILY_STORAGE_KEY = "high-low:daily";
+
+export type GameMode = 'free' | 'daily';
+
+export interface DailyAttempt {
+  date: string;
+  seed: number;
+  finished: boolean;
+  won: boolean;
+  movesPlayed: number;
+  cardsLeft: number;
+  state: GameState | null; // The board, kept only for the latest attempt so it can be resumed or shown again
+  gameId?: string;         // The server game, for an attempt played for leagues
+}
+
+export interface DailyState {
+  mode: GameMode;
+  date: string | null; // The challenge on the board in daily mode
+  attempts: Record<string, DailyAttempt>;
+}
+
+export const $daily = atom<DailyState>({
+  mode: 'free',
+  date: null,
+  attempts: {}
+});
+
+const summarizeAttempt = (attempt: DailyAttempt, state: GameState): DailyAttempt => ({
+  ...attempt,
+  finished: state.won || state.lost,
+  won: state.won,
+  movesPlayed: getPlayedMoves(state).length,
+  cardsLeft: state.drawDeck.length,
+  state
+});
+
+export function getDailyAttempt(date: string): DailyAttempt | null {
+  return $daily.get().attempts[date] ?? null;
+}
+
+/**
+ * Put the day's challenge on the board. An attempt that was already started
+ * is resumed, and a finished one is shown as it ended; there is one attempt per day.
+ * @param serverGame the attempt as the server dealt or resumed it, for an attempt played for leagues
+ */
+export function startDailyChallenge(now: Date = new Date(), serverGame?: { id: string; state: GameState }) {
+  const { date, seed } = getDailyChallenge(getDailyDate(now));
+  const currentState = $daily.get();
+  const existing = currentState.attempts[date];
+  // Undos would let the one attempt be retried move by move
+  const state = serverGame?.state ?? existing?.state ?? createGame({ seed, undoLimit: 0 });
+  const gameId = serverGame?.id ?? existing?.gameId;
+
+  // Only the latest attempt keeps its board
+  const attempts: Record<string, DailyAttempt> = Object.fromEntries(
+    Object.entries(currentState.attempts).map(([key, attempt]) => [key, { ...attempt, state: null }])
+  );
+  attempts[date] = existing
+    ? { ...existing, state, ...(gameId ? { gameId } : {}) }
+    : summarizeAttempt(
+        { date, seed, finished: false, won: false, movesPlayed: 0, cardsLeft: 0, state: null, ...(gameId ? { gameId } : {}) },
+        state
+      );
+
+  $gameState.set(state);
+  $daily.set({ mode: 'daily', date, attempts });
+}
+
+/**
+ * Leave the daily challenge for a free game. An unfinished attempt can be resumed later.
+ * @param seed optional seed for the free game
+ * @throws DailySeedError when the seed deals a daily challenge whose day is not over
+ */
+export function startFreePlay(seed?: number) {
+  startNewGame(seed);
+  $daily.set({ ...$daily.get(), mode: 'free', date: null });
+}
+
+// The server hides the seed of an attempt played for leagues until it ends, so in play it is known by its deal
+const isAttemptGame = (attempt: DailyAttempt, state: GameState) =>
+  state.seed === attempt.seed ||
+  (state.seed === null && attempt.gameId !== undefined && attempt.state !== null && getDealKey(state) === getDealKey(attempt.state));
+
+// Track moves in the daily game; any other game on the board means free play
+const recordDailyProgress = (state: GameState) => {
+  const currentState = $daily.get();
+  if (currentState.mode !== 'daily' || !currentState.date) return;
+
+  const attempt = currentState.attempts[currentState.date];
+  if (!attempt || !isAttemptGame(attempt, state)) {
+    $daily.set({ ...currentState, mode: 'free', date: null });
+    return;
+  }
+  // A finished attempt stays as it ended
+  if (attempt.finished) return;
+
+  $daily.set({
+    ...currentState,
+    attempts: { ...currentState.attempts, [attempt.date]: summarizeAttempt(attempt, state) }
+  });
+};
+
+export function loadDaily(storage: Storage | undefined = getLocalStorage()) {
+  const stored = readJSON<Partial<DailyState>>(DAILY_STORAGE_KEY, storage);
+  if (!stored) return;
+
+  // Boards saved before parts of the rule set were added are classic games
+  const attempts = Object.fromEntries(
+    Object.entries(stored.attempts ?? {}).map(([date, attempt]) => [
+      date,
+      attempt.state ? { ...attempt, state: { ...attempt.state, rules: { ...DEFAULT_RULES, ...attempt.state.rules } } } : attempt
+    ])
+  );
+
+  $daily.set({
+    mode: stored.mode === 'daily' && stored.date ? 'daily' : 'free',
+    date: stored.mode === 'daily' ? stored.date ?? null : null,
+    attempts
+  });
+}
+
+/**
+ * Restore daily attempts and the current mode, then keep them saved and
+ * record every move made in the daily game
+ * @returns a function that stops listening
+ */
+export function initDailyChallenge(storage: Storage | undefined = getLocalStorage()): () => void {
+  loadDaily(storage);
+
+  const unsubscribers = [
+    $gameState.listen(recordDailyProgress),
+    $daily.listen((state) => writeJSON(DAILY_STORAGE_KEY, state, storage))
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
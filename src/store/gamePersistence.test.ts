@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_RULES } from "../utils/rules";
+import { createMemoryStorage } from "../utils/storage";
+import { $gameState, makeMove, startNewGame } from "./gameState";
+import {
+  GAME_SCHEMA_VERSION,
+  GAME_STORAGE_KEY,
+  initGamePersistence,
+  loadSavedGame,
+  saveGame,
+} from "./gamePersistence";
+
+describe("Game Persistence", () => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    startNewGame(321);
+  });
+
+  it("should save and load a game with its schema version", () => {
+    saveGame($gameState.get(), storage);
+
+    const stored = JSON.parse(storage.getItem(GAME_STORAGE_KEY)!);
+    expect(stored.version).toBe(GAME_SCHEMA_VERSION);
+    expect(loadSavedGame(storage)).toEqual($gameState.get());
+  });
+
+  it("should save after every move and restore the game", () => {
+    const stop = initGamePersistence({}, storage);
+    const stack = $gameState.get().stacks[0][0];
+    makeMove({
+      stackRow: 1,
+      stackColumn: 1,
+      highLowSame: "high",
+      card: stack.cards[0],
+    });
+    stop();
+    const played = $gameState.get();
+
+    startNewGame(999);
+    initGamePersistence({}, storage)();
+
+    expect($gameState.get()).toEqual(played);
+    expect($gameState.get().cardCounting.seenCards).toHaveLength(10);
+  });
+
+  it("should start a fresh game when forced", () => {
+    saveGame($gameState.get(), storage);
+
+    initGamePersistence({ forceNewGame: true }, storage)();
+
+    expect($gameState.get().seed).not.toBe(321);
+    expect(loadSavedGame(storage)?.seed).toBe($gameState.get().seed);
+  });
+
+  it("should migrate saves from before rule sets to the default rules", () => {
+    const { rules, ...legacy } = $gameState.get();
+    storage.setItem(GAME_STORAGE_KEY, JSON.stringify({ version: 1, state: legacy }));
+
+    expect(loadSavedGame(storage)).toEqual({ ...legacy, rules: DEFAULT_RULES });
+  });
+
+  it("should migrate saves from before rank orders and tie rules to the classic ones", () => {
+    const state = $gameState.get();
+    const { rankOrder, tieRule, ...rules } = DEFAULT_RULES;
+    storage.setItem(GAME_STORAGE_KEY, JSON.stringify({ version: 2, state: { ...state, rules } }));
+
+    expect(loadSavedGame(storage)?.rules).toEqual({ ...rules, rankOrder: "ace-high", tieRule: "fail" });
+  });
+
+  it("should migrate saves with a journal position to an append-only journal", () => {
+    const stack = $gameState.get().stacks[0][0];
+    makeMove({ stackRow: 1, stackColumn: 1, highLowSame: "high", card: stack.cards[0] });
+    const state = $gameState.get();
+    const [played] = state.journal;
+    const legacy = { ...state, journal: [played, played], journalPosition: 1 };
+    storage.setItem(GAME_STORAGE_KEY, JSON.stringify({ version: 4, state: legacy }));
+
+    const migrated = loadSavedGame(storage)!;
+
+    expect(migrated).not.toHaveProperty("journalPosition");
+    expect(migrated.journal).toEqual([played, { ...played, status: "undone" }]);
+  });
+
+  it("should ignore saves from unknown schema versions", () => {
+    storage.setItem(
+      GAME_STORAGE_KEY,
+      JSON.stringify({ version: GAME_SCHEMA_VERSION + 1, state: $gameState.get() }),
+    );
+
+    expect(loadSavedGame(storage)).toBeNull();
+  });
+
+  it("should ignore corrupt saves", () => {
+    storage.setItem(GAME_STORAGE_KEY, "{not json");
+    expect(loadSavedGame(storage)).toBeNull();
+
+    storage.setItem(GAME_STORAGE_KEY, JSON.stringify({ version: 1, state: [] }));
+    expect(loadSavedGame(storage)).toBeNull();
+  });
+});
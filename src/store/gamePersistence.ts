@@ -0,0 +1,108 @@
+import type { GameState } from "../types/GameState";
+import { DEFAULT_RULES } from "../utils/rules";
+import { getLocalStorage, readJSON, removeItem, writeJSON } from "../utils/storage";
+import { $gameState, startNewGame } from "./gameState";
+
+export const GAME_STORAGE_KEY = "high-low:game";
+
+// Bump this whenever GameState changes shape and add a migration below
+export const GAME_SCHEMA_VERSION = 5;
+
+interface StoredGame {
+  version: number;
+  state: unknown;
+}
+
+// A saved state as read back from storage, before it is known to be a GameState
+type StoredState = Record<string, unknown>;
+
+const isStoredState = (value: unknown): value is StoredState =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const storedRules = (state: StoredState): StoredState => (isStoredState(state.rules) ? state.rules : {});
+
+// Migrations from each older schema version to the next one
+const migrations: Record<number, (state: StoredState) => StoredState> = {
+  // Rule sets: every game before them was the classic one
+  1: (state) => ({ ...state, rules: DEFAULT_RULES }),
+  // Rank orders: Aces were always high
+  2: (state) => ({ ...state, rules: { ...storedRules(state), rankOrder: DEFAULT_RULES.rankOrder } }),
+  // Tie rules: ties always failed the stack
+  3: (state) => ({ ...state, rules: { ...storedRules(state), tieRule: DEFAULT_RULES.tieRule } }),
+  // Append-only journal: moves past the journal position were undone, not yet replaced
+  4: ({ journalPosition, ...state }) => {
+    const journal: unknown[] = Array.isArray(state.journal) ? state.journal : [];
+    const position = typeof journalPosition === "number" ? journalPosition : journal.length;
+    return {
+      ...state,
+      journal: journal.map((entry, index) =>
+        index < position || !isStoredState(entry) ? entry : { ...entry, status: "undone" },
+      ),
+    };
+  },
+};
+
+const migrateGameState = (stored: StoredGame): GameState | null => {
+  if (!isStoredState(stored.state)) return null;
+  let { version } = stored;
+  let state = stored.state;
+
+  while (version < GAME_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) return null;
+    state = migrate(state);
+    version++;
+  }
+
+  return version === GAME_SCHEMA_VERSION ? (state as GameState) : null;
+};
+
+const isPlayableState = (state: GameState | null): state is GameState =>
+  !!state &&
+  Array.isArray(state.drawDeck) &&
+  Array.isArray(state.stacks) &&
+  state.stacks.flat().some((stack) => stack.cards.length > 0);
+
+export function saveGame(state: GameState, storage: Storage | undefined = getLocalStorage()) {
+  // Nothing worth saving before the first deal
+  if (!isPlayableState(state)) return;
+
+  const stored: StoredGame = { version: GAME_SCHEMA_VERSION, state };
+  writeJSON(GAME_STORAGE_KEY, stored, storage);
+}
+
+/**
+ * Load the saved game, migrating it from older schema versions.
+ * Returns null when there is no usable saved game.
+ */
+export function loadSavedGame(storage: Storage | undefined = getLocalStorage()): GameState | null {
+  const stored = readJSON<StoredGame>(GAME_STORAGE_KEY, storage);
+  if (!stored || typeof stored.version !== "number") return null;
+
+  const state = migrateGameState(stored);
+  return isPlayableState(state) ? state : null;
+}
+
+export function clearSavedGame(storage: Storage | undefined = getLocalStorage()) {
+  removeItem(GAME_STORAGE_KEY, storage);
+}
+
+/**
+ * Restore the saved game (or start a fresh one when `forceNewGame` is set)
+ * and save the game after every change from then on.
+ * @returns a function that stops saving
+ */
+export function initGamePersistence(
+  { forceNewGame = false }: { forceNewGame?: boolean } = {},
+  storage: Storage | undefined = getLocalStorage(),
+): () => void {
+  const saved = forceNewGame ? null : loadSavedGame(storage);
+  if (saved) {
+    $gameState.set(saved);
+  } else if (forceNewGame) {
+    startNewGame();
+  }
+
+  saveGame($gameState.get(), storage);
+  return $gameState.listen((state) => saveGame(state, storage));
+}
@@ -1,6 +1,7 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { beforeEach, describe, expect, it } from "vitest";
 import type { Card, CardRank, CardSuit } from "../types/CardTypes";
 import type { PlayerMove } from "../types/GameState";
+import { OutOfCardsError } from "../utils/gameEngine";
 import { $gameState, makeMove, startNewGame } from "./gameState";
 
 describe("High-Low Game Logic", () => {
@@ -36,6 +37,36 @@ describe("High-Low Game Logic", () => {
     });
   });
 
+  describe("Seeded Deals", () => {
+    it("should deal the same game for the same seed", () => {
+      startNewGame(12345);
+      const first = $gameState.get();
+
+      startNewGame(12345);
+      const second = $gameState.get();
+
+      expect(second.seed).toBe(12345);
+      expect(second.drawDeck).toEqual(first.drawDeck);
+      expect(second.stacks).toEqual(first.stacks);
+    });
+
+    it("should deal different games for different seeds", () => {
+      startNewGame(1);
+      const first = $gameState.get();
+
+      startNewGame(2);
+      const second = $gameState.get();
+
+      expect(second.drawDeck).not.toEqual(first.drawDeck);
+    });
+
+    it("should store a generated seed when none is given", () => {
+      const state = $gameState.get();
+      expect(Number.isInteger(state.seed)).toBe(true);
+      expect(state.seed).toBeGreaterThanOrEqual(0);
+    });
+  });
+
   describe("Correct Guesses", () => {
     it('should handle correct "higher" guess', () => {
       const state = $gameState.get();
@@ -264,7 +295,7 @@ describe("High-Low Game Logic", () => {
       expect(newState.drawDeck).toHaveLength(0);
     });
 
-    it("should handle out of cards error gracefully", () => {
+    it("should throw OutOfCardsError once the deck is empty", () => {
       const state = $gameState.get();
 
       // Empty the deck
@@ -274,8 +305,6 @@ describe("High-Low Game Logic", () => {
 
       $gameState.set(state);
 
-      const consoleSpy = vi.spyOn(console, "log");
-
       const move: PlayerMove = {
         stackRow: 1,
         stackColumn: 1,
@@ -283,13 +312,8 @@ describe("High-Low Game Logic", () => {
         card: card,
       };
 
-      // Should not throw, but handle gracefully
-      expect(() => makeMove(move)).not.toThrow();
-      expect(consoleSpy).toHaveBeenCalledWith(
-        "You Win! No more cards left in the deck.",
-      );
-
-      consoleSpy.mockRestore();
+      expect(() => makeMove(move)).toThrow(OutOfCardsError);
+      expect($gameState.get()).toBe(state);
     });
   });
 
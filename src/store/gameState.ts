@@ -1,72 +1,26 @@
 // store/users.ts
 import { atom } from "nanostores";
 import type { Card } from "../types/CardTypes";
-import type { GameState, PlayerMove, Stacks, CardCountingData } from "../types/GameState";
-import { getAllVisibleCards, getCardCounts } from "../utils/probabilityCalculations";
-
-class OutOfCardsError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "OutOfCardsError";
-  }
-}
-
-class InvalidMoveError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "InvalidMoveError";
-  }
-}
-
-const shuffleDeck = (deck: Card[]) => {
-  let array = [...deck];
-  // The modern version of the Fisher-Yates shuffle algorithm
-  // https://bost.ocks.org/mike/shuffle/
-  let currentIndex = array.length;
-
-  // While there remain elements to shuffle...
-  while (currentIndex != 0) {
-    // Pick a remaining element...
-    let randomIndex = Math.floor(Math.random() * currentIndex);
-    currentIndex--;
-
-    // And swap it with the current element.
-    [array[currentIndex], array[randomIndex]] = [
-      array[randomIndex],
-      array[currentIndex],
-    ];
-  }
-  return array;
-};
-
-const drawCard = (deck: Card[]) => {
-  if (deck.length === 0) {
-    throw new OutOfCardsError("No more cards in the deck");
-  }
-  return deck.pop() as Card;
-};
-
-const rawDeck: Card[] = (
-  ["Hearts", "Diamonds", "Clubs", "Spades"] as const
-).flatMap((suit) =>
-  (
-    [
-      "Ace",
-      "2",
-      "3",
-      "4",
-      "5",
-      "6",
-      "7",
-      "8",
-      "9",
-      "10",
-      "Jack",
-      "Queen",
-      "King",
-    ] as const
-  ).map((rank) => ({ suit, rank })),
-);
+import type { GameState, PlayerMove, CardCountingData } from "../types/GameState";
+import type { RuleSet } from "../types/RuleSet";
+import { checkFreePlayDeck, checkFreePlaySeed } from "../utils/daily";
+import { getCardCounts } from "../utils/probabilityCalculations";
+import {
+  applyMove,
+  createEmptyStacks,
+  createGame,
+  previewMove,
+  redoMove,
+  undoMove,
+  type MoveOutcome,
+} from "../utils/gameEngine";
+import {
+  createGameRecord,
+  parseGameRecord,
+  replayGameRecord,
+  serializeGameRecord,
+} from "../utils/gameRecord";
+import { DEFAULT_RULES } from "../utils/rules";
 
 const initialCardCountingData: CardCountingData = {
   seenCards: [],
@@ -76,107 +30,41 @@ const initialCardCountingData: CardCountingData = {
 
 export const $gameState = atom<GameState>({
   drawDeck: [], // Start with empty deck to avoid hydration mismatch
-  stacks: [
-    [
-      { cards: [], status: "active" },
-      { cards: [], status: "active" },
-      { cards: [], status: "active" },
-    ],
-    [
-      { cards: [], status: "active" },
-      { cards: [], status: "active" },
-      { cards: [], status: "active" },
-    ],
-    [
-      { cards: [], status: "active" },
-      { cards: [], status: "active" },
-      { cards: [], status: "active" },
-    ],
-  ],
+  stacks: createEmptyStacks(),
   won: false,
   lost: false,
   cardCounting: initialCardCountingData,
+  seed: 0,
+  journal: [],
+  undoLimit: null,
+  undosUsed: 0,
+  rules: DEFAULT_RULES,
 });
 
-/**
- * Compares the ranks of two cards.
- * Returns 1 if card1 is higher, -1 if card2 is higher, and 0 if they are equal.
- * @param card1 the first card to compare
- * @param card2 the second card to compare
- * @returns  number indicating the comparison result
- */
-const compareRanks = (card1: Card, card2: Card): number => {
-  const rankOrder: Record<Card["rank"], number> = {
-    "2": 2,
-    "3": 3,
-    "4": 4,
-    "5": 5,
-    "6": 6,
-    "7": 7,
-    "8": 8,
-    "9": 9,
-    "10": 10,
-    Jack: 11,
-    Queen: 12,
-    King: 13,
-    Ace: 14,
-  };
-  const rank1 = rankOrder[card1.rank];
-  const rank2 = rankOrder[card2.rank];
-  if (rank1 > rank2) {
-    return 1; // card1 is higher
-  }
-  if (rank1 < rank2) {
-    return -1; // card2 is higher
-  }
-  return 0; // cards are equal
-};
+// Undos allowed in each newly dealt game; null means unlimited
+export const $undoLimit = atom<number | null>(null);
 
-const initializeDeckAndStacks: () => {
-  drawDeck: Card[];
-  stacks: Stacks;
-} = () => {
-  const deck = shuffleDeck([...rawDeck]);
-  const stacks: Stacks = [
-    [
-      { cards: [drawCard(deck)], status: "active" },
-      { cards: [drawCard(deck)], status: "active" },
-      { cards: [drawCard(deck)], status: "active" },
-    ],
-    [
-      { cards: [drawCard(deck)], status: "active" },
-      { cards: [drawCard(deck)], status: "active" },
-      { cards: [drawCard(deck)], status: "active" },
-    ],
-    [
-      { cards: [drawCard(deck)], status: "active" },
-      { cards: [drawCard(deck)], status: "active" },
-      { cards: [drawCard(deck)], status: "active" },
-    ],
-  ];
-  return {
-    drawDeck: deck,
-    stacks,
-  };
-};
+export function setUndoLimit(limit: number | null) {
+  $undoLimit.set(limit);
+}
 
-export function startNewGame() {
-  const { drawDeck, stacks } = initializeDeckAndStacks();
-  
-  // Reset card counting data with starting cards
-  const resetCardCountingData: CardCountingData = {
-    seenCards: getAllVisibleCards(stacks), // Initialize with starting cards
-    cardCounts: getCardCounts(getAllVisibleCards(stacks)),
-    probabilities: null
-  };
-  
-  $gameState.set({ 
-    drawDeck,
-    stacks,
-    won: false, 
-    lost: false,
-    cardCounting: resetCardCountingData
-  });
+// Grid size, deck and win condition for newly dealt games
+export const $ruleSet = atom<RuleSet>(DEFAULT_RULES);
+
+export function setRuleSet(rules: RuleSet) {
+  $ruleSet.set(rules);
+}
+
+/**
+ * Deal a new game. The same seed and rules always produce the same deal.
+ * @param seed optional seed for the shuffle; a random one is generated when omitted
+ * @param rules the rule set to play under, the chosen $ruleSet by default
+ * @throws InvalidRulesError when the rule set cannot be played
+ * @throws DailySeedError when the seed deals a daily challenge whose day is not over
+ */
+export function startNewGame(seed?: number, rules: RuleSet = $ruleSet.get()) {
+  checkFreePlaySeed(seed);
+  $gameState.set(createGame({ seed, undoLimit: $undoLimit.get(), rules }));
 }
 
 /**
@@ -184,20 +72,8 @@ export function startNewGame() {
  * @param move The player move to peek at
  * @returns The card that would be drawn and whether the guess would be correct
  */
-export function peekMove(move: PlayerMove): { drawnCard: Card; wouldBeCorrect: boolean } {
-  const currentState = $gameState.get();
-  const { highLowSame, card } = move;
-  
-  if (currentState.drawDeck.length === 0) {
-    throw new OutOfCardsError("No more cards in the deck");
-  }
-  
-  const drawnCard = currentState.drawDeck[currentState.drawDeck.length - 1];
-  const predictedResult = highLowSame === "high" ? 1 : highLowSame === "low" ? -1 : 0;
-  const comparisonResult = compareRanks(drawnCard, card);
-  const wouldBeCorrect = comparisonResult === predictedResult;
-  
-  return { drawnCard, wouldBeCorrect };
+export function peekMove(move: PlayerMove): { drawnCard: Card; wouldBeCorrect: boolean; wouldPass: boolean } {
+  return previewMove($gameState.get(), move);
 }
 
 
@@ -210,102 +86,64 @@ export function makeMoveImmediate(move: PlayerMove) {
 
 
 
-export function makeMove(move: PlayerMove) {
-  const currentState = $gameState.get();
-  const { stackRow, stackColumn, highLowSame, card } = move;
-  const predictedResult =
-    highLowSame === "high" ? 1 : highLowSame === "low" ? -1 : 0;
-
-  // Check if the selected stack is failed
-  const selectedStack = currentState.stacks[stackRow - 1][stackColumn - 1];
-  if (selectedStack.status === "failed") {
-    throw new InvalidMoveError(
-      `Cannot play on failed stack at position [${stackRow},${stackColumn}]`,
-    );
-  }
-
-  try {
-    const drawnCard = drawCard(currentState.drawDeck);
-    const comparisonResult = compareRanks(drawnCard, card);
-
-    // wrong guess - put the card on the stack and mark it as failed
-    if (comparisonResult !== predictedResult) {
-      const updatedStack = {
-        cards: [
-          ...currentState.stacks[stackRow - 1][stackColumn - 1].cards,
-          drawnCard,
-        ] as Card[],
-        status: "failed",
-      } as const;
-
-      const updatedStacks: Stacks = [...currentState.stacks];
-      updatedStacks[stackRow - 1][stackColumn - 1] = updatedStack;
-
-      // Update card tracking
-      const newSeenCards = [...currentState.cardCounting.seenCards, drawnCard];
+/**
+ * Apply a move to the current game through the game engine
+ * @returns the outcome of the move
+ * @throws InvalidMoveError when the move cannot be played
+ * @throws OutOfCardsError when the deck is already empty
+ */
+export function makeMove(move: PlayerMove): MoveOutcome {
+  const { state, outcome } = applyMove($gameState.get(), move);
+  $gameState.set(state);
+  return outcome;
+}
 
-      // Check if the game is lost
-      // If all stacks are failed, the game is lost
-      const stillPlaying = updatedStacks.some((row) =>
-        row.some((stack) => stack.status === "active"),
-      );
-      if (!stillPlaying) {
-        console.log("You lost!");
-      }
+/**
+ * Take back the last move, restoring the deck, stacks and card counting
+ */
+export function undo() {
+  $gameState.set(undoMove($gameState.get()));
+}
 
-      $gameState.set({
-        ...currentState,
-        stacks: updatedStacks,
-        won: currentState.won,
-        lost: !stillPlaying,
-        cardCounting: {
-          seenCards: newSeenCards,
-          cardCounts: getCardCounts(newSeenCards),
-          probabilities: null
-        }
-      });
-    }
-    // correct guess - add the card to the stack and keep it active
-    else {
-      // Add the drawn card to the specified stack
-      const updatedStack = {
-        cards: [
-          ...currentState.stacks[stackRow - 1][stackColumn - 1].cards,
-          drawnCard,
-        ] as Card[],
-        status: currentState.stacks[stackRow - 1][stackColumn - 1].status,
-      } as const;
-      const updatedStacks: Stacks = [...currentState.stacks];
-      updatedStacks[stackRow - 1][stackColumn - 1] = updatedStack;
+/**
+ * Play the last undone move again
+ */
+export function redo() {
+  $gameState.set(redoMove($gameState.get()));
+}
 
-      // Update card tracking
-      const newSeenCards = [...currentState.cardCounting.seenCards, drawnCard];
+/**
+ * Serialize the current game, including its moves, as a text game record
+ */
+export function exportGameRecord(): string {
+  return serializeGameRecord(createGameRecord($gameState.get()));
+}
 
-      // Check if the game is won
-      const won = currentState.drawDeck.length === 0;
-      if (won) {
-        console.log("You Win! All stacks are empty.");
-      }
+/**
+ * Replace the current game with the game described by a text record
+ * @throws GameRecordError when the record is malformed or does not replay
+ * @throws DailySeedError when it deals a daily challenge whose day is not over, from its seed or its deck
+ */
+export function importGameRecord(text: string) {
+  const record = parseGameRecord(text);
+  checkFreePlaySeed(record.seed);
+  checkFreePlayDeck(record.deck);
+  $gameState.set(replayGameRecord(record));
+}
 
-      $gameState.set({
-        ...currentState,
-        drawDeck: currentState.drawDeck,
-        stacks: updatedStacks,
-        won,
-        lost: currentState.lost,
-        cardCounting: {
-          seenCards: newSeenCards,
-          cardCounts: getCardCounts(newSeenCards),
-          probabilities: null
-        }
-      });
-    }
-  } catch (e) {
-    if (e instanceof OutOfCardsError) {
-      console.log("You Win! No more cards left in the deck.");
-      return;
-    }
-    console.error("Error drawing card:", e);
-    return;
-  }
+/**
+ * Call `listener` once for every game that ends from now on. Taking back the
+ * losing move and finishing again does not end a game twice, but a fresh deal
+ * (even of the same seed) is a new game. A game restored already over is skipped.
+ * @returns a function that stops listening
+ */
+export function onGameEnd(listener: (state: GameState) => void): () => void {
+  let ended = $gameState.get().won || $gameState.get().lost;
+  return $gameState.listen((state) => {
+    if (state.journal.length === 0) ended = false;
+    if (ended || (!state.won && !state.lost)) return;
+
+    ended = true;
+    listener(state);
+  });
 }
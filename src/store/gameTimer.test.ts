@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getLegalMoves } from "../utils/gameEngine";
+import { createMemoryStorage } from "../utils/storage";
+import { $gameState, exportGameRecord, importGameRecord, makeMove, startNewGame } from "./gameState";
+import { $gameTimer, getTimeTaken, initGameTimer } from "./gameTimer";
+
+const playOne = () => makeMove(getLegalMoves($gameState.get())[0]);
+const playToEnd = () => {
+  while (!$gameState.get().won && !$gameState.get().lost) playOne();
+};
+
+describe("Game Timer", () => {
+  let storage: Storage;
+  let clock: number;
+  let stop: () => void;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    clock = 1_000;
+    startNewGame(1);
+    stop = initGameTimer(storage, () => clock);
+  });
+
+  afterEach(() => stop());
+
+  it("should time a game from its first move to its end", () => {
+    clock = 5_000;
+    playOne();
+    clock = 65_000;
+    playToEnd();
+
+    expect(getTimeTaken()).toBe(60_000);
+  });
+
+  it("should start over with every new deal", () => {
+    playToEnd();
+    startNewGame(1);
+
+    expect($gameTimer.get()).toMatchObject({ startedAt: null, endedAt: null });
+    expect(getTimeTaken()).toBeNull();
+  });
+
+  it("should keep timing the same game across reloads", () => {
+    playOne();
+    stop();
+    $gameTimer.set({ deal: "", startedAt: null, endedAt: null });
+
+    stop = initGameTimer(storage, () => clock);
+    clock = 31_000;
+    playToEnd();
+    expect(getTimeTaken()).toBe(30_000);
+  });
+
+  it("should not time a game loaded part-way through", () => {
+    startNewGame(2);
+    playOne();
+    const record = exportGameRecord();
+    startNewGame(3);
+
+    importGameRecord(record);
+    playToEnd();
+    expect(getTimeTaken()).toBeNull();
+  });
+});
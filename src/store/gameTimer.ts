@@ -0,0 +1,64 @@
+import { atom } from "nanostores";
+import { getDealKey } from "../utils/gameRecord";
+import { getLocalStorage, readJSON, writeJSON } from "../utils/storage";
+import { $gameState, onGameEnd } from "./gameState";
+
+export const GAME_TIMER_STORAGE_KEY = "high-low:timer";
+
+// When the game on the board was played. The clock starts with the first move,
+// so time spent looking at a fresh deal before playing does not count.
+export interface GameTimerState {
+  deal: string;             // Deal key of the game being timed
+  startedAt: number | null; // Epoch milliseconds
+  endedAt: number | null;   // When the game first ended
+}
+
+export const $gameTimer = atom<GameTimerState>({ deal: "", startedAt: null, endedAt: null });
+
+/**
+ * How long the game took, or null when it has not ended or its start was missed
+ */
+export function getTimeTaken({ startedAt, endedAt }: GameTimerState = $gameTimer.get()): number | null {
+  return startedAt !== null && endedAt !== null ? endedAt - startedAt : null;
+}
+
+/**
+ * Restore the timer of the game on the board and time every game from then on
+ * @param now clock, for tests
+ * @returns a function that stops timing
+ */
+export function initGameTimer(
+  storage: Storage | undefined = getLocalStorage(),
+  now: () => number = Date.now,
+): () => void {
+  const update = (changes: Partial<GameTimerState>) => {
+    $gameTimer.set({ ...$gameTimer.get(), ...changes });
+    writeJSON(GAME_TIMER_STORAGE_KEY, $gameTimer.get(), storage);
+  };
+
+  const state = $gameState.get();
+  const saved = readJSON<GameTimerState>(GAME_TIMER_STORAGE_KEY, storage);
+  $gameTimer.set(
+    saved?.deal === getDealKey(state) ? saved : { deal: getDealKey(state), startedAt: null, endedAt: null }
+  );
+  // Only a game watched from its deal can be timed, not one loaded part-way through
+  let fresh = state.journal.length === 0;
+
+  const unsubscribers = [
+    $gameState.listen((state) => {
+      const deal = getDealKey(state);
+      const timer = $gameTimer.get();
+      if (state.journal.length === 0) {
+        fresh = true;
+        if (timer.deal !== deal || timer.startedAt !== null || timer.endedAt !== null) update({ deal, startedAt: null, endedAt: null });
+      } else if (timer.deal !== deal) {
+        fresh = false;
+        update({ deal, startedAt: null, endedAt: null });
+      } else if (fresh && timer.startedAt === null) {
+        update({ startedAt: now() });
+      }
+    }),
+    onGameEnd(() => update({ endedAt: now() }))
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getDailySeed } from "../utils/daily";
+import { getGameResult } from "../utils/score";
+import { createMemoryStorage } from "../utils/storage";
+import { getHighestProbabilityMove } from "../utils/strategies";
+import { $daily } from "./dailyChallenge";
+import { $gameState, makeMove, startNewGame } from "./gameState";
+import { $leaderboard, getGameBoard, initLeaderboard } from "./leaderboard";
+
+describe("Leaderboard Store", () => {
+  let storage: Storage;
+  let stop: () => void;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    $daily.set({ mode: "free", date: null, attempts: {} });
+    startNewGame(1);
+    stop = initLeaderboard(storage);
+  });
+
+  afterEach(() => stop());
+
+  it("should forget the last submission when another deal replaces the game", () => {
+    const result = getGameResult($gameState.get());
+    const submitted = { board: "seed:1", assisted: false, result, best: result };
+    $leaderboard.set({ ...$leaderboard.get(), submitted });
+
+    makeMove(getHighestProbabilityMove($gameState.get()));
+    expect($leaderboard.get().submitted).toEqual(submitted);
+
+    startNewGame(2);
+    expect($leaderboard.get().submitted).toBeNull();
+  });
+
+  it("should rank the daily challenge on its own board", () => {
+    const seed = getDailySeed("2026-03-01");
+    startNewGame(seed);
+
+    expect(getGameBoard($gameState.get())).toBe(`seed:${seed}`);
+    expect(
+      getGameBoard($gameState.get(), {
+        mode: "daily",
+        date: "2026-03-01",
+        attempts: {
+          "2026-03-01": {
+            date: "2026-03-01",
+            seed,
+            finished: false,
+            won: false,
+            movesPlayed: 0,
+            cardsLeft: 43,
+            state: null,
+          },
+        },
+      }),
+    ).toBe("daily:2026-03-01");
+    expect(getGameBoard({ ...$gameState.get(), seed: null })).toBeNull();
+  });
+});
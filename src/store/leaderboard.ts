@@ -0,0 +1,125 @@
+import { atom } from "nanostores";
+import type { LeaderboardEntry, LeaderboardRanking, LeaderboardResponse, ScoreSubmissionResponse } from "../types/Api";
+import type { GameState } from "../types/GameState";
+import { fetchJSON } from "../utils/apiClient";
+import { createGameRecord, getDealKey, serializeGameRecord } from "../utils/gameRecord";
+import { isDefaultRules } from "../utils/rules";
+import { getGameResult } from "../utils/score";
+import { getLocalStorage, readJSON, writeJSON } from "../utils/storage";
+import { $assists } from "./assists";
+import { $daily, type DailyState } from "./dailyChallenge";
+import { $gameState } from "./gameState";
+
+export const PLAYER_NAME_STORAGE_KEY = "high-low:player";
+
+export interface LeaderboardState {
+  player: string;
+  ranking: LeaderboardRanking;
+  showAssisted: boolean;    // Which of the board's two leaderboards is shown
+  verified: boolean;        // Whether the board shown can be trusted to hold first attempts
+  entries: LeaderboardEntry[];
+  submitted: ScoreSubmissionResponse | null; // The answer to submitting the game on the board
+  pending: boolean;
+  error: string | null;
+}
+
+export const $leaderboard = atom<LeaderboardState>({
+  player: "",
+  ranking: "wins",
+  showAssisted: false,
+  verified: false,
+  entries: [],
+  submitted: null,
+  pending: false,
+  error: null
+});
+
+const updateLeaderboard = (changes: Partial<LeaderboardState>) => {
+  $leaderboard.set({ ...$leaderboard.get(), ...changes });
+};
+
+/**
+ * The leaderboard a game is ranked on: the daily board for the daily
+ * challenge, the seed's board for any other seeded game, and none for a
+ * game dealt from a deck (or a server game whose seed is still hidden) or
+ * played under other rules than the default ones
+ */
+export function getGameBoard(state: GameState, daily: DailyState = $daily.get()): string | null {
+  if (state.seed === null || !isDefaultRules(state.rules)) return null;
+  const attempt = daily.mode === 'daily' && daily.date ? daily.attempts[daily.date] : null;
+  return attempt?.seed === state.seed ? `daily:${attempt.date}` : `seed:${state.seed}`;
+}
+
+export function setPlayerName(player: string, storage: Storage | undefined = getLocalStorage()) {
+  updateLeaderboard({ player });
+  writeJSON(PLAYER_NAME_STORAGE_KEY, player, storage);
+}
+
+export function setLeaderboardView(view: { ranking?: LeaderboardRanking; showAssisted?: boolean }) {
+  updateLeaderboard(view);
+}
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T | null> => {
+  updateLeaderboard({ pending: true, error: null });
+  try {
+    return await fetchJSON<T>(path, init);
+  } catch (error) {
+    updateLeaderboard({ error: error instanceof Error ? error.message : String(error) });
+    return null;
+  } finally {
+    updateLeaderboard({ pending: false });
+  }
+};
+
+/**
+ * Fetch the top of a board in the current view. Errors are kept in $leaderboard.
+ */
+export async function loadLeaderboard(board: string) {
+  const { ranking, showAssisted } = $leaderboard.get();
+  const params = new URLSearchParams({ board, assisted: String(showAssisted), ranking });
+  const response = await request<LeaderboardResponse>(`/api/leaderboard?${params}`);
+  if (response) updateLeaderboard({ entries: response.entries, verified: response.verified });
+}
+
+/**
+ * Submit the finished game on the board, with its full record for the server
+ * to replay. The record lists the assists, which decide the board it goes on.
+ */
+export async function submitScore() {
+  const state = $gameState.get();
+  const board = getGameBoard(state);
+  const { player } = $leaderboard.get();
+  const { assists } = $assists.get();
+  if (!board || !(state.won || state.lost)) return;
+
+  const response = await request<ScoreSubmissionResponse>("/api/leaderboard", {
+    method: "POST",
+    body: JSON.stringify({
+      player,
+      record: serializeGameRecord(createGameRecord(state, assists)),
+      ...(board.startsWith("daily:") ? { daily: board.slice("daily:".length) } : {}),
+      claimed: getGameResult(state)
+    })
+  });
+  if (!response) return;
+
+  updateLeaderboard({ submitted: response, showAssisted: response.assisted });
+  await loadLeaderboard(board);
+}
+
+/**
+ * Restore the player's name, and forget the last submission when another deal
+ * replaces the game on the board
+ * @returns a function that stops listening
+ */
+export function initLeaderboard(storage: Storage | undefined = getLocalStorage()): () => void {
+  updateLeaderboard({ player: readJSON<string>(PLAYER_NAME_STORAGE_KEY, storage) ?? "" });
+
+  let deal = getDealKey($gameState.get());
+  return $gameState.listen((state) => {
+    const nextDeal = getDealKey(state);
+    if (nextDeal === deal) return;
+    deal = nextDeal;
+    updateLeaderboard({ submitted: null, entries: [] });
+  });
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { redactGameState } from "../server/gameStore";
+import type { GameState } from "../types/GameState";
+import { getDailySeed } from "../utils/daily";
+import { applyMove, createGame, getLegalMoves } from "../utils/gameEngine";
+import { createMemoryStorage } from "../utils/storage";
+import { $daily, initDailyChallenge } from "./dailyChallenge";
+import { $gameState } from "./gameState";
+import { $leagues, initLeagues, joinLeague, LEAGUES_STORAGE_KEY, startLeagueDaily } from "./leagues";
+import { $serverGame, applyServerState } from "./serverGame";
+
+const date = "2026-10-21";
+
+const playToEnd = (state: GameState): GameState => {
+  while (!state.won && !state.lost) state = applyMove(state, getLegalMoves(state)[0]).state;
+  return state;
+};
+
+const dealDaily = () => createGame({ seed: getDailySeed(date), undoLimit: 0 });
+
+const respond = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+describe("Leagues Store", () => {
+  let storage: Storage;
+  let stop: () => void;
+  const fetch = vi.fn(async (path: string, _init?: RequestInit) => {
+    if (path.endsWith("/members")) {
+      return respond(201, {
+        league: { code: "ABC234", name: "Office", createdAt: date, members: ["Ann", "Bo"] },
+        membership: { code: "ABC234", player: "Bo", token: "secret" },
+      });
+    }
+    if (path.endsWith("/results")) return respond(201, {});
+    if (path.endsWith("/daily")) {
+      return respond(200, { id: "game-1", state: redactGameState(dealDaily()), commitment: "c" });
+    }
+    return respond(200, { code: "ABC234", name: "Office", period: "week", from: null, to: null, ranking: "score", entries: [] });
+  });
+
+  beforeEach(() => {
+    fetch.mockClear();
+    vi.stubGlobal("fetch", fetch);
+    storage = createMemoryStorage();
+    $daily.set({ mode: "daily", date, attempts: {} });
+    stop = initLeagues(storage);
+  });
+
+  afterEach(() => {
+    stop();
+    vi.unstubAllGlobals();
+  });
+
+  it("should remember a joined league and its member token", async () => {
+    expect(await joinLeague(" abc234 ", "Bo")).toBe(true);
+
+    expect($leagues.get().leagues).toEqual([
+      { code: "ABC234", player: "Bo", token: "secret", name: "Office", submittedDates: [] },
+    ]);
+    expect(JSON.parse(storage.getItem(LEAGUES_STORAGE_KEY)!)).toEqual($leagues.get().leagues);
+    expect(fetch).toHaveBeenCalledWith("/api/leagues/abc234/members", expect.anything());
+  });
+
+  it("should send a finished daily challenge to each league once", async () => {
+    await joinLeague("ABC234", "Bo");
+    const seed = getDailySeed(date);
+    const state = playToEnd(createGame({ seed, undoLimit: 0 }));
+    const attempt = { date, seed, finished: true, won: false, movesPlayed: 0, cardsLeft: 0, state, gameId: "game-1" };
+
+    $daily.set({ ...$daily.get(), attempts: { [date]: attempt } });
+    $daily.set({ ...$daily.get(), attempts: { [date]: { ...attempt } } });
+    await vi.waitFor(() => expect($leagues.get().leagues[0].submittedDates).toEqual([date]));
+    $daily.set({ ...$daily.get() });
+
+    const submissions = fetch.mock.calls.filter(([path]) => path.endsWith("/results"));
+    expect(submissions).toHaveLength(1);
+    expect(JSON.parse(String(submissions[0][1]?.body))).toMatchObject({ token: "secret", daily: date });
+  });
+
+  it("should not send an attempt played in the browser", async () => {
+    await joinLeague("ABC234", "Bo");
+    const seed = getDailySeed(date);
+    const state = playToEnd(createGame({ seed, undoLimit: 0 }));
+
+    const attempt = { date, seed, finished: true, won: false, movesPlayed: 0, cardsLeft: 0, state };
+
+    $daily.set({ ...$daily.get(), attempts: { [date]: attempt } });
+
+    expect(fetch.mock.calls.filter(([path]) => path.endsWith("/results"))).toHaveLength(0);
+  });
+
+  it("should play today's challenge on the server, dealt by the first league and shared with the others", async () => {
+    const saved = [
+      { code: "ABC234", player: "Bo", token: "secret", name: "Office", submittedDates: [] },
+      { code: "XYZ789", player: "Bo", token: "other", name: "Club", submittedDates: [] },
+    ];
+    $leagues.set({ ...$leagues.get(), leagues: saved });
+
+    await startLeagueDaily(new Date(`${date}T12:00:00Z`));
+
+    const starts = fetch.mock.calls.filter(([path]) => path.endsWith("/daily"));
+    expect(starts.map(([path, init]) => [path, JSON.parse(String(init?.body))])).toEqual([
+      ["/api/leagues/ABC234/daily", { token: "secret" }],
+      ["/api/leagues/XYZ789/daily", { token: "other", gameId: "game-1" }],
+    ]);
+    expect($serverGame.get().id).toBe("game-1");
+    expect($gameState.get().seed).toBeNull();
+    expect($daily.get()).toMatchObject({ mode: "daily", date, attempts: { [date]: { gameId: "game-1" } } });
+
+    // The seed stays hidden while the attempt is played, and moves still count for it
+    const stopDaily = initDailyChallenge(storage);
+    const dealt = dealDaily();
+    const { state } = applyMove(dealt, getLegalMoves(dealt)[0]);
+    applyServerState({ id: "game-1", state: redactGameState(state), commitment: "c" });
+    stopDaily();
+
+    expect($daily.get()).toMatchObject({ mode: "daily", attempts: { [date]: { movesPlayed: 1 } } });
+  });
+});
@@ -0,0 +1,204 @@
+import { atom } from "nanostores";
+import type {
+  LeagueDailyRequest,
+  LeagueJoinResponse,
+  LeagueMembership,
+  LeaguePeriod,
+  LeagueResultSubmission,
+  LeagueStandingsResponse,
+  ServerGameResponse
+} from "../types/Api";
+import { ApiRequestError, fetchJSON } from "../utils/apiClient";
+import { getDailyDate } from "../utils/daily";
+import { getPlayedMoves } from "../utils/gameEngine";
+import { getLocalStorage, readJSON, writeJSON } from "../utils/storage";
+import { $assists } from "./assists";
+import { $daily, getDailyAttempt, startDailyChallenge } from "./dailyChallenge";
+import { applyServerState } from "./serverGame";
+
+export const LEAGUES_STORAGE_KEY = "high-low:leagues";
+
+// A league this browser has joined
+export interface SavedLeague extends LeagueMembership {
+  name: string;
+  submittedDates: string[]; // Daily challenges already sent to the league
+}
+
+export interface LeaguesState {
+  leagues: SavedLeague[];
+  period: LeaguePeriod;
+  standings: Record<string, LeagueStandingsResponse>; // By invite code
+  pending: boolean;
+  error: string | null;
+}
+
+export const $leagues = atom<LeaguesState>({
+  leagues: [],
+  period: 'week',
+  standings: {},
+  pending: false,
+  error: null
+});
+
+let leagueStorage: Storage | undefined;
+// League and date pairs being sent, so a result is not sent twice while the first request is out
+const sending = new Set<string>();
+
+const updateLeagues = (changes: Partial<LeaguesState>) => {
+  $leagues.set({ ...$leagues.get(), ...changes });
+};
+
+const saveLeagues = (leagues: SavedLeague[]) => {
+  updateLeagues({ leagues });
+  writeJSON(LEAGUES_STORAGE_KEY, leagues, leagueStorage);
+};
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T | null> => {
+  updateLeagues({ pending: true, error: null });
+  try {
+    return await fetchJSON<T>(path, init);
+  } catch (error) {
+    updateLeagues({ error: error instanceof Error ? error.message : String(error) });
+    return null;
+  } finally {
+    updateLeagues({ pending: false });
+  }
+};
+
+const addLeague = ({ league, membership }: LeagueJoinResponse) => {
+  const others = $leagues.get().leagues.filter((saved) => saved.code !== league.code);
+  saveLeagues([...others, { ...membership, name: league.name, submittedDates: [] }]);
+  return loadLeagueStandings(league.code);
+};
+
+export async function createLeague(name: string, player: string): Promise<boolean> {
+  const response = await request<LeagueJoinResponse>('/api/leagues', {
+    method: 'POST',
+    body: JSON.stringify({ name, player })
+  });
+  if (!response) return false;
+  await addLeague(response);
+  return true;
+}
+
+export async function joinLeague(code: string, player: string): Promise<boolean> {
+  const response = await request<LeagueJoinResponse>(`/api/leagues/${encodeURIComponent(code.trim())}/members`, {
+    method: 'POST',
+    body: JSON.stringify({ player })
+  });
+  if (!response) return false;
+  await addLeague(response);
+  return true;
+}
+
+// Forgets the league in this browser; the member stays in the league's standings
+export function leaveLeague(code: string) {
+  const { standings } = $leagues.get();
+  const { [code]: _left, ...rest } = standings;
+  updateLeagues({ standings: rest });
+  saveLeagues($leagues.get().leagues.filter((league) => league.code !== code));
+}
+
+export async function loadLeagueStandings(code: string) {
+  const params = new URLSearchParams({ period: $leagues.get().period });
+  const response = await request<LeagueStandingsResponse>(`/api/leagues/${code}/standings?${params}`);
+  if (response) {
+    updateLeagues({ standings: { ...$leagues.get().standings, [code]: response } });
+  }
+}
+
+export async function setLeaguePeriod(period: LeaguePeriod) {
+  updateLeagues({ period });
+  await Promise.all($leagues.get().leagues.map((league) => loadLeagueStandings(league.code)));
+}
+
+/**
+ * Put today's challenge on the board. With leagues joined it is played on the
+ * server, which keeps each member to one attempt and reads the result from
+ * it: the first league deals the game and the others share it. An attempt
+ * already started in the browser is resumed there and does not count for leagues.
+ */
+export async function startLeagueDaily(now: Date = new Date()) {
+  const { leagues } = $leagues.get();
+  const existing = getDailyAttempt(getDailyDate(now));
+  if (leagues.length === 0 || existing?.finished || (existing && !existing.gameId)) {
+    startDailyChallenge(now);
+    return;
+  }
+
+  const [first, ...others] = leagues;
+  const post = (league: SavedLeague, gameId?: string) =>
+    request<ServerGameResponse>(`/api/leagues/${league.code}/daily`, {
+      method: 'POST',
+      body: JSON.stringify({ token: league.token, ...(gameId ? { gameId } : {}) } satisfies LeagueDailyRequest)
+    });
+
+  const game = await post(first);
+  if (!game) return;
+  // Only an attempt with no moves played can be shared
+  if (getPlayedMoves(game.state).length === 0) {
+    for (const league of others) await post(league, game.id);
+  }
+  applyServerState(game);
+  startDailyChallenge(now, game);
+}
+
+/**
+ * Ask every joined league that does not have it yet to add the result of a
+ * finished attempt, which each reads from its own record of the attempt
+ */
+export async function submitDailyToLeagues(date: string) {
+  const pending = $leagues
+    .get()
+    .leagues.filter((league) => !league.submittedDates.includes(date) && !sending.has(`${league.code}:${date}`));
+  pending.forEach((league) => sending.add(`${league.code}:${date}`));
+
+  for (const league of pending) {
+    const submission: LeagueResultSubmission = {
+      token: league.token,
+      daily: date,
+      assists: $assists.get().assists
+    };
+    let sent = false;
+    updateLeagues({ pending: true, error: null });
+    try {
+      await fetchJSON(`/api/leagues/${league.code}/results`, { method: 'POST', body: JSON.stringify(submission) });
+      sent = true;
+    } catch (error) {
+      // Sent from another tab or device already
+      sent = error instanceof ApiRequestError && error.code === 'already_submitted';
+      if (!sent) updateLeagues({ error: `${league.name}: ${(error as Error).message}` });
+    } finally {
+      sending.delete(`${league.code}:${date}`);
+      updateLeagues({ pending: false });
+    }
+
+    if (sent) {
+      saveLeagues(
+        $leagues.get().leagues.map((saved) =>
+          saved.code === league.code ? { ...saved, submittedDates: [...saved.submittedDates, date] } : saved
+        )
+      );
+      await loadLeagueStandings(league.code);
+    }
+  }
+}
+
+/**
+ * Restore joined leagues and send each finished daily attempt played for them,
+ * including one that finished while the page was closed
+ * @returns a function that stops listening
+ */
+export function initLeagues(storage: Storage | undefined = getLocalStorage()): () => void {
+  leagueStorage = storage;
+  updateLeagues({ leagues: readJSON<SavedLeague[]>(LEAGUES_STORAGE_KEY, storage) ?? [] });
+
+  const submitFinished = () => {
+    const { attempts } = $daily.get();
+    Object.values(attempts).forEach((attempt) => {
+      if (attempt.finished && attempt.gameId) submitDailyToLeagues(attempt.date);
+    });
+  };
+  submitFinished();
+  return $daily.listen(submitFinished);
+}
@@ -0,0 +1,44 @@
+import { computed } from "nanostores";
+import { suggestMove } from "../utils/moveSuggestions";
+import { $analysis, requestAnalysis } from "./analysis";
+import { $gameState } from "./gameState";
+import { $uiState } from "./uiState";
+
+// Only the EZ-EZ settings, so animations and stack selection don't trigger a new suggestion
+const $ezEzSettings = computed($uiState, (uiState) => uiState.ezEzMode);
+
+// The move EZ-EZ Mode recommends, or null when it is off, the game is over,
+// or the worker is still looking for the move with the best chance to win
+export const $moveSuggestion = computed(
+  [$gameState, $ezEzSettings, $analysis],
+  (gameState, settings, analysis) => {
+    if (!settings.enabled) return null;
+    // Ranking by the next draw is cheap enough for the main thread
+    if (settings.rankBy === 'draw-success') return suggestMove(gameState, 'draw-success');
+
+    const entry = analysis.suggest;
+    return entry?.gameState === gameState && entry.status === 'done' ? entry.result : null;
+  },
+);
+
+/**
+ * Ask the analysis worker for a new suggestion whenever the position changes
+ * while EZ-EZ Mode ranks moves by win probability
+ * @returns a function that stops listening
+ */
+export function initMoveSuggestions(): () => void {
+  const update = () => {
+    const gameState = $gameState.get();
+    const settings = $ezEzSettings.get();
+    const entry = $analysis.get().suggest;
+    if (!settings.enabled || settings.rankBy !== 'win-probability') return;
+    if (gameState.won || gameState.lost) return;
+    if (entry?.gameState === gameState && (entry.status === 'running' || entry.status === 'done')) return;
+
+    requestAnalysis({ type: 'suggest', ranking: 'win-probability' });
+  };
+
+  update();
+  const unsubscribers = [$gameState.listen(update), $ezEzSettings.listen(update)];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServerGame, getServerGame, loadGame, parseMoveRequest, playServerMove, type GameStorage } from "../server/gameStore";
+import { createMemoryStorage } from "../utils/storage";
+import { $gameState, startNewGame } from "./gameState";
+import {
+  $serverGame,
+  applyServerState,
+  initServerGame,
+  SERVER_GAME_STORAGE_KEY,
+  ServerGameError,
+  startServerGame,
+  submitServerMove,
+} from "./serverGame";
+
+// Answer the client's requests with the real server game store
+const createFakeServer = () => {
+  const items = new Map<string, string>();
+  const storage: GameStorage = {
+    get: async (key) => items.get(key) ?? null,
+    put: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+  const respond = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+  const fetch = vi.fn(async (path: string, init?: RequestInit) => {
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+    try {
+      if (path === "/api/games") return respond(201, await createServerGame(storage, body));
+      const moves = path.match(/^\/api\/games\/(.+)\/moves$/);
+      if (moves) return respond(200, await playServerMove(storage, moves[1], parseMoveRequest(body)));
+      return respond(200, await getServerGame(storage, path.split("/").pop()!));
+    } catch (error) {
+      return respond(404, { error: (error as Error).message });
+    }
+  });
+  return { storage, fetch };
+};
+
+describe("Server Game", () => {
+  let server: ReturnType<typeof createFakeServer>;
+  let storage: Storage;
+  let stop: () => void;
+
+  beforeEach(() => {
+    server = createFakeServer();
+    vi.stubGlobal("fetch", server.fetch);
+    storage = createMemoryStorage();
+    $serverGame.set({ id: null, commitment: null, nonce: null, observed: null, pending: false, error: null });
+    startNewGame(1);
+    stop = initServerGame(storage);
+  });
+
+  afterEach(() => {
+    stop();
+    vi.unstubAllGlobals();
+  });
+
+  it("should put the server's redacted game on the board", async () => {
+    await startServerGame(2024);
+
+    const { id } = $serverGame.get();
+    expect(id).not.toBeNull();
+    expect($gameState.get().seed).toBeNull();
+    expect($gameState.get().stacks).toEqual((await loadGame(server.storage, id!)).stacks);
+    expect(JSON.parse(storage.getItem(SERVER_GAME_STORAGE_KEY)!)).toEqual({
+      id,
+      commitment: $serverGame.get().commitment,
+      observed: { dealt: $gameState.get().stacks.flat().map((stack) => stack.cards[0]), draws: [] },
+    });
+  });
+
+  it("should send moves to the server without touching the board", async () => {
+    await startServerGame(2024);
+    const before = $gameState.get();
+
+    const { outcome, state } = await submitServerMove({
+      stackRow: 2,
+      stackColumn: 2,
+      highLowSame: "low",
+      card: before.stacks[1][1].cards[0],
+    });
+
+    expect($gameState.get()).toBe(before);
+    expect(state.stacks[1][1].cards).toEqual([before.stacks[1][1].cards[0], outcome.drawnCard]);
+    expect($serverGame.get().pending).toBe(false);
+  });
+
+  it("should keep every card the server shows and refuse a state that rewrites them", async () => {
+    await startServerGame(2024);
+    const before = $gameState.get();
+    const response = await submitServerMove({
+      stackRow: 2,
+      stackColumn: 2,
+      highLowSame: "low",
+      card: before.stacks[1][1].cards[0],
+    });
+    expect($serverGame.get().observed?.draws).toEqual([response.outcome.drawnCard]);
+
+    const [played] = response.state.journal;
+    const rewritten = { ...response.state, journal: [{ ...played, drawnCard: before.stacks[0][0].cards[0] }] };
+
+    expect(() => applyServerState({ ...response, state: rewritten })).toThrow(ServerGameError);
+    expect($gameState.get()).toBe(before);
+    expect($serverGame.get().error).toMatch(/does not continue/);
+
+    applyServerState(response);
+    expect($gameState.get()).toBe(response.state);
+    expect(JSON.parse(storage.getItem(SERVER_GAME_STORAGE_KEY)!).observed.draws).toEqual([response.outcome.drawnCard]);
+  });
+
+  it("should surface server errors", async () => {
+    await startServerGame(2024);
+    const wrongCard = $gameState.get().stacks[0][1].cards[0];
+
+    await expect(
+      submitServerMove({ stackRow: 1, stackColumn: 1, highLowSame: "low", card: wrongCard }),
+    ).rejects.toThrow(ServerGameError);
+    expect($serverGame.get().error).toMatch(/not on top of the stack/);
+  });
+
+  it("should leave server play when another game replaces it", async () => {
+    await startServerGame(2024);
+
+    startNewGame(3);
+
+    expect($serverGame.get().id).toBeNull();
+    expect(storage.getItem(SERVER_GAME_STORAGE_KEY)).toBeNull();
+  });
+
+  it("should resume the saved server game", async () => {
+    await startServerGame(2024);
+    const { id } = $serverGame.get();
+    stop();
+    $serverGame.set({ id: null, commitment: null, nonce: null, observed: null, pending: false, error: null });
+    startNewGame(3);
+
+    stop = initServerGame(storage);
+    await vi.waitFor(() => expect($serverGame.get().id).toBe(id));
+
+    expect($gameState.get()).toEqual((await getServerGame(server.storage, id!)).state);
+  });
+});
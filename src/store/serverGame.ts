@@ -0,0 +1,208 @@
+import { atom } from "nanostores";
+import type { MoveRequest, MoveResponse, ServerGameResponse } from "../types/Api";
+import type { Card } from "../types/CardTypes";
+import type { GameState, PlayerMove } from "../types/GameState";
+import type { RuleSet } from "../types/RuleSet";
+import { ApiRequestError, fetchJSON } from "../utils/apiClient";
+import { observeDeal, type ObservedDeal } from "../utils/fairness";
+import { getPlayedMoves } from "../utils/gameEngine";
+import { formatCardCode } from "../utils/gameRecord";
+import { formatRuleSet, isDefaultRules } from "../utils/rules";
+import { getLocalStorage, readJSON, removeItem, writeJSON } from "../utils/storage";
+import { $gameState, $ruleSet } from "./gameState";
+
+export const SERVER_GAME_STORAGE_KEY = "high-low:server-game";
+
+export class ServerGameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ServerGameError";
+  }
+}
+
+// Deal new games on the server, so the deck order never reaches the browser
+export const $serverPlay = atom(false);
+
+export function setServerPlay(enabled: boolean) {
+  $serverPlay.set(enabled);
+}
+
+export interface ServerGameState {
+  id: string | null;         // The server game on the board, if any
+  commitment: string | null; // The deal's commitment, as first published
+  nonce: string | null;      // Revealed when the game ends
+  observed: ObservedDeal | null; // The cards shown so far, checked against the deal when it is revealed
+  pending: boolean;          // A request is in flight
+  error: string | null;
+}
+
+export const $serverGame = atom<ServerGameState>({
+  id: null,
+  commitment: null,
+  nonce: null,
+  observed: null,
+  pending: false,
+  error: null
+});
+
+interface SavedServerGame {
+  id: string;
+  commitment: string;
+  observed?: ObservedDeal; // Missing from games saved before draws were kept
+}
+
+// The last state the server sent, to tell when another game replaces it
+let serverState: GameState | null = null;
+
+const updateServerGame = (changes: Partial<ServerGameState>) => {
+  $serverGame.set({ ...$serverGame.get(), ...changes });
+};
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  updateServerGame({ pending: true, error: null });
+  try {
+    return await fetchJSON<T>(path, init);
+  } catch (error) {
+    const message = error instanceof ApiRequestError ? error.message : "Could not reach the game server";
+    updateServerGame({ error: message });
+    throw new ServerGameError(message);
+  } finally {
+    updateServerGame({ pending: false });
+  }
+};
+
+const sameCards = (cards: Card[], others: Card[]) =>
+  cards.length === others.length && cards.every((card, index) => formatCardCode(card) === formatCardCode(others[index]));
+
+// A state continues the game when it keeps the dealt stacks and every card already shown
+const continuesGame = (state: GameState, observed: ObservedDeal) => {
+  const { dealt, draws } = observeDeal(state);
+  return sameCards(dealt, observed.dealt) && sameCards(draws.slice(0, observed.draws.length), observed.draws);
+};
+
+// Put a server state on the board, keeping what is already known about its game
+const acceptServerState = (
+  { id, state, commitment, nonce }: ServerGameResponse,
+  known: { commitment: string; observed?: ObservedDeal | null } | null
+) => {
+  if (known?.observed && !continuesGame(state, known.observed)) {
+    const message = "The server sent a game that does not continue the cards already shown";
+    updateServerGame({ error: message });
+    throw new ServerGameError(message);
+  }
+
+  serverState = state;
+  updateServerGame({
+    id,
+    commitment: known?.commitment ?? commitment,
+    nonce: nonce ?? null,
+    // Draws are kept as they arrive; a game seen for the first time starts from what it shows
+    observed: known?.observed ?? observeDeal(state)
+  });
+  $gameState.set(state);
+};
+
+/**
+ * Put a state from the server on the board. The commitment published when the
+ * game was dealt and the cards shown since are kept, so a server changing the
+ * deal later fails verification.
+ * @throws ServerGameError when the state does not continue the game on the board
+ */
+export function applyServerState(response: ServerGameResponse) {
+  const current = $serverGame.get();
+  const known = current.id === response.id && current.commitment ? { commitment: current.commitment, observed: current.observed } : null;
+  acceptServerState(response, known);
+}
+
+/**
+ * Deal a new game on the server
+ * @param rules the rule set to play under, the chosen $ruleSet by default
+ * @throws ServerGameError when the server cannot be reached or rejects the request
+ */
+export async function startServerGame(seed?: number, rules: RuleSet = $ruleSet.get()) {
+  const response = await request<ServerGameResponse>("/api/games", {
+    method: "POST",
+    body: JSON.stringify({
+      ...(seed === undefined ? {} : { seed }),
+      ...(isDefaultRules(rules) ? {} : { rules: formatRuleSet(rules) })
+    })
+  });
+  applyServerState(response);
+}
+
+/**
+ * Send a move to the server. The board is left alone so the caller can animate
+ * the revealed card first and then apply the returned state. The drawn card is
+ * kept straight away, as the card the player was shown.
+ * @throws ServerGameError when there is no server game or the move fails
+ */
+export async function submitServerMove(move: PlayerMove): Promise<MoveResponse> {
+  const { id } = $serverGame.get();
+  if (!id) throw new ServerGameError("There is no server game to play");
+
+  const response = await request<MoveResponse>(`/api/games/${id}/moves`, {
+    method: "POST",
+    body: JSON.stringify({ ...move, expectedMoves: getPlayedMoves($gameState.get()).length } satisfies MoveRequest)
+  });
+  const { observed } = $serverGame.get();
+  if ($serverGame.get().id === id && observed) {
+    updateServerGame({ observed: { ...observed, draws: [...observed.draws, response.outcome.drawnCard] } });
+  }
+  return response;
+}
+
+/**
+ * Resume the saved server game and remember which game is on the board.
+ * Any other game replacing it (a local deal, an import, the daily challenge)
+ * ends server play for that game.
+ * @returns a function that stops listening
+ */
+export function initServerGame(storage: Storage | undefined = getLocalStorage()): () => void {
+  const saved = readJSON<SavedServerGame>(SERVER_GAME_STORAGE_KEY, storage);
+  let savedId = saved?.id ?? null;
+  let savedObserved = saved?.observed ?? null;
+  if (saved?.id) {
+    const forget = () => {
+      savedId = null;
+      savedObserved = null;
+      removeItem(SERVER_GAME_STORAGE_KEY, storage);
+    };
+    request<ServerGameResponse>(`/api/games/${saved.id}`).then(
+      (response) => {
+        try {
+          // Verify against the commitment saved at the start and the cards already shown, not what the server sends now
+          acceptServerState(response, { commitment: saved.commitment ?? response.commitment, observed: saved.observed });
+        } catch {
+          // The error stays on show and the game is not resumed
+          forget();
+        }
+      },
+      () => {
+        // The game expired or the server is away; play on locally
+        forget();
+        updateServerGame({ error: null });
+      }
+    );
+  }
+
+  const unsubscribers = [
+    $gameState.listen((state) => {
+      if (state !== serverState && $serverGame.get().id) {
+        serverState = null;
+        updateServerGame({ id: null, commitment: null, nonce: null, observed: null, error: null });
+      }
+    }),
+    // Saved when the game changes and with every card shown, not on every request
+    $serverGame.listen(({ id, commitment, observed }) => {
+      if (id === savedId && observed === savedObserved) return;
+      savedId = id;
+      savedObserved = observed;
+      if (id && commitment) {
+        writeJSON(SERVER_GAME_STORAGE_KEY, { id, commitment, ...(observed ? { observed } : {}) } satisfies SavedServerGame, storage);
+      } else {
+        removeItem(SERVER_GAME_STORAGE_KEY, storage);
+      }
+    })
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
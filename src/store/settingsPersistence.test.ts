@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_RULES } from "../utils/rules";
+import { createMemoryStorage } from "../utils/storage";
+import { $animationPreferences, $animationTimings, updateAnimationPreferences } from "./animationManager";
+import { $ruleSet, $undoLimit, setRuleSet, setUndoLimit } from "./gameState";
+import {
+  initSettingsPersistence,
+  SETTINGS_SCHEMA_VERSION,
+  SETTINGS_STORAGE_KEY,
+} from "./settingsPersistence";
+import { $uiState, setSelectedStack, updateCardCountingSettings, updateEZModeSettings } from "./uiState";
+
+describe("Settings Persistence", () => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    updateEZModeSettings({ enabled: false, displayMode: "percentage", colorByConfidence: true });
+    updateCardCountingSettings({ enabled: false, panelOpen: false });
+    updateAnimationPreferences({ motion: "system", pauseDuration: 800 });
+    setUndoLimit(null);
+    setRuleSet(DEFAULT_RULES);
+  });
+
+  it("should save settings when they change", () => {
+    const stop = initSettingsPersistence(storage);
+    updateEZModeSettings({ displayMode: "color-coded" });
+    updateAnimationPreferences({ motion: "reduced" });
+    setUndoLimit(3);
+    setRuleSet({ ...DEFAULT_RULES, rows: 4, columns: 4 });
+    stop();
+
+    const stored = JSON.parse(storage.getItem(SETTINGS_STORAGE_KEY)!);
+    expect(stored.version).toBe(SETTINGS_SCHEMA_VERSION);
+    expect(stored.ezMode.displayMode).toBe("color-coded");
+    expect(stored.animation.motion).toBe("reduced");
+    expect(stored.undoLimit).toBe(3);
+    expect(stored.rules).toMatchObject({ rows: 4, columns: 4 });
+  });
+
+  it("should not save for unrelated UI changes", () => {
+    const stop = initSettingsPersistence(storage);
+    setSelectedStack({ row: 1, column: 2 });
+    stop();
+
+    expect(storage.getItem(SETTINGS_STORAGE_KEY)).toBeNull();
+  });
+
+  it("should restore saved settings on startup", () => {
+    storage.setItem(
+      SETTINGS_STORAGE_KEY,
+      JSON.stringify({
+        version: SETTINGS_SCHEMA_VERSION,
+        ezMode: { enabled: true, displayMode: "detailed", colorByConfidence: false },
+        cardCounting: { enabled: true, panelOpen: true },
+        animation: { motion: "full", pauseDuration: 1500 },
+        undoLimit: 1,
+        rules: { ...DEFAULT_RULES, deck: "short" },
+      }),
+    );
+
+    initSettingsPersistence(storage)();
+
+    expect($uiState.get().ezMode).toEqual({
+      enabled: true,
+      displayMode: "detailed",
+      colorByConfidence: false,
+    });
+    expect($uiState.get().cardCounting).toEqual({ enabled: true, panelOpen: true });
+    expect($animationPreferences.get()).toEqual({ motion: "full", pauseDuration: 1500 });
+    expect($animationTimings.get().pauseDuration).toBe(1500);
+    expect($undoLimit.get()).toBe(1);
+    expect($ruleSet.get().deck).toBe("short");
+  });
+
+  it("should keep the default rules when the saved ones cannot be played", () => {
+    storage.setItem(
+      SETTINGS_STORAGE_KEY,
+      JSON.stringify({ version: SETTINGS_SCHEMA_VERSION, rules: { ...DEFAULT_RULES, rows: 9 } }),
+    );
+
+    initSettingsPersistence(storage)();
+
+    expect($ruleSet.get()).toEqual(DEFAULT_RULES);
+  });
+});
@@ -0,0 +1,97 @@
+import type { RuleSet } from "../types/RuleSet";
+import { DEFAULT_RULES, validateRuleSet } from "../utils/rules";
+import { getLocalStorage, readJSON, writeJSON } from "../utils/storage";
+import { $animationPreferences, type AnimationPreferences } from "./animationManager";
+import { $ruleSet, $undoLimit } from "./gameState";
+import { $serverPlay } from "./serverGame";
+import { $uiState, type CardCountingUIState, type EZEZModeSettings, type EZModeSettings } from "./uiState";
+
+export const SETTINGS_STORAGE_KEY = "high-low:settings";
+
+// Bump this whenever the stored settings change shape
+export const SETTINGS_SCHEMA_VERSION = 1;
+
+export interface StoredSettings {
+  version: number;
+  ezMode: EZModeSettings;
+  ezEzMode: EZEZModeSettings;
+  cardCounting: CardCountingUIState;
+  animation: AnimationPreferences;
+  undoLimit: number | null;
+  serverPlay: boolean;
+  rules: RuleSet;
+}
+
+const collectSettings = (): StoredSettings => ({
+  version: SETTINGS_SCHEMA_VERSION,
+  ezMode: $uiState.get().ezMode,
+  ezEzMode: $uiState.get().ezEzMode,
+  cardCounting: $uiState.get().cardCounting,
+  animation: $animationPreferences.get(),
+  undoLimit: $undoLimit.get(),
+  serverPlay: $serverPlay.get(),
+  rules: $ruleSet.get(),
+});
+
+export function saveSettings(storage: Storage | undefined = getLocalStorage()) {
+  writeJSON(SETTINGS_STORAGE_KEY, collectSettings(), storage);
+}
+
+/**
+ * Apply saved settings to the stores. Missing fields keep their defaults,
+ * so settings saved before a new option was added still load.
+ */
+export function loadSettings(storage: Storage | undefined = getLocalStorage()) {
+  const stored = readJSON<Partial<StoredSettings>>(SETTINGS_STORAGE_KEY, storage);
+  if (!stored || stored.version !== SETTINGS_SCHEMA_VERSION) return;
+
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    ezMode: { ...currentState.ezMode, ...stored.ezMode },
+    ezEzMode: { ...currentState.ezEzMode, ...stored.ezEzMode },
+    cardCounting: { ...currentState.cardCounting, ...stored.cardCounting },
+  });
+  $animationPreferences.set({ ...$animationPreferences.get(), ...stored.animation });
+  if (stored.undoLimit !== undefined) {
+    $undoLimit.set(stored.undoLimit);
+  }
+  if (stored.serverPlay !== undefined) {
+    $serverPlay.set(stored.serverPlay);
+  }
+  if (stored.rules !== undefined) {
+    try {
+      // Rules saved before rank orders or tie rules were added keep the classic ones
+      $ruleSet.set(validateRuleSet({ ...DEFAULT_RULES, ...stored.rules }));
+    } catch {
+      // Rules that can no longer be played fall back to the defaults
+    }
+  }
+}
+
+/**
+ * Restore saved settings and save them whenever one changes
+ * @returns a function that stops saving
+ */
+export function initSettingsPersistence(storage: Storage | undefined = getLocalStorage()): () => void {
+  loadSettings(storage);
+
+  // Only save when a persisted setting changes, not on every animation or selection
+  let lastSaved = JSON.stringify(collectSettings());
+  const save = () => {
+    const next = JSON.stringify(collectSettings());
+    if (next !== lastSaved) {
+      lastSaved = next;
+      saveSettings(storage);
+    }
+  };
+
+  const unsubscribers = [
+    $uiState.listen(save),
+    $animationPreferences.listen(save),
+    $undoLimit.listen(save),
+    $serverPlay.listen(save),
+    $ruleSet.listen(save),
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
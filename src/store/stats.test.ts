@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getLegalMoves } from "../utils/gameEngine";
+import { DEFAULT_RULES } from "../utils/rules";
+import { getRuleSetStats } from "../utils/stats";
+import { createMemoryStorage } from "../utils/storage";
+import { $gameState, makeMove, setUndoLimit, startNewGame, undo } from "./gameState";
+import { $stats, initStats, resetStats, STATS_STORAGE_KEY } from "./stats";
+
+const gamesPlayed = () => getRuleSetStats($stats.get(), DEFAULT_RULES).gamesPlayed;
+
+const playToEnd = () => {
+  while (!$gameState.get().won && !$gameState.get().lost) makeMove(getLegalMoves($gameState.get())[0]);
+};
+
+describe("Stats Store", () => {
+  let storage: Storage;
+  let stop: () => void;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    setUndoLimit(null);
+    startNewGame(1);
+    stop = initStats(storage);
+    resetStats();
+  });
+
+  afterEach(() => stop());
+
+  it("should record a game when it ends and save the totals", () => {
+    playToEnd();
+
+    expect(gamesPlayed()).toBe(1);
+    expect(JSON.parse(storage.getItem(STATS_STORAGE_KEY)!)).toEqual($stats.get());
+  });
+
+  it("should count a game once when its losing move is taken back and played again", () => {
+    playToEnd();
+    undo();
+    playToEnd();
+
+    expect(gamesPlayed()).toBe(1);
+  });
+
+  it("should count a replay of the same deal as a new game", () => {
+    playToEnd();
+    startNewGame(1);
+    playToEnd();
+
+    expect(gamesPlayed()).toBe(2);
+  });
+
+  it("should record games under other rules in their own totals", () => {
+    const rules = { ...DEFAULT_RULES, rows: 2 };
+    startNewGame(1, rules);
+    playToEnd();
+
+    expect(gamesPlayed()).toBe(0);
+    expect(getRuleSetStats($stats.get(), rules).gamesPlayed).toBe(1);
+  });
+
+  it("should restore saved stats without counting a finished game again", () => {
+    playToEnd();
+    stop();
+    $stats.set({});
+
+    stop = initStats(storage);
+    expect(gamesPlayed()).toBe(1);
+    $gameState.set({ ...$gameState.get() });
+    expect(gamesPlayed()).toBe(1);
+  });
+});
@@ -0,0 +1,31 @@
+import { atom } from "nanostores";
+import { parseRuleSetStats, recordRuleSetGame, type RuleSetStats } from "../utils/stats";
+import { getLocalStorage, readJSON, removeItem, writeJSON } from "../utils/storage";
+import { onGameEnd } from "./gameState";
+
+export const STATS_STORAGE_KEY = "high-low:stats";
+
+// Totals for each rule set played, see getRuleSetStats
+export const $stats = atom<RuleSetStats>({});
+
+let statsStorage: Storage | undefined;
+
+export function resetStats() {
+  $stats.set({});
+  removeItem(STATS_STORAGE_KEY, statsStorage);
+}
+
+/**
+ * Restore the saved stats and add every game that ends from then on, to the
+ * totals of the rule set it was played under
+ * @returns a function that stops recording
+ */
+export function initStats(storage: Storage | undefined = getLocalStorage()): () => void {
+  statsStorage = storage;
+  $stats.set(parseRuleSetStats(readJSON<unknown>(STATS_STORAGE_KEY, storage)));
+
+  return onGameEnd((state) => {
+    $stats.set(recordRuleSetGame($stats.get(), state));
+    writeJSON(STATS_STORAGE_KEY, $stats.get(), storage);
+  });
+}
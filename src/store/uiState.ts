@@ -1,5 +1,6 @@
 import { atom } from "nanostores";
 import type { Card } from "../types/CardTypes";
+import type { SuggestionRanking } from "../utils/moveSuggestions";
 
 // UI-specific interfaces
 export interface AnimationState {
@@ -15,21 +16,34 @@ export interface EZModeSettings {
   colorByConfidence: boolean;
 }
 
+// EZ-EZ Mode: highlight the single best move on the board
+export interface EZEZModeSettings {
+  enabled: boolean;
+  rankBy: SuggestionRanking;
+}
+
 export interface CardCountingUIState {
   enabled: boolean;
   panelOpen: boolean;
 }
 
 export interface StackPosition {
-  row: 1 | 2 | 3;
-  column: 1 | 2 | 3;
+  row: number;
+  column: number;
 }
 
 export interface UIState {
   animation: AnimationState;
   ezMode: EZModeSettings;
+  ezEzMode: EZEZModeSettings;
   cardCounting: CardCountingUIState;
   selectedStack: StackPosition | null;
+  settingsOpen: boolean;
+  reviewOpen: boolean;
+  leaguesOpen: boolean;
+  statsOpen: boolean;
+  achievementsOpen: boolean;
+  gameOverOpen: boolean;
 }
 
 // Initial state
@@ -46,6 +60,11 @@ const initialEZModeSettings: EZModeSettings = {
   colorByConfidence: true
 };
 
+const initialEZEZModeSettings: EZEZModeSettings = {
+  enabled: false,
+  rankBy: 'draw-success'
+};
+
 const initialCardCountingUIState: CardCountingUIState = {
   enabled: false,
   panelOpen: false
@@ -54,8 +73,15 @@ const initialCardCountingUIState: CardCountingUIState = {
 export const $uiState = atom<UIState>({
   animation: initialAnimationState,
   ezMode: initialEZModeSettings,
+  ezEzMode: initialEZEZModeSettings,
   cardCounting: initialCardCountingUIState,
-  selectedStack: null
+  selectedStack: null,
+  settingsOpen: false,
+  reviewOpen: false,
+  leaguesOpen: false,
+  statsOpen: false,
+  achievementsOpen: false,
+  gameOverOpen: false
 });
 
 // Animation actions
@@ -108,6 +134,29 @@ export function updateEZModeSettings(settings: Partial<EZModeSettings>) {
   });
 }
 
+// EZ-EZ Mode actions
+export function toggleEZEZMode() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    ezEzMode: {
+      ...currentState.ezEzMode,
+      enabled: !currentState.ezEzMode.enabled
+    }
+  });
+}
+
+export function updateEZEZModeSettings(settings: Partial<EZEZModeSettings>) {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    ezEzMode: {
+      ...currentState.ezEzMode,
+      ...settings
+    }
+  });
+}
+
 // Card counting UI actions
 export function toggleCardCounting() {
   const currentState = $uiState.get();
@@ -131,6 +180,119 @@ export function toggleCardCountingPanel() {
   });
 }
 
+export function updateCardCountingSettings(settings: Partial<CardCountingUIState>) {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    cardCounting: {
+      ...currentState.cardCounting,
+      ...settings
+    }
+  });
+}
+
+// Settings dialog actions
+export function openSettings() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    settingsOpen: true
+  });
+}
+
+export function closeSettings() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    settingsOpen: false
+  });
+}
+
+// Game review dialog actions
+export function openGameReview() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    reviewOpen: true
+  });
+}
+
+export function closeGameReview() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    reviewOpen: false
+  });
+}
+
+// Leagues dialog actions
+export function openLeagues() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    leaguesOpen: true
+  });
+}
+
+export function closeLeagues() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    leaguesOpen: false
+  });
+}
+
+// Player stats dialog actions
+export function openStats() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    statsOpen: true
+  });
+}
+
+export function closeStats() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    statsOpen: false
+  });
+}
+
+// Achievements gallery actions
+export function openAchievements() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    achievementsOpen: true
+  });
+}
+
+export function closeAchievements() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    achievementsOpen: false
+  });
+}
+
+// Game-over summary actions
+export function openGameOver() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    gameOverOpen: true
+  });
+}
+
+export function closeGameOver() {
+  const currentState = $uiState.get();
+  $uiState.set({
+    ...currentState,
+    gameOverOpen: false
+  });
+}
+
 // Stack selection actions
 export function setSelectedStack(stack: StackPosition | null) {
   const currentState = $uiState.get();
@@ -0,0 +1,157 @@
+import type { GameState, PlayerMove } from "./GameState";
+import type { MoveOutcome } from "../utils/gameEngine";
+import type { Assist, GameRecord } from "../utils/gameRecord";
+import type { GameResult } from "../utils/score";
+
+// Request and response bodies of the /api/games routes
+
+// Every field is optional; an empty body deals a random game
+export interface CreateGameRequest {
+  seed?: number;          // Deal a specific game
+  daily?: string;         // Deal the daily challenge of a YYYY-MM-DD date instead
+  rules?: string;         // Rule set in its text form (see formatRuleSet), the default rules when omitted
+}
+
+// While a game is in play its seed is hidden (unless it is a daily challenge,
+// whose date gives the seed away anyway) and drawDeck lists the unseen
+// cards in a fixed order rather than the order they will be drawn in.
+// Once the game is over the full state is returned, along with the nonce
+// that proves the deal matches the commitment (see utils/fairness.ts).
+export interface ServerGameResponse {
+  id: string;
+  state: GameState;
+  commitment: string; // SHA-256 of the seed, nonce and deal order, fixed when the game is dealt
+  nonce?: string;     // Only once the game is over
+}
+
+// The move count makes a retried or duplicated request fail instead of playing twice
+export interface MoveRequest extends PlayerMove {
+  expectedMoves: number; // Moves played in the state the move was chosen from
+}
+
+export interface MoveResponse extends ServerGameResponse {
+  outcome: MoveOutcome;
+}
+
+// The full record, seed included, so it is only available once the game is over
+export interface GameRecordResponse {
+  id: string;
+  record: GameRecord;
+  text: string; // The record in the text format that Import game and the CLI read
+}
+
+// A leaderboard is one deal ("daily:YYYY-MM-DD" or "seed:<seed>"), or "all" for totals over every deal
+export type LeaderboardRanking = "wins" | "cards" | "score";
+
+// Whether a game was assisted is read from its record: any assists or undos it lists
+export interface ScoreSubmission {
+  player: string;    // Nickname, 1 to 24 characters
+  record: string;    // The full game record in the text format
+  daily?: string;    // The daily challenge date, to rank on the daily board instead of the seed's
+  claimed: GameResult;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  player: string;
+  games: number;
+  wins: number;
+  cardsCleared: number;
+  score: number;
+}
+
+export interface LeaderboardResponse {
+  board: string;
+  assisted: boolean;
+  verified: boolean; // False for boards whose deals could be rehearsed before they were submitted
+  ranking: LeaderboardRanking;
+  entries: LeaderboardEntry[];
+}
+
+export interface ScoreSubmissionResponse {
+  board: string;
+  assisted: boolean;  // Which of the board's two leaderboards the game is ranked on
+  result: GameResult; // As the server replayed it
+  best: GameResult;   // The player's best on this board, which is what is ranked
+}
+
+// Private leagues rank their members' daily challenge results
+export interface CreateLeagueRequest {
+  name: string;   // 1 to 40 characters
+  player: string; // The creator's nickname; the creator joins the league
+}
+
+export interface JoinLeagueRequest {
+  player: string; // Unique within the league
+}
+
+export interface LeagueSummary {
+  code: string; // Six-character invite code
+  name: string;
+  createdAt: string;
+  members: string[];
+}
+
+// The token proves membership when submitting results, so only its holder should see it
+export interface LeagueMembership {
+  code: string;
+  player: string;
+  token: string;
+}
+
+export interface LeagueJoinResponse {
+  league: LeagueSummary;
+  membership: LeagueMembership;
+}
+
+// A member plays each day's challenge once, as a server game tied to their token
+export interface LeagueDailyRequest {
+  token: string;
+  gameId?: string; // Another league's attempt, not yet played, to count for this league too
+}
+
+// The result is read from the member's attempt at the challenge once it is over
+export interface LeagueResultSubmission {
+  token: string;
+  daily: string;      // The YYYY-MM-DD date of the challenge
+  assists?: Assist[]; // Help used during the game, which the server cannot see
+}
+
+export interface LeagueResultResponse {
+  code: string;
+  player: string;
+  date: string;
+  result: GameResult;
+}
+
+export type LeaguePeriod = "day" | "week" | "all";
+
+export interface LeagueStandingEntry extends LeaderboardEntry {
+  assistedGames: number; // How many of the member's games were assisted
+}
+
+export interface LeagueStandingsResponse {
+  code: string;
+  name: string;
+  period: LeaguePeriod;
+  from: string | null; // First and last dates counted, null for all time
+  to: string | null;
+  ranking: LeaderboardRanking;
+  entries: LeagueStandingEntry[];
+}
+
+export type ApiErrorCode =
+  | "invalid_request"   // 400: malformed JSON, or a body that does not match the schema
+  | "not_found"         // 404: no such game (or it expired), league or league attempt, or a daily challenge not out yet
+  | "invalid_move"      // 409: the game does not allow the move, e.g. on a failed stack
+  | "stale_state"       // 409: the game has moved on since the state the move was chosen from
+  | "game_in_progress"  // 409: the game must be over first
+  | "replay_mismatch"   // 422: a submitted record does not reproduce its claimed result
+  | "forbidden"         // 403: a league token that does not belong to the league
+  | "nickname_taken"    // 409: another league member already has the nickname
+  | "already_submitted"; // 409: a member's result for that day is already in
+
+export interface ApiErrorResponse {
+  error: string;
+  code: ApiErrorCode;
+}
@@ -1,12 +1,10 @@
 import type { Card, CardRank } from "./CardTypes";
+import type { RuleSet } from "./RuleSet";
 
 export type Stack = { cards: Card[]; status: "active" | "failed" };
 
-export type Stacks = [
-  [Stack, Stack, Stack],
-  [Stack, Stack, Stack],
-  [Stack, Stack, Stack],
-];
+// Rows of stacks, sized by the game's rule set
+export type Stacks = Stack[][];
 
 export interface CardCount {
   rank: CardRank;
@@ -28,17 +26,30 @@ export interface CardCountingData {
   probabilities: ProbabilityCalculation | null;
 }
 
+export interface JournalEntry {
+  move: PlayerMove;
+  drawnCard: Card;
+  correct: boolean;
+  passed?: boolean; // A tie that kept the stack alive under the free-pass tie rule
+  status?: "undone" | "replaced"; // Missing while the move is in play; "undone" can still be redone, "replaced" no longer can
+}
+
 export type GameState = {
   drawDeck: Card[];
   stacks: Stacks;
   won: boolean;
   lost: boolean;
   cardCounting: CardCountingData;
+  seed: number | null;      // Seed used to shuffle the deck, so the deal can be recreated; null for a dealt deck order
+  journal: JournalEntry[];  // Every move played and the card it drew, in order, including the undone ones
+  undoLimit: number | null; // Undos allowed this game, null for unlimited
+  undosUsed: number;
+  rules: RuleSet;           // Grid size, deck and win condition the game is played under
 };
 
 export type PlayerMove = {
-  stackRow: 1 | 2 | 3;
-  stackColumn: 1 | 2 | 3;
+  stackRow: number;    // 1-based, up to the rule set's rows
+  stackColumn: number; // 1-based, up to the rule set's columns
   highLowSame: "high" | "low" | "same";
   card: Card;
 };
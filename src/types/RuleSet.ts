@@ -0,0 +1,34 @@
+// The rules a game is played under. Stored with every game, so a saved game,
+// a game record or a server game always replays under the rules it started with.
+
+// Which cards make up the deck. Every deck has all four suits of its ranks.
+export type DeckType =
+  | "standard" // All 52 cards
+  | "short"    // 36 cards, 6 to Ace
+  | "piquet";  // 32 cards, 7 to Ace
+
+// How ranks compare
+export type RankOrder =
+  | "ace-high"    // 2 lowest, Ace highest
+  | "ace-low"     // Ace lowest, King highest
+  | "ace-both"    // Ace high, but also low: higher or lower against an Ace always wins
+  | "face-equal"; // Ace high, Jack, Queen and King all the same rank
+
+// What a tie, a drawn card that ranks the same as the stack card, does to a higher or lower guess
+export type TieRule =
+  | "fail"         // The guess is wrong and the stack fails
+  | "free-pass"    // The stack stays alive, but the guess does not count as correct
+  | "counts-both"; // The guess is correct, whether it was higher or lower
+
+export type WinCondition =
+  | { type: "clear-deck"; minStacks: number } // Empty the deck; the game is lost once fewer than minStacks stacks stand
+  | { type: "draw-target"; cards: number };   // Survive this many draws with at least one stack standing
+
+export interface RuleSet {
+  rows: number;    // Grid of stacks, rows x columns, each 1 to 5
+  columns: number;
+  deck: DeckType;
+  rankOrder: RankOrder;
+  tieRule: TieRule;
+  winCondition: WinCondition;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { Card } from "../types/CardTypes";
+import type { GameState, JournalEntry } from "../types/GameState";
+import { achievements, applyAchievementEvent, getAchievement } from "./achievements";
+import { applyMove, createGame, getLegalMoves } from "./gameEngine";
+
+const now = new Date("2026-10-19T12:00:00Z");
+const card = (rank: Card["rank"]): Card => ({ rank, suit: "Hearts" });
+
+const playToEnd = (seed: number): GameState => {
+  let state = createGame({ seed });
+  while (!state.won && !state.lost) state = applyMove(state, getLegalMoves(state)[0]).state;
+  return state;
+};
+
+// A winning position with the deck played out and only the first stack left standing
+const winWithOneStack = (): GameState => {
+  const state = playToEnd(1);
+  return {
+    ...state,
+    won: true,
+    lost: false,
+    drawDeck: [],
+    stacks: state.stacks.map((row, r) =>
+      row.map((stack, c) => ({ ...stack, status: r === 0 && c === 0 ? "active" : "failed" })),
+    ) as GameState["stacks"],
+  };
+};
+
+const sameGuess = (correct: boolean): JournalEntry => ({
+  move: { stackRow: 1, stackColumn: 1, highLowSame: "same", card: card("7") },
+  drawnCard: card(correct ? "7" : "8"),
+  correct,
+});
+
+describe("Achievements", () => {
+  it("should give every achievement a unique id and a goal", () => {
+    expect(new Set(achievements.map((achievement) => achievement.id)).size).toBe(achievements.length);
+    achievements.forEach((achievement) => expect(achievement.goal).toBeGreaterThan(0));
+  });
+
+  it("should unlock on the event the achievement reacts to", () => {
+    const state = createGame({ seed: 1 });
+    const missed = applyAchievementEvent({}, { type: "move", entry: sameGuess(false), state }, now);
+    expect(missed.unlocked.map((a) => a.id)).not.toContain("seeing-double");
+
+    const { progress, unlocked } = applyAchievementEvent(missed.progress, { type: "move", entry: sameGuess(true), state }, now);
+    expect(unlocked.map((a) => a.id)).toEqual(["seeing-double"]);
+    expect(progress["seeing-double"]).toEqual({ progress: 1, unlockedAt: now.toISOString() });
+  });
+
+  it("should tell a clean win from an assisted one", () => {
+    const win = winWithOneStack();
+
+    const assisted = applyAchievementEvent({}, { type: "gameOver", state: win, assisted: true }, now);
+    expect(assisted.unlocked.map((a) => a.id)).toEqual(["deck-cleared", "last-stack-standing"]);
+
+    const clean = applyAchievementEvent(assisted.progress, { type: "gameOver", state: win, assisted: false }, now);
+    expect(clean.unlocked.map((a) => a.id)).toEqual(["no-training-wheels"]);
+  });
+
+  it("should only count a win as clearing the deck when no cards are left", () => {
+    const win = { ...winWithOneStack(), drawDeck: [card("2")] };
+
+    const { unlocked } = applyAchievementEvent({}, { type: "gameOver", state: win, assisted: true }, now);
+    expect(unlocked.map((a) => a.id)).not.toContain("deck-cleared");
+  });
+
+  it("should build progress towards a goal and keep it once unlocked", () => {
+    const win = winWithOneStack();
+    const loss = playToEnd(2);
+    let progress = {};
+    for (const state of [win, win, loss, win, win]) {
+      progress = applyAchievementEvent(progress, { type: "gameOver", state, assisted: true }, now).progress;
+    }
+    expect(progress).toMatchObject({ "hat-trick": { progress: 2, unlockedAt: null }, regular: { progress: 5 } });
+
+    const third = applyAchievementEvent(progress, { type: "gameOver", state: win, assisted: true }, now);
+    expect(third.unlocked.map((a) => a.id)).toEqual(["hat-trick"]);
+
+    const after = applyAchievementEvent(third.progress, { type: "gameOver", state: loss, assisted: true }, now);
+    expect(after.progress["hat-trick"]).toEqual(third.progress["hat-trick"]);
+  });
+
+  it("should return the same progress when nothing moved", () => {
+    const state = createGame({ seed: 1 });
+    const { progress } = applyAchievementEvent({}, { type: "move", entry: sameGuess(false), state }, now);
+
+    expect(applyAchievementEvent(progress, { type: "move", entry: sameGuess(false), state }, now).progress).toBe(progress);
+    expect(getAchievement("skyscraper")?.goal).toBe(8);
+  });
+});
@@ -0,0 +1,159 @@
+// Achievement definitions. Each one names the game event it reacts to and how
+// that event moves its progress towards a goal; unlocking happens at the goal.
+import type { GameState, JournalEntry } from "../types/GameState";
+import { getPlayedMoves } from "./gameEngine";
+
+export type AchievementEvent =
+  | { type: "move"; entry: JournalEntry; state: GameState } // A guess was just played
+  | { type: "gameOver"; state: GameState; assisted: boolean }; // A game ended, see onGameEnd
+
+type EventOfType<T extends AchievementEvent["type"]> = Extract<AchievementEvent, { type: T }>;
+
+interface AchievementInfo {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  goal: number; // Progress needed to unlock
+}
+
+export type AchievementDefinition = {
+  [T in AchievementEvent["type"]]: AchievementInfo & {
+    on: T;
+    // The new progress after the event. Move events can repeat after a redo, so
+    // progress from them should not grow when the same move is seen twice.
+    progress: (event: EventOfType<T>, previous: number) => number;
+  };
+}[AchievementEvent["type"]];
+
+export interface AchievementProgress {
+  progress: number;
+  unlockedAt: string | null; // ISO timestamp
+}
+
+export type AchievementProgressMap = Record<string, AchievementProgress>;
+
+const countActiveStacks = (state: GameState) => state.stacks.flat().filter((stack) => stack.status === "active").length;
+
+// Correct guesses in a row at the end of the game so far
+const getCorrectRun = (state: GameState) => {
+  const moves = getPlayedMoves(state);
+  const lastWrong = moves.map((entry) => entry.correct).lastIndexOf(false);
+  return moves.length - lastWrong - 1;
+};
+
+export const achievements: AchievementDefinition[] = [
+  {
+    id: "deck-cleared",
+    title: "Deck Cleared",
+    description: "Win a game by playing out the whole deck",
+    icon: "🏆",
+    goal: 1,
+    on: "gameOver",
+    progress: ({ state }, previous) => previous + (state.won && state.drawDeck.length === 0 ? 1 : 0),
+  },
+  {
+    id: "last-stack-standing",
+    title: "Last Stack Standing",
+    description: "Win with only one stack still alive",
+    icon: "🪵",
+    goal: 1,
+    on: "gameOver",
+    progress: ({ state }, previous) => previous + (state.won && countActiveStacks(state) === 1 ? 1 : 0),
+  },
+  {
+    id: "seeing-double",
+    title: "Seeing Double",
+    description: "Guess \"same\" and get it right",
+    icon: "👯",
+    goal: 1,
+    on: "move",
+    progress: ({ entry }, previous) => (entry.move.highLowSame === "same" && entry.correct ? 1 : previous),
+  },
+  {
+    id: "no-training-wheels",
+    title: "No Training Wheels",
+    description: "Win without EZ Mode, card counting or undos",
+    icon: "🚲",
+    goal: 1,
+    on: "gameOver",
+    progress: ({ state, assisted }, previous) => previous + (state.won && !assisted ? 1 : 0),
+  },
+  {
+    id: "on-a-roll",
+    title: "On a Roll",
+    description: "Make 10 correct guesses in a row in one game",
+    icon: "🔥",
+    goal: 10,
+    on: "move",
+    progress: ({ state }, previous) => Math.max(previous, getCorrectRun(state)),
+  },
+  {
+    id: "skyscraper",
+    title: "Skyscraper",
+    description: "Pile 8 cards on a single stack",
+    icon: "🏙️",
+    goal: 8,
+    on: "move",
+    progress: ({ state }, previous) => Math.max(previous, ...state.stacks.flat().map((stack) => stack.cards.length)),
+  },
+  {
+    id: "hat-trick",
+    title: "Hat Trick",
+    description: "Win three games in a row",
+    icon: "🎩",
+    goal: 3,
+    on: "gameOver",
+    progress: ({ state }, previous) => (state.won ? previous + 1 : 0),
+  },
+  {
+    id: "regular",
+    title: "Regular",
+    description: "Finish 25 games",
+    icon: "🃏",
+    goal: 25,
+    on: "gameOver",
+    progress: (_event, previous) => previous + 1,
+  },
+];
+
+export function getAchievement(id: string): AchievementDefinition | undefined {
+  return achievements.find((achievement) => achievement.id === id);
+}
+
+export const isUnlocked = (progress: AchievementProgressMap, id: string) => !!progress[id]?.unlockedAt;
+
+/**
+ * Move every achievement that reacts to the event forward. Unlocked
+ * achievements keep their progress.
+ * @returns the new progress (the same object when nothing moved) and the
+ * achievements the event unlocked
+ */
+export function applyAchievementEvent(
+  progress: AchievementProgressMap,
+  event: AchievementEvent,
+  now: Date = new Date(),
+): { progress: AchievementProgressMap; unlocked: AchievementDefinition[] } {
+  const next = { ...progress };
+  const unlocked: AchievementDefinition[] = [];
+  let changed = false;
+
+  achievements.forEach((achievement) => {
+    if (achievement.on !== event.type || isUnlocked(progress, achievement.id)) return;
+
+    const previous = progress[achievement.id]?.progress ?? 0;
+    // The definition is narrowed to the event's type by the check above
+    const value = Math.min(
+      achievement.goal,
+      (achievement.progress as (event: AchievementEvent, previous: number) => number)(event, previous),
+    );
+    if (value === previous) return;
+
+    const reached = value >= achievement.goal;
+    changed = true;
+    next[achievement.id] = { progress: value, unlockedAt: reached ? now.toISOString() : null };
+    if (reached) unlocked.push(achievement);
+  });
+
+  return { progress: changed ? next : progress, unlocked };
+}
@@ -0,0 +1,36 @@
+// Fetch helper for the Worker's JSON API (src/pages/api)
+import type { ApiErrorResponse } from "../types/Api";
+
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ApiErrorResponse["code"] | null = null,
+  ) {
+    super(message);
+    this.name = "ApiRequestError";
+  }
+}
+
+/**
+ * Send a request and parse the JSON response
+ * @throws ApiRequestError with the API's error message, or a generic one when the server cannot be reached
+ */
+export async function fetchJSON<T>(path: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    // Astro rejects cross-site form posts, so every request says it is JSON
+    response = await fetch(path, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+    });
+  } catch {
+    throw new ApiRequestError("Could not reach the game server");
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const error = body as ApiErrorResponse | null;
+    throw new ApiRequestError(error?.error ?? `Request failed (${response.status})`, error?.code ?? null);
+  }
+  return body as T;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { createGame, getInitialDealOrder } from "./gameEngine";
+import {
+  checkFreePlayDeck,
+  checkFreePlaySeed,
+  DAILY_EPOCH,
+  DailySeedError,
+  formatCountdown,
+  getDailyChallenge,
+  getDailyDate,
+  getDailySeed,
+  getDailyWeek,
+  getTimeUntilNextDaily,
+  getUnfinishedDaily,
+  parseDailyDate,
+} from "./daily";
+
+describe("Daily Challenge Dates", () => {
+  it("should use the UTC date", () => {
+    expect(getDailyDate(new Date("2026-10-19T23:59:59Z"))).toBe("2026-10-19");
+    expect(getDailyDate(new Date("2026-10-20T00:00:00Z"))).toBe("2026-10-20");
+  });
+
+  it("should give every date its own stable seed", () => {
+    expect(getDailySeed("2026-10-19")).toBe(getDailySeed("2026-10-19"));
+    expect(getDailySeed("2026-10-19")).not.toBe(getDailySeed("2026-10-20"));
+  });
+
+  it("should number challenges from the first one", () => {
+    expect(getDailyChallenge(DAILY_EPOCH).number).toBe(1);
+    expect(getDailyChallenge("2026-10-19")).toMatchObject({
+      date: "2026-10-19",
+      number: 292,
+      startsAt: "2026-10-19T00:00:00.000Z",
+      endsAt: "2026-10-20T00:00:00.000Z",
+    });
+  });
+
+  it("should group dates into Monday to Sunday weeks", () => {
+    // 2026-10-19 is a Monday
+    expect(getDailyWeek("2026-10-19")).toEqual({ start: "2026-10-19", end: "2026-10-25" });
+    expect(getDailyWeek("2026-10-25")).toEqual({ start: "2026-10-19", end: "2026-10-25" });
+    expect(getDailyWeek("2026-01-01")).toEqual({ start: "2025-12-29", end: "2026-01-04" });
+  });
+
+  it("should reject malformed, impossible and pre-launch dates", () => {
+    expect(parseDailyDate("2026-10-19")).toBe("2026-10-19");
+    expect(parseDailyDate("19/10/2026")).toBeNull();
+    expect(parseDailyDate("2026-02-30")).toBeNull();
+    expect(parseDailyDate("2025-12-31")).toBeNull();
+    expect(parseDailyDate(null)).toBeNull();
+  });
+
+  it("should keep challenges out of free play until their day is over", () => {
+    const now = new Date("2026-10-19T15:30:00Z");
+
+    expect(getUnfinishedDaily(getDailySeed("2026-10-19"), now)?.date).toBe("2026-10-19");
+    expect(getUnfinishedDaily(getDailySeed("2027-01-01"), now)?.date).toBe("2027-01-01");
+    expect(getUnfinishedDaily(getDailySeed("2026-10-18"), now)).toBeNull();
+    expect(() => checkFreePlaySeed(getDailySeed("2026-10-20"), now)).toThrow(DailySeedError);
+    expect(() => checkFreePlaySeed(getDailySeed("2026-10-18"), now)).not.toThrow();
+    expect(() => checkFreePlaySeed(null, now)).not.toThrow();
+  });
+
+  it("should keep a challenge's deal out of free play when it comes as a deck", () => {
+    const now = new Date("2026-10-19T15:30:00Z");
+    const deal = (date: string) => getInitialDealOrder(createGame({ seed: getDailySeed(date) }));
+
+    expect(() => checkFreePlayDeck(deal("2026-10-19"), now)).toThrow(/daily challenge #292/);
+    expect(() => checkFreePlayDeck(deal("2026-10-18"), now)).not.toThrow();
+    expect(() => checkFreePlayDeck(null, now)).not.toThrow();
+  });
+
+  it("should count down to the next UTC midnight", () => {
+    const now = new Date("2026-10-19T21:52:18Z");
+
+    expect(getTimeUntilNextDaily(now)).toBe((2 * 3600 + 7 * 60 + 42) * 1000);
+    expect(formatCountdown(getTimeUntilNextDaily(now))).toBe("2:07:42");
+  });
+});
@@ -0,0 +1,149 @@
+// Daily challenge: every player gets the same deal on a given UTC date.
+// The deal comes from a seed derived from the date, so the browser, the CLI
+// and the server all agree on it without sharing any state.
+import type { Card } from "../types/CardTypes";
+import { createGame, getInitialDealOrder } from "./gameEngine";
+
+// The first daily challenge, numbered 1
+export const DAILY_EPOCH = "2026-01-01";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far ahead free play looks for challenges a seed would deal early
+const DAILY_LOOKAHEAD_DAYS = 366;
+
+export class DailySeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DailySeedError";
+  }
+}
+
+export interface DailyChallenge {
+  date: string;     // UTC date, YYYY-MM-DD
+  number: number;   // Days since DAILY_EPOCH, starting at 1
+  seed: number;
+  startsAt: string; // ISO timestamps of the UTC day the challenge is open
+  endsAt: string;
+}
+
+const toDateString = (time: number) => new Date(time).toISOString().slice(0, 10);
+const startOfDay = (date: string) => Date.parse(`${date}T00:00:00.000Z`);
+
+// Today's UTC date as YYYY-MM-DD
+export function getDailyDate(now: Date = new Date()): string {
+  return toDateString(now.getTime());
+}
+
+/**
+ * Parse a YYYY-MM-DD date. Returns null when the input is not a real date
+ * or falls before the first challenge.
+ */
+export function parseDailyDate(input: string | null | undefined): string | null {
+  if (!input || !/^\d{4}-\d{2}-\d{2}$/.test(input)) return null;
+
+  const time = startOfDay(input);
+  // Rejects impossible dates such as 2026-02-30, which Date.parse rolls over
+  if (Number.isNaN(time) || toDateString(time) !== input) return null;
+  return time >= startOfDay(DAILY_EPOCH) ? input : null;
+}
+
+// 32-bit FNV-1a hash of the date, so neighbouring days get unrelated seeds
+export function getDailySeed(date: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of `high-low-daily:${date}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function getDailyChallenge(date: string): DailyChallenge {
+  const start = startOfDay(date);
+  return {
+    date,
+    number: Math.round((start - startOfDay(DAILY_EPOCH)) / DAY_MS) + 1,
+    seed: getDailySeed(date),
+    startsAt: new Date(start).toISOString(),
+    endsAt: new Date(start + DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * The challenge a seed deals, when that challenge is open today or still to
+ * come (up to a year ahead). The seeds are public, so free play refuses these
+ * to keep anyone from rehearsing a challenge before its day is over.
+ */
+export function getUnfinishedDaily(seed: number, now: Date = new Date()): DailyChallenge | null {
+  const today = startOfDay(getDailyDate(now));
+  for (let day = 0; day <= DAILY_LOOKAHEAD_DAYS; day++) {
+    const date = toDateString(today + day * DAY_MS);
+    if (getDailySeed(date) === seed) return getDailyChallenge(date);
+  }
+  return null;
+}
+
+/**
+ * Check that free play may deal a seed
+ * @throws DailySeedError when the seed deals a challenge whose day is not over
+ */
+export function checkFreePlaySeed(seed: number | null | undefined, now: Date = new Date()) {
+  const challenge = seed === null || seed === undefined ? null : getUnfinishedDaily(seed, now);
+  if (challenge) {
+    throw new DailySeedError(
+      `Seed ${seed} deals daily challenge #${challenge.number} (${challenge.date}); it can be played freely once that day is over`,
+    );
+  }
+}
+
+const sameDeal = (deck: Card[], dealOrder: Card[]) =>
+  deck.length === dealOrder.length &&
+  deck.every((card, index) => card.rank === dealOrder[index].rank && card.suit === dealOrder[index].suit);
+
+/**
+ * The challenge a deck deals, when that challenge is open today or still to
+ * come. Anyone can rebuild a challenge's deal order from its date, so a game
+ * record dealt from a deck could otherwise carry the challenge into free play.
+ */
+export function getUnfinishedDailyDeal(deck: Card[], now: Date = new Date()): DailyChallenge | null {
+  const today = startOfDay(getDailyDate(now));
+  for (let day = 0; day <= DAILY_LOOKAHEAD_DAYS; day++) {
+    const date = toDateString(today + day * DAY_MS);
+    // Challenges are always dealt under the classic rules
+    if (sameDeal(deck, getInitialDealOrder(createGame({ seed: getDailySeed(date) })))) return getDailyChallenge(date);
+  }
+  return null;
+}
+
+/**
+ * Check that free play may deal a deck
+ * @throws DailySeedError when the deck is the deal of a challenge whose day is not over
+ */
+export function checkFreePlayDeck(deck: Card[] | null | undefined, now: Date = new Date()) {
+  const challenge = deck ? getUnfinishedDailyDeal(deck, now) : null;
+  if (challenge) {
+    throw new DailySeedError(
+      `This deck deals daily challenge #${challenge.number} (${challenge.date}); it can be played freely once that day is over`,
+    );
+  }
+}
+
+// The Monday to Sunday UTC week a date falls in, for weekly standings
+export function getDailyWeek(date: string): { start: string; end: string } {
+  const time = startOfDay(date);
+  const start = time - ((new Date(time).getUTCDay() + 6) % 7) * DAY_MS;
+  return { start: toDateString(start), end: toDateString(start + 6 * DAY_MS) };
+}
+
+// Milliseconds until the next challenge unlocks at UTC midnight
+export function getTimeUntilNextDaily(now: Date = new Date()): number {
+  return startOfDay(getDailyDate(now)) + DAY_MS - now.getTime();
+}
+
+// A countdown such as "3:07:42"
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
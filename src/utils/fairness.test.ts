@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { GameState } from "../types/GameState";
+import { createCommitment, createNonce, observeDeal, verifyFairGame } from "./fairness";
+import { applyMove, createGame, getInitialDealOrder, getLegalMoves } from "./gameEngine";
+
+// Deal a game, commit to it and play the first legal move until it ends
+const playCommittedGame = async (seed: number) => {
+  let state: GameState = createGame({ seed });
+  const nonce = createNonce();
+  const commitment = await createCommitment(seed, nonce, getInitialDealOrder(state));
+  while (!state.won && !state.lost) {
+    state = applyMove(state, getLegalMoves(state)[0]).state;
+  }
+  return { state, nonce, commitment };
+};
+
+describe("Fairness", () => {
+  it("should verify an honestly dealt game", async () => {
+    const { state, nonce, commitment } = await playCommittedGame(42);
+
+    const report = await verifyFairGame(commitment, nonce, state, observeDeal(state));
+
+    expect(report).toEqual({ valid: true, commitmentMatches: true, drawsMatch: true, problems: [] });
+  });
+
+  it("should reject a seed or nonce that does not match the commitment", async () => {
+    const { state, nonce, commitment } = await playCommittedGame(42);
+
+    const wrongNonce = await verifyFairGame(commitment, createNonce(), state, observeDeal(state));
+    const wrongCommitment = await verifyFairGame(await createCommitment(43, nonce, []), nonce, state, observeDeal(state));
+
+    expect(wrongNonce.valid).toBe(false);
+    expect(wrongNonce.commitmentMatches).toBe(false);
+    expect(wrongNonce.drawsMatch).toBe(true);
+    expect(wrongCommitment.commitmentMatches).toBe(false);
+  });
+
+  it("should catch a drawn card that is not the next card of the deal", async () => {
+    const { state, nonce, commitment } = await playCommittedGame(42);
+    const [first, second, ...rest] = state.journal;
+    const swapped = {
+      ...state,
+      journal: [{ ...first, drawnCard: second.drawnCard }, { ...second, drawnCard: first.drawnCard }, ...rest],
+    };
+
+    const report = await verifyFairGame(commitment, nonce, swapped, observeDeal(swapped));
+
+    expect(report.commitmentMatches).toBe(true);
+    expect(report.drawsMatch).toBe(false);
+    expect(report.problems).toHaveLength(2);
+    expect(report.problems[0]).toMatch(/^Draw 1 was/);
+  });
+
+  it("should check the cards the player was shown, not the final journal", async () => {
+    const { state, nonce, commitment } = await playCommittedGame(42);
+    const observed = observeDeal(state);
+    const [first, second, ...rest] = observed.draws;
+
+    // The server rebuilt an honest journal from the seed after showing other cards
+    const report = await verifyFairGame(commitment, nonce, state, { ...observed, draws: [second, first, ...rest] });
+
+    expect(report.commitmentMatches).toBe(true);
+    expect(report.drawsMatch).toBe(false);
+    expect(report.problems[0]).toMatch(/^Draw 1 was/);
+  });
+
+  it("should not verify a game whose seed was never revealed", async () => {
+    const { state, nonce, commitment } = await playCommittedGame(42);
+
+    const report = await verifyFairGame(commitment, nonce, { ...state, seed: null }, observeDeal(state));
+
+    expect(report.valid).toBe(false);
+    expect(report.problems).toEqual(["The seed was not revealed"]);
+  });
+});
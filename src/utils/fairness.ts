@@ -0,0 +1,99 @@
+// Commit-reveal proof that a server-dealt game was not rearranged mid-game.
+//
+// When a game is dealt the server publishes SHA-256(seed, nonce, deal order).
+// The seed and nonce are revealed once the game ends, and anyone can rebuild
+// the shuffle from the seed, recompute the hash and check every card the player
+// was shown against the deal. The random nonce keeps the 32-bit seed from being
+// guessed from the commitment while the game is in play.
+//
+// The check runs against the cards the client saw as the game was played, not
+// the server's final journal, which a dishonest server could rebuild from the seed.
+import type { Card } from "../types/CardTypes";
+import type { GameState } from "../types/GameState";
+import { createGame, getInitialDealOrder, getPlayedMoves } from "./gameEngine";
+import { formatCardCode } from "./gameRecord";
+import { getStackCount } from "./rules";
+
+const COMMITMENT_VERSION = "high-low-commitment:1";
+
+export interface FairnessReport {
+  valid: boolean;
+  commitmentMatches: boolean; // The revealed seed and nonce hash to the published commitment
+  drawsMatch: boolean;        // The stacks and every drawn card follow the seed's deal
+  problems: string[];
+}
+
+// The cards a player was shown during a server game, kept by the client as they arrive
+export interface ObservedDeal {
+  dealt: Card[]; // The stack cards, row by row, as first dealt
+  draws: Card[]; // Every drawn card, in the order the server revealed them
+}
+
+const toHex = (bytes: Uint8Array) => [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+
+// 128 random bits, hex encoded
+export function createNonce(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+export async function createCommitment(seed: number, nonce: string, dealOrder: Card[]): Promise<string> {
+  const text = `${COMMITMENT_VERSION}:${seed}:${nonce}:${dealOrder.map(formatCardCode).join(" ")}`;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * Read the cards shown in a state, as observed by a client that saw the whole game
+ */
+export function observeDeal(state: GameState): ObservedDeal {
+  return {
+    dealt: state.stacks.flat().map((stack) => stack.cards[0]),
+    draws: getPlayedMoves(state).map((entry) => entry.drawnCard),
+  };
+}
+
+/**
+ * Check a finished game against the commitment published when it was dealt
+ * @param commitment the hash received at the start of the game
+ * @param nonce the nonce revealed at the end of the game
+ * @param state the final state, with its seed revealed
+ * @param observed the cards the client was shown while playing
+ */
+export async function verifyFairGame(
+  commitment: string,
+  nonce: string,
+  state: GameState,
+  observed: ObservedDeal,
+): Promise<FairnessReport> {
+  if (state.seed === null) {
+    return { valid: false, commitmentMatches: false, drawsMatch: false, problems: ["The seed was not revealed"] };
+  }
+
+  const problems: string[] = [];
+  const { rules } = state;
+  const dealOrder = getInitialDealOrder(createGame({ seed: state.seed, rules }));
+
+  const commitmentMatches = (await createCommitment(state.seed, nonce, dealOrder)) === commitment;
+  if (!commitmentMatches) {
+    problems.push("The seed and nonce do not match the commitment");
+  }
+
+  observed.dealt.forEach((card, index) => {
+    if (formatCardCode(card) !== formatCardCode(dealOrder[index])) {
+      problems.push(
+        `Stack ${Math.floor(index / rules.columns) + 1},${(index % rules.columns) + 1} was not dealt from this seed`,
+      );
+    }
+  });
+  observed.draws.forEach((card, index) => {
+    const expected = dealOrder[getStackCount(rules) + index];
+    if (!expected) {
+      problems.push(`Draw ${index + 1} was ${formatCardCode(card)}, but the deal has no more cards`);
+    } else if (formatCardCode(card) !== formatCardCode(expected)) {
+      problems.push(`Draw ${index + 1} was ${formatCardCode(card)}, but the deal says ${formatCardCode(expected)}`);
+    }
+  });
+  const drawsMatch = problems.length === (commitmentMatches ? 0 : 1);
+
+  return { valid: commitmentMatches && drawsMatch, commitmentMatches, drawsMatch, problems };
+}
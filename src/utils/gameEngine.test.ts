@@ -0,0 +1,284 @@
+import { describe, expect, it } from "vitest";
+import type { Card } from "../types/CardTypes";
+import type { GameState, PlayerMove } from "../types/GameState";
+import type { RuleSet } from "../types/RuleSet";
+import {
+  applyMove,
+  createGame,
+  canRedo,
+  canUndo,
+  createShuffledDeck,
+  getPlayedMoves,
+  InvalidDeckError,
+  InvalidMoveError,
+  OutOfCardsError,
+  previewMove,
+  redoMove,
+  undoMove,
+} from "./gameEngine";
+import { DEFAULT_RULES, InvalidRulesError } from "./rules";
+
+// Build a game whose first stack and next draw are known
+const setupGame = (stackCard: Card, nextCard: Card): GameState => {
+  const state = createGame({ seed: 42 });
+  const stacks = state.stacks.map((row) => [...row]) as GameState["stacks"];
+  stacks[0][0] = { cards: [stackCard], status: "active" };
+  return {
+    ...state,
+    stacks,
+    drawDeck: [...state.drawDeck.slice(0, -1), nextCard],
+  };
+};
+
+describe("Game Engine", () => {
+  describe("createGame", () => {
+    it("should deal 9 stacks and leave 43 cards in the deck", () => {
+      const state = createGame({ seed: 7 });
+
+      expect(state.stacks.flat()).toHaveLength(9);
+      expect(state.drawDeck).toHaveLength(43);
+      expect(state.cardCounting.seenCards).toHaveLength(9);
+      expect(state.seed).toBe(7);
+    });
+
+    it("should be deterministic for a seed", () => {
+      expect(createGame({ seed: 99 })).toEqual(createGame({ seed: 99 }));
+    });
+
+    it("should deal the grid and deck of the rule set", () => {
+      const rules: RuleSet = { ...DEFAULT_RULES, rows: 2, columns: 4, deck: "piquet" };
+      const state = createGame({ seed: 7, rules });
+
+      expect(state.rules).toEqual(rules);
+      expect(state.stacks.map((row) => row.length)).toEqual([4, 4]);
+      expect(state.drawDeck).toHaveLength(24);
+      expect(state.cardCounting.cardCounts.map((count) => count.rank)).toEqual([
+        "7", "8", "9", "10", "Jack", "Queen", "King", "Ace",
+      ]);
+    });
+
+    it("should reject unplayable rules and decks that do not match them", () => {
+      expect(() => createGame({ rules: { ...DEFAULT_RULES, rows: 0 } })).toThrow(InvalidRulesError);
+      expect(() => createGame({ deck: createShuffledDeck(1), rules: { ...DEFAULT_RULES, deck: "short" } })).toThrow(
+        InvalidDeckError,
+      );
+    });
+  });
+
+  describe("applyMove", () => {
+    const stackCard: Card = { suit: "Hearts", rank: "5" };
+    const move: PlayerMove = {
+      stackRow: 1,
+      stackColumn: 1,
+      highLowSame: "high",
+      card: stackCard,
+    };
+
+    it("should not modify the given state", () => {
+      const state = setupGame(stackCard, { suit: "Clubs", rank: "9" });
+      const snapshot = JSON.parse(JSON.stringify(state));
+
+      applyMove(state, move);
+
+      expect(state).toEqual(snapshot);
+    });
+
+    it("should report a correct guess in the outcome", () => {
+      const nextCard: Card = { suit: "Clubs", rank: "9" };
+      const { state, outcome } = applyMove(setupGame(stackCard, nextCard), move);
+
+      expect(outcome).toEqual({
+        move,
+        drawnCard: nextCard,
+        correct: true,
+        passed: false,
+        won: false,
+        lost: false,
+      });
+      expect(state.stacks[0][0]).toEqual({
+        cards: [stackCard, nextCard],
+        status: "active",
+      });
+      expect(state.drawDeck).toHaveLength(42);
+      expect(state.cardCounting.seenCards).toContainEqual(nextCard);
+    });
+
+    it("should fail the stack on a wrong guess", () => {
+      const { state, outcome } = applyMove(
+        setupGame(stackCard, { suit: "Clubs", rank: "2" }),
+        move,
+      );
+
+      expect(outcome.correct).toBe(false);
+      expect(state.stacks[0][0].status).toBe("failed");
+    });
+
+    it("should settle a tie by the rule set's tie rule", () => {
+      const tie = setupGame(stackCard, { suit: "Clubs", rank: "5" });
+      const play = (tieRule: RuleSet["tieRule"]) => applyMove({ ...tie, rules: { ...DEFAULT_RULES, tieRule } }, move);
+
+      expect(play("fail").outcome).toMatchObject({ correct: false, passed: false });
+      expect(play("fail").state.stacks[0][0].status).toBe("failed");
+
+      const freePass = play("free-pass");
+      expect(freePass.outcome).toMatchObject({ correct: false, passed: true });
+      expect(freePass.state.stacks[0][0].status).toBe("active");
+      expect(freePass.state.journal.at(-1)).toMatchObject({ correct: false, passed: true });
+
+      const countsBoth = play("counts-both");
+      expect(countsBoth.outcome).toMatchObject({ correct: true, passed: false });
+      expect(countsBoth.state.stacks[0][0].status).toBe("active");
+    });
+
+    it("should win when the last card is drawn with a stack still active", () => {
+      const state = setupGame(stackCard, { suit: "Clubs", rank: "2" });
+      const { state: next, outcome } = applyMove(
+        { ...state, drawDeck: [{ suit: "Clubs", rank: "2" }] },
+        move,
+      );
+
+      expect(outcome.correct).toBe(false);
+      expect(outcome.won).toBe(true);
+      expect(next.won).toBe(true);
+    });
+
+    it("should lose once fewer stacks stand than the win condition needs", () => {
+      const rules: RuleSet = { ...DEFAULT_RULES, winCondition: { type: "clear-deck", minStacks: 9 } };
+      const state = { ...setupGame(stackCard, { suit: "Clubs", rank: "2" }), rules };
+
+      expect(applyMove(state, move).outcome).toMatchObject({ correct: false, lost: true });
+    });
+
+    it("should win once the draw target is reached, cards left or not", () => {
+      const rules: RuleSet = { ...DEFAULT_RULES, winCondition: { type: "draw-target", cards: 1 } };
+      const state = { ...setupGame(stackCard, { suit: "Clubs", rank: "2" }), rules };
+
+      const { state: next } = applyMove(state, move);
+      expect(next.won).toBe(true);
+      expect(next.drawDeck).toHaveLength(42);
+    });
+
+    it("should reject moves whose card is not on top of the stack", () => {
+      const state = setupGame(stackCard, { suit: "Clubs", rank: "9" });
+
+      expect(() =>
+        applyMove(state, { ...move, card: { suit: "Spades", rank: "5" } }),
+      ).toThrow(InvalidMoveError);
+    });
+
+    it("should reject moves once the game is over", () => {
+      const state = { ...setupGame(stackCard, { suit: "Clubs", rank: "9" }), lost: true };
+
+      expect(() => applyMove(state, move)).toThrow(InvalidMoveError);
+    });
+
+    it("should throw when the deck is empty", () => {
+      const state = { ...setupGame(stackCard, { suit: "Clubs", rank: "9" }), drawDeck: [] };
+
+      expect(() => applyMove(state, move)).toThrow(OutOfCardsError);
+    });
+  });
+
+  describe("previewMove", () => {
+    it("should show the next card without drawing it", () => {
+      const stackCard: Card = { suit: "Hearts", rank: "King" };
+      const nextCard: Card = { suit: "Spades", rank: "King" };
+      const state = setupGame(stackCard, nextCard);
+
+      const preview = previewMove(state, {
+        stackRow: 1,
+        stackColumn: 1,
+        highLowSame: "same",
+        card: stackCard,
+      });
+
+      expect(preview).toEqual({ drawnCard: nextCard, wouldBeCorrect: true, wouldPass: false });
+      expect(state.drawDeck).toHaveLength(43);
+    });
+  });
+
+  describe("undo and redo", () => {
+    // Play on the first active stack, always guessing "high"
+    const playFirstStack = (state: GameState): GameState => {
+      const stack = state.stacks.flat().find((s) => s.status === "active")!;
+      const index = state.stacks.flat().indexOf(stack);
+      const move: PlayerMove = {
+        stackRow: Math.floor(index / 3) + 1,
+        stackColumn: (index % 3) + 1,
+        highLowSame: "high",
+        card: stack.cards[stack.cards.length - 1],
+      };
+      return applyMove(state, move).state;
+    };
+
+    it("should restore the exact state before the move", () => {
+      const before = playFirstStack(createGame({ seed: 3 }));
+      const after = playFirstStack(before);
+
+      const undone = undoMove(after);
+
+      expect(undone.stacks).toEqual(before.stacks);
+      expect(undone.drawDeck).toEqual(before.drawDeck);
+      expect(undone.cardCounting).toEqual(before.cardCounting);
+      expect(getPlayedMoves(undone)).toEqual(before.journal);
+      expect(undone.journal).toHaveLength(2);
+      expect(undone.journal[1].status).toBe("undone");
+    });
+
+    it("should replay the undone move on redo", () => {
+      const before = createGame({ seed: 3 });
+      const after = playFirstStack(before);
+
+      const redone = redoMove(undoMove(after));
+
+      expect(redone.stacks).toEqual(after.stacks);
+      expect(redone.drawDeck).toEqual(after.drawDeck);
+      expect(redone.journal).toEqual(after.journal);
+      expect(canRedo(redone)).toBe(false);
+    });
+
+    it("should redo undone moves in the order they were played", () => {
+      const played = playFirstStack(playFirstStack(createGame({ seed: 3 })));
+
+      const redone = redoMove(undoMove(undoMove(played)));
+
+      expect(getPlayedMoves(redone)).toEqual(played.journal.slice(0, 1));
+      const { stacks, drawDeck, journal } = played;
+      expect(redoMove(redone)).toMatchObject({ stacks, drawDeck, journal });
+    });
+
+    it("should keep undone moves in the journal when a new move replaces them", () => {
+      const state = undoMove(playFirstStack(playFirstStack(createGame({ seed: 3 }))));
+      expect(canRedo(state)).toBe(true);
+
+      const next = playFirstStack(state);
+
+      expect(next.journal).toHaveLength(3);
+      expect(next.journal.map((entry) => entry.status)).toEqual([undefined, "replaced", undefined]);
+      expect(getPlayedMoves(next)).toEqual([next.journal[0], next.journal[2]]);
+      expect(canRedo(next)).toBe(false);
+    });
+
+    it("should redo a move played after an undo rather than the one it replaced", () => {
+      const state = undoMove(playFirstStack(undoMove(playFirstStack(playFirstStack(createGame({ seed: 3 }))))));
+
+      const redone = redoMove(state);
+
+      expect(getPlayedMoves(redone)).toHaveLength(2);
+      expect(redone.journal.map((entry) => entry.status)).toEqual([undefined, "replaced", undefined]);
+    });
+
+    it("should enforce the undo limit", () => {
+      const state = playFirstStack(playFirstStack(createGame({ seed: 3, undoLimit: 1 })));
+
+      const undone = undoMove(state);
+
+      expect(canUndo(undone)).toBe(false);
+      expect(() => undoMove(undone)).toThrow("No undos left in this game");
+    });
+
+    it("should throw when there is nothing to undo", () => {
+      expect(() => undoMove(createGame({ seed: 3 }))).toThrow(InvalidMoveError);
+    });
+  });
+});
@@ -0,0 +1,379 @@
+// Pure game rules for High-Low. Nothing in here depends on nanostores or React,
+// so the same engine drives the browser store, the CLI and any simulations.
+import type { Card } from "../types/CardTypes";
+import type { GameState, PlayerMove, Stack, Stacks, CardCountingData, JournalEntry } from "../types/GameState";
+import type { DeckType, RuleSet } from "../types/RuleSet";
+import { getAllVisibleCards, getCardCounts } from "./probabilityCalculations";
+import { createSeededRandom, generateSeed } from "./random";
+import { createDeck, DEFAULT_RULES, getGameStatus, isCorrectGuess, isFreePass, validateRuleSet } from "./rules";
+
+export class OutOfCardsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutOfCardsError";
+  }
+}
+
+export class InvalidMoveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidMoveError";
+  }
+}
+
+export class InvalidDeckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidDeckError";
+  }
+}
+
+export interface GameOptions {
+  seed?: number;
+  deck?: Card[];             // Full deck in deal order, used instead of a seeded shuffle
+  undoLimit?: number | null; // Undos allowed per game, unlimited when omitted
+  rules?: RuleSet;           // Grid, deck, rank order, tie rule and win condition, the classic 3x3 game when omitted
+}
+
+export interface MoveOutcome {
+  move: PlayerMove;
+  drawnCard: Card;
+  correct: boolean;
+  passed: boolean; // A tie that kept the stack alive under the free-pass tie rule
+  won: boolean;
+  lost: boolean;
+}
+
+export interface MoveResult {
+  state: GameState;
+  outcome: MoveOutcome;
+}
+
+export const shuffleDeck = (deck: Card[], random: () => number) => {
+  let array = [...deck];
+  // The modern version of the Fisher-Yates shuffle algorithm
+  // https://bost.ocks.org/mike/shuffle/
+  let currentIndex = array.length;
+
+  // While there remain elements to shuffle...
+  while (currentIndex != 0) {
+    // Pick a remaining element...
+    let randomIndex = Math.floor(random() * currentIndex);
+    currentIndex--;
+
+    // And swap it with the current element.
+    [array[currentIndex], array[randomIndex]] = [
+      array[randomIndex],
+      array[currentIndex],
+    ];
+  }
+  return array;
+};
+
+const drawCard = (deck: Card[]) => {
+  if (deck.length === 0) {
+    throw new OutOfCardsError("No more cards in the deck");
+  }
+  return deck.pop() as Card;
+};
+
+export const createEmptyStacks = (rules: RuleSet = DEFAULT_RULES): Stacks =>
+  Array.from({ length: rules.rows }, () =>
+    Array.from({ length: rules.columns }, (): Stack => ({ cards: [], status: "active" })),
+  );
+
+// Shuffle a fresh deck with the seeded random number generator
+export const createShuffledDeck = (seed: number, deck: DeckType = "standard"): Card[] =>
+  shuffleDeck(createDeck(deck), createSeededRandom(seed));
+
+// Cards are dealt from the end of the deck array, so the deal order is the reverse
+const getDealOrder = (deck: Card[]): Card[] => [...deck].reverse();
+
+const validateDealOrder = (dealOrder: Card[], deck: DeckType) => {
+  const fullDeck = createDeck(deck);
+  const keys = new Set(dealOrder.map((card) => `${card.rank}-${card.suit}`));
+  const isFullDeck =
+    dealOrder.length === fullDeck.length &&
+    keys.size === fullDeck.length &&
+    fullDeck.every((card) => keys.has(`${card.rank}-${card.suit}`));
+  if (!isFullDeck) {
+    throw new InvalidDeckError(`A deck must contain each of the ${fullDeck.length} cards exactly once`);
+  }
+};
+
+const initializeDeckAndStacks = (
+  shuffledDeck: Card[],
+  rules: RuleSet,
+): { drawDeck: Card[]; stacks: Stacks } => {
+  const deck = [...shuffledDeck];
+  // Dealt row by row, one card per stack
+  const stacks: Stacks = Array.from({ length: rules.rows }, () =>
+    Array.from({ length: rules.columns }, (): Stack => ({ cards: [drawCard(deck)], status: "active" })),
+  );
+  return {
+    drawDeck: deck,
+    stacks,
+  };
+};
+
+const buildCardCountingData = (seenCards: Card[], rules: RuleSet): CardCountingData => ({
+  seenCards,
+  cardCounts: getCardCounts(seenCards, rules.deck, rules.rankOrder),
+  probabilities: null,
+});
+
+/**
+ * Deal a new game. The same seed always produces the same deal.
+ * @param options game options; a random seed is generated when neither a seed nor a deck is given
+ * @throws InvalidRulesError when the rule set cannot be played
+ * @throws InvalidDeckError when a given deck does not match the rule set's deck
+ */
+export function createGame(options: GameOptions = {}): GameState {
+  const rules = validateRuleSet(options.rules ?? DEFAULT_RULES);
+  let seed: number | null = null;
+  let deck: Card[];
+  if (options.deck) {
+    validateDealOrder(options.deck, rules.deck);
+    deck = getDealOrder(options.deck);
+  } else {
+    seed = options.seed ?? generateSeed();
+    deck = createShuffledDeck(seed, rules.deck);
+  }
+  const { drawDeck, stacks } = initializeDeckAndStacks(deck, rules);
+
+  return {
+    drawDeck,
+    stacks,
+    won: false,
+    lost: false,
+    // Card counting starts with the dealt cards already seen
+    cardCounting: buildCardCountingData(getAllVisibleCards(stacks), rules),
+    seed,
+    journal: [],
+    undoLimit: options.undoLimit ?? null,
+    undosUsed: 0,
+    rules,
+  };
+}
+
+const getPlayableStack = (state: GameState, move: PlayerMove): Stack => {
+  const { stackRow, stackColumn, card } = move;
+
+  if (state.won || state.lost) {
+    throw new InvalidMoveError("Cannot play a move after the game is over");
+  }
+
+  const stack = state.stacks[stackRow - 1]?.[stackColumn - 1];
+  if (!stack) {
+    throw new InvalidMoveError(
+      `There is no stack at position [${stackRow},${stackColumn}]`,
+    );
+  }
+  if (stack.status === "failed") {
+    throw new InvalidMoveError(
+      `Cannot play on failed stack at position [${stackRow},${stackColumn}]`,
+    );
+  }
+
+  const topCard = stack.cards[stack.cards.length - 1];
+  if (!topCard || topCard.rank !== card.rank || topCard.suit !== card.suit) {
+    throw new InvalidMoveError(
+      `Card ${card.rank} of ${card.suit} is not on top of the stack at position [${stackRow},${stackColumn}]`,
+    );
+  }
+
+  return stack;
+};
+
+/**
+ * Every move the player could make: each guess on each active stack.
+ * Empty once the game is over.
+ */
+export function getLegalMoves(state: GameState): PlayerMove[] {
+  if (state.won || state.lost || state.drawDeck.length === 0) return [];
+
+  return state.stacks.flatMap((row, rowIndex) =>
+    row.flatMap((stack, columnIndex) => {
+      const card = stack.cards[stack.cards.length - 1];
+      if (stack.status !== "active" || !card) return [];
+
+      return (["high", "low", "same"] as const).map((highLowSame) => ({
+        stackRow: rowIndex + 1,
+        stackColumn: columnIndex + 1,
+        highLowSame,
+        card,
+      }));
+    }),
+  );
+}
+
+/**
+ * Look at the card a move would draw without changing the state
+ * @param state the current game state
+ * @param move the player move to preview
+ * @returns The card that would be drawn, whether the guess would be correct and whether it would be a free pass
+ */
+export function previewMove(
+  state: GameState,
+  move: PlayerMove,
+): { drawnCard: Card; wouldBeCorrect: boolean; wouldPass: boolean } {
+  getPlayableStack(state, move);
+
+  if (state.drawDeck.length === 0) {
+    throw new OutOfCardsError("No more cards in the deck");
+  }
+
+  const drawnCard = state.drawDeck[state.drawDeck.length - 1];
+  return {
+    drawnCard,
+    wouldBeCorrect: isCorrectGuess(drawnCard, move.card, move.highLowSame, state.rules),
+    wouldPass: isFreePass(drawnCard, move.card, move.highLowSame, state.rules),
+  };
+}
+
+/**
+ * Apply a move to a game state. The given state is never modified.
+ * A wrong guess puts the card on the stack and fails it, unless the rule set's
+ * tie rule gives it a free pass; whether the game is then won or lost is
+ * decided by the rule set's win condition.
+ * @throws InvalidMoveError when the move cannot be played
+ * @throws OutOfCardsError when the deck is already empty
+ */
+export function applyMove(state: GameState, move: PlayerMove): MoveResult {
+  const { stackRow, stackColumn, highLowSame, card } = move;
+  const stack = getPlayableStack(state, move);
+
+  const drawDeck = [...state.drawDeck];
+  const drawnCard = drawCard(drawDeck);
+  const correct = isCorrectGuess(drawnCard, card, highLowSame, state.rules);
+  const passed = isFreePass(drawnCard, card, highLowSame, state.rules);
+
+  const stacks = state.stacks.map((row) => [...row]) as Stacks;
+  stacks[stackRow - 1][stackColumn - 1] = {
+    cards: [...stack.cards, drawnCard],
+    status: correct || passed ? stack.status : "failed",
+  };
+
+  // A new move replaces any undone moves that were waiting to be redone; they stay in the journal
+  const entry: JournalEntry = passed ? { move, drawnCard, correct, passed } : { move, drawnCard, correct };
+  const journal = [
+    ...state.journal.map((previous): JournalEntry =>
+      previous.status === "undone" ? { ...previous, status: "replaced" } : previous,
+    ),
+    entry,
+  ];
+  const { won, lost } = getGameStatus(state.rules, stacks, drawDeck.length);
+
+  return {
+    state: {
+      ...state,
+      drawDeck,
+      stacks,
+      won,
+      lost,
+      cardCounting: buildCardCountingData(
+        [...state.cardCounting.seenCards, drawnCard],
+        state.rules,
+      ),
+      journal,
+    },
+    outcome: { move, drawnCard, correct, passed, won, lost },
+  };
+}
+
+/**
+ * The moves in play, in the order they were played: the journal without the
+ * undone and replaced moves
+ */
+export function getPlayedMoves(state: Pick<GameState, "journal">): JournalEntry[] {
+  return state.journal.filter((entry) => !entry.status);
+}
+
+/**
+ * Reconstruct the order in which the game's cards were dealt and drawn:
+ * the stack cards row by row, then every draw. Passing it back to
+ * createGame as `deck` recreates the same game.
+ */
+export function getInitialDealOrder(state: GameState): Card[] {
+  const dealtCards = state.stacks.flat().map((stack) => stack.cards[0]);
+  const drawnCards = getPlayedMoves(state).map((entry) => entry.drawnCard);
+  return [...dealtCards, ...drawnCards, ...getDealOrder(state.drawDeck)];
+}
+
+// Number of undos left this game, or null when undos are unlimited
+export function getUndosRemaining(state: GameState): number | null {
+  if (state.undoLimit === null) return null;
+  return Math.max(0, state.undoLimit - state.undosUsed);
+}
+
+export function canUndo(state: GameState): boolean {
+  return getPlayedMoves(state).length > 0 && getUndosRemaining(state) !== 0;
+}
+
+export function canRedo(state: GameState): boolean {
+  return state.journal.some((entry) => entry.status === "undone");
+}
+
+/**
+ * Take back the last applied move. The drawn card goes back on top of the deck
+ * and the stack, card counting and game status are restored exactly.
+ * @throws InvalidMoveError when there is nothing to undo or no undos are left
+ */
+export function undoMove(state: GameState): GameState {
+  const index = state.journal.findLastIndex((entry) => !entry.status);
+  if (index === -1) {
+    throw new InvalidMoveError("There is no move to undo");
+  }
+  if (getUndosRemaining(state) === 0) {
+    throw new InvalidMoveError("No undos left in this game");
+  }
+
+  const { move, drawnCard } = state.journal[index];
+  const { stackRow, stackColumn } = move;
+  const stack = state.stacks[stackRow - 1][stackColumn - 1];
+
+  const stacks = state.stacks.map((row) => [...row]) as Stacks;
+  // Moves can only be played on active stacks, so the stack was active before it
+  stacks[stackRow - 1][stackColumn - 1] = {
+    cards: stack.cards.slice(0, -1),
+    status: "active",
+  };
+
+  return {
+    ...state,
+    drawDeck: [...state.drawDeck, drawnCard],
+    stacks,
+    won: false,
+    lost: false,
+    cardCounting: buildCardCountingData(
+      state.cardCounting.seenCards.slice(0, -1),
+      state.rules,
+    ),
+    journal: state.journal.map((entry, position) =>
+      position === index ? { ...entry, status: "undone" } : entry,
+    ),
+    undosUsed: state.undosUsed + 1,
+  };
+}
+
+/**
+ * Play the most recently undone move again
+ * @throws InvalidMoveError when there is nothing to redo
+ */
+export function redoMove(state: GameState): GameState {
+  if (!canRedo(state)) {
+    throw new InvalidMoveError("There is no move to redo");
+  }
+
+  // Undone moves sit in the journal in the order they were played, so the
+  // first one is the most recently undone
+  const index = state.journal.findIndex((entry) => entry.status === "undone");
+  const { status, ...entry } = state.journal[index];
+  const { state: next } = applyMove(state, entry.move);
+
+  // Keep the rest of the undone moves available for redo
+  return {
+    ...next,
+    journal: state.journal.map((previous, position) => (position === index ? entry : previous)),
+  };
+}
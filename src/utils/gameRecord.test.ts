@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import type { GameState, PlayerMove } from "../types/GameState";
+import { applyMove, createGame, undoMove } from "./gameEngine";
+import {
+  createGameRecord,
+  formatCardCode,
+  GameRecordError,
+  isAssistedRecord,
+  parseCardCode,
+  parseGameRecord,
+  replayGameRecord,
+  serializeGameRecord,
+} from "./gameRecord";
+import { createDeck, DEFAULT_RULES } from "./rules";
+
+// Play a few moves on the first active stack, always guessing "low"
+const playMoves = (state: GameState, count: number): GameState => {
+  for (let i = 0; i < count && !state.won && !state.lost; i++) {
+    const index = state.stacks.flat().findIndex((s) => s.status === "active");
+    const stack = state.stacks.flat()[index];
+    const move: PlayerMove = {
+      stackRow: Math.floor(index / state.rules.columns) + 1,
+      stackColumn: (index % state.rules.columns) + 1,
+      highLowSame: "low",
+      card: stack.cards[stack.cards.length - 1],
+    };
+    state = applyMove(state, move).state;
+  }
+  return state;
+};
+
+describe("Game Records", () => {
+  it("should format and parse card codes", () => {
+    expect(formatCardCode({ suit: "Hearts", rank: "10" })).toBe("10H");
+    expect(formatCardCode({ suit: "Spades", rank: "Queen" })).toBe("QS");
+    expect(parseCardCode("ad")).toEqual({ suit: "Diamonds", rank: "Ace" });
+    expect(() => parseCardCode("1X")).toThrow(GameRecordError);
+  });
+
+  it("should round-trip a seeded game", () => {
+    const state = playMoves(createGame({ seed: 2024, undoLimit: 3 }), 6);
+    const text = serializeGameRecord(createGameRecord(state));
+
+    expect(text).toContain("seed: 2024");
+    expect(text).toContain("undo-limit: 3");
+
+    const record = parseGameRecord(text);
+    expect(record.moves).toEqual(state.journal);
+
+    const replayed = replayGameRecord(record);
+    expect(replayed.stacks).toEqual(state.stacks);
+    expect(replayed.drawDeck).toEqual(state.drawDeck);
+    expect(replayed.undoLimit).toBe(3);
+  });
+
+  it("should record the rules of games played under other rules", () => {
+    const rules = { ...DEFAULT_RULES, rows: 4, columns: 4, deck: "short" as const, rankOrder: "ace-low" as const };
+    const state = playMoves(createGame({ seed: 2024, rules }), 6);
+    const text = serializeGameRecord(createGameRecord(state));
+
+    expect(text).toContain("rules: grid=4x4 deck=short ranks=ace-low ties=fail win=clear-deck:1");
+    expect(serializeGameRecord(createGameRecord(createGame({ seed: 1 })))).not.toContain("rules:");
+
+    const replayed = replayGameRecord(parseGameRecord(text));
+    expect(replayed.rules).toEqual(rules);
+    expect(replayed.stacks).toEqual(state.stacks);
+  });
+
+  it("should record free passes and replay them", () => {
+    const fiveOfHearts = parseCardCode("5H");
+    const fiveOfClubs = parseCardCode("5C");
+    const others = createDeck("standard").filter((card) => !["5H", "5C"].includes(formatCardCode(card)));
+    // The first stack shows 5H and the first draw is 5C
+    const deck = [fiveOfHearts, ...others.slice(0, 8), fiveOfClubs, ...others.slice(8)];
+    const rules = { ...DEFAULT_RULES, tieRule: "free-pass" as const };
+    const game = createGame({ deck, rules });
+    const { state } = applyMove(game, { stackRow: 1, stackColumn: 1, highLowSame: "high", card: fiveOfHearts });
+    const text = serializeGameRecord(createGameRecord(state));
+
+    expect(text).toContain("1,1 high 5H 5C pass");
+    const record = parseGameRecord(text);
+    expect(record.moves[0]).toMatchObject({ correct: false, passed: true });
+    expect(replayGameRecord(record).stacks).toEqual(state.stacks);
+    expect(() => replayGameRecord({ ...record, rules: DEFAULT_RULES })).toThrow(/expected 5C \(pass\) but the deal produced 5C \(wrong\)/);
+  });
+
+  it("should leave undone moves out of the record", () => {
+    const state = undoMove(playMoves(createGame({ seed: 5 }), 3));
+
+    expect(createGameRecord(state).moves).toHaveLength(2);
+  });
+
+  it("should record the moves in play when undone moves were replaced", () => {
+    const state = playMoves(undoMove(playMoves(createGame({ seed: 5 }), 3)), 1);
+
+    expect(state.journal).toHaveLength(4);
+    expect(createGameRecord(state).moves).toEqual([state.journal[0], state.journal[1], state.journal[3]]);
+  });
+
+  it("should recreate a game from a deck order", () => {
+    const seeded = playMoves(createGame({ seed: 77 }), 4);
+    const custom = { ...seeded, seed: null };
+
+    const record = parseGameRecord(serializeGameRecord(createGameRecord(custom)));
+    expect(record.seed).toBeNull();
+    expect(record.deck).toHaveLength(52);
+
+    const replayed = replayGameRecord(record);
+    expect(replayed.stacks).toEqual(seeded.stacks);
+    expect(replayed.drawDeck).toEqual(seeded.drawDeck);
+  });
+
+  it("should replay only part of a record", () => {
+    const state = playMoves(createGame({ seed: 11 }), 5);
+    const record = createGameRecord(state);
+
+    expect(replayGameRecord(record, 2).journal).toEqual(state.journal.slice(0, 2));
+  });
+
+  it("should reject a record whose cards do not match the deal", () => {
+    const state = playMoves(createGame({ seed: 11 }), 2);
+    const text = serializeGameRecord(createGameRecord(state)).replace(
+      "seed: 11",
+      "seed: 12",
+    );
+
+    expect(() => replayGameRecord(parseGameRecord(text))).toThrow(GameRecordError);
+  });
+
+  it("should reject malformed records", () => {
+    expect(() => parseGameRecord("seed: 1\nmoves:\n")).toThrow("missing its version");
+    expect(() => parseGameRecord("version: 9\nseed: 1\n")).toThrow("Unsupported record version");
+    expect(() => parseGameRecord("version: 1\nmoves:\n")).toThrow("either a seed or a deck");
+    expect(() =>
+      parseGameRecord("version: 1\nseed: 1\nmoves:\n0,1 high 2H 3H correct\n"),
+    ).toThrow("Line 4: invalid move");
+    expect(() => parseGameRecord("version: 1\nseed: 1\nrules: grid=6x6\n")).toThrow("Line 3: The grid must have");
+    expect(() => parseGameRecord("version: 1\nseed: 4294967296\n")).toThrow("Line 2: invalid seed");
+    expect(() => parseGameRecord("version: 1\nseed: 1\nundos-used: -1\n")).toThrow("Line 3: invalid undo count");
+    expect(() => parseGameRecord("version: 1\nseed: 1\nundo-limit: 1\nundos-used: 2\n")).toThrow(
+      "used 2 undos but only 1 were allowed",
+    );
+  });
+
+  it("should record the undos taken", () => {
+    const state = playMoves(undoMove(playMoves(createGame({ seed: 5, undoLimit: 3 }), 3)), 1);
+    const text = serializeGameRecord(createGameRecord(state));
+
+    expect(text).toContain("undos-used: 1");
+    expect(replayGameRecord(parseGameRecord(text)).undosUsed).toBe(1);
+    expect(parseGameRecord("version: 1\nseed: 1\n").undosUsed).toBe(0);
+    expect(isAssistedRecord(parseGameRecord(text))).toBe(true);
+  });
+
+  it("should record the assists used", () => {
+    const state = playMoves(createGame({ seed: 5 }), 2);
+    const text = serializeGameRecord(createGameRecord(state, ["card-counting", "ez-mode"]));
+
+    expect(text).toContain("assists: ez-mode card-counting");
+    expect(parseGameRecord(text).assists).toEqual(["ez-mode", "card-counting"]);
+    expect(isAssistedRecord(parseGameRecord(text))).toBe(true);
+    expect(serializeGameRecord(createGameRecord(state))).not.toContain("assists:");
+    expect(isAssistedRecord(createGameRecord(state))).toBe(false);
+    expect(() => parseGameRecord("version: 1\nseed: 1\nassists: peeking\n")).toThrow('Line 3: unknown assist "peeking"');
+  });
+});
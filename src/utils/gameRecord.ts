@@ -0,0 +1,328 @@
+// Text-based game records for saving, sharing and replaying games.
+//
+// A record looks like this:
+//
+//   # High-Low game record
+//   version: 1
+//   seed: 12345
+//   undo-limit: 3
+//   undos-used: 1
+//   assists: ez-mode card-counting
+//   rules: grid=3x4 deck=short ranks=ace-high ties=fail win=clear-deck:2
+//   moves:
+//   1,1 high 7H KD correct
+//   2,3 same QS 4C wrong
+//
+// A move's result is "correct", "wrong", or "pass" for a tie that the
+// free-pass tie rule let the stack survive.
+// Instead of a seed, a record can list the whole deck in deal order
+// (`deck: AS 10H ...`): the stack cards row by row, then every draw.
+// The `assists` line is left out for games played without help, and the
+// `rules` line for games played under the default rules.
+import type { Card, CardRank, CardSuit } from "../types/CardTypes";
+import type { GameState, JournalEntry, PlayerMove } from "../types/GameState";
+import type { RuleSet } from "../types/RuleSet";
+import { applyMove, createGame, getInitialDealOrder, getPlayedMoves, type MoveResult } from "./gameEngine";
+import { parseSeed } from "./random";
+import { DEFAULT_RULES, formatRuleSet, isDefaultRules, parseRuleSet } from "./rules";
+
+export const GAME_RECORD_VERSION = 1;
+
+const RECORD_HEADER = "# High-Low game record";
+
+export class GameRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GameRecordError";
+  }
+}
+
+// Help the player turned on while the game was in play
+export type Assist = "ez-mode" | "ez-ez-mode" | "card-counting";
+
+export const ASSISTS: Assist[] = ["ez-mode", "ez-ez-mode", "card-counting"];
+
+export interface GameRecord {
+  version: number;
+  seed: number | null;
+  deck: Card[] | null;       // Deal order, only used when there is no seed
+  undoLimit: number | null;
+  undosUsed: number;         // Undos taken during the game; the undone moves are not recorded
+  assists: Assist[];
+  rules: RuleSet;
+  moves: JournalEntry[];
+}
+
+const rankCodes: Record<CardRank, string> = {
+  "2": "2",
+  "3": "3",
+  "4": "4",
+  "5": "5",
+  "6": "6",
+  "7": "7",
+  "8": "8",
+  "9": "9",
+  "10": "10",
+  Jack: "J",
+  Queen: "Q",
+  King: "K",
+  Ace: "A",
+};
+
+const suitCodes: Record<CardSuit, string> = {
+  Hearts: "H",
+  Diamonds: "D",
+  Clubs: "C",
+  Spades: "S",
+};
+
+const guesses: PlayerMove["highLowSame"][] = ["high", "low", "same"];
+
+const formatResult = ({ correct, passed }: { correct: boolean; passed?: boolean }) =>
+  correct ? "correct" : passed ? "pass" : "wrong";
+
+// Short card notation, e.g. "10H" or "QS"
+export function formatCardCode(card: Card): string {
+  return `${rankCodes[card.rank]}${suitCodes[card.suit]}`;
+}
+
+// Identifies a deal by the first card of every stack, which stay put however the game goes
+export const getDealKey = (state: GameState) =>
+  state.stacks.flat().map((stack) => (stack.cards[0] ? formatCardCode(stack.cards[0]) : "")).join(" ");
+
+export function parseCardCode(code: string): Card {
+  const rankCode = code.slice(0, -1).toUpperCase();
+  const suitCode = code.slice(-1).toUpperCase();
+
+  const rank = (Object.keys(rankCodes) as CardRank[]).find((r) => rankCodes[r] === rankCode);
+  const suit = (Object.keys(suitCodes) as CardSuit[]).find((s) => suitCodes[s] === suitCode);
+  if (!rank || !suit) {
+    throw new GameRecordError(`Invalid card "${code}"`);
+  }
+
+  return { rank, suit };
+}
+
+/**
+ * Build a record of the moves played so far in a game.
+ * Undone moves are not part of the record.
+ * @param assists the help used during the game, which the state does not keep
+ */
+export function createGameRecord(state: GameState, assists: Assist[] = []): GameRecord {
+  return {
+    version: GAME_RECORD_VERSION,
+    seed: state.seed,
+    deck: state.seed === null ? getInitialDealOrder(state) : null,
+    undoLimit: state.undoLimit,
+    undosUsed: state.undosUsed,
+    assists: ASSISTS.filter((assist) => assists.includes(assist)),
+    rules: state.rules,
+    moves: getPlayedMoves(state),
+  };
+}
+
+export function serializeGameRecord(record: GameRecord): string {
+  const lines = [RECORD_HEADER, `version: ${record.version}`];
+
+  if (record.seed !== null) {
+    lines.push(`seed: ${record.seed}`);
+  } else if (record.deck) {
+    lines.push(`deck: ${record.deck.map(formatCardCode).join(" ")}`);
+  }
+  lines.push(`undo-limit: ${record.undoLimit ?? "unlimited"}`);
+  lines.push(`undos-used: ${record.undosUsed}`);
+  if (record.assists.length > 0) {
+    lines.push(`assists: ${record.assists.join(" ")}`);
+  }
+  if (!isDefaultRules(record.rules)) {
+    lines.push(`rules: ${formatRuleSet(record.rules)}`);
+  }
+
+  lines.push("moves:");
+  for (const entry of record.moves) {
+    const { move, drawnCard } = entry;
+    lines.push(
+      [
+        `${move.stackRow},${move.stackColumn}`,
+        move.highLowSame,
+        formatCardCode(move.card),
+        formatCardCode(drawnCard),
+        formatResult(entry),
+      ].join(" "),
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+const parseMoveLine = (line: string, lineNumber: number): JournalEntry => {
+  const parts = line.split(/\s+/);
+  const position = parts[0]?.match(/^([1-9]\d*),([1-9]\d*)$/);
+  const guess = parts[1] as PlayerMove["highLowSame"];
+
+  if (parts.length !== 5 || !position || !guesses.includes(guess)) {
+    throw new GameRecordError(`Line ${lineNumber}: invalid move "${line}"`);
+  }
+  if (parts[4] !== "correct" && parts[4] !== "wrong" && parts[4] !== "pass") {
+    throw new GameRecordError(`Line ${lineNumber}: result must be "correct", "wrong" or "pass"`);
+  }
+
+  return {
+    move: {
+      stackRow: Number(position[1]),
+      stackColumn: Number(position[2]),
+      highLowSame: guess,
+      card: parseCardCode(parts[2]),
+    },
+    drawnCard: parseCardCode(parts[3]),
+    correct: parts[4] === "correct",
+    ...(parts[4] === "pass" && { passed: true }),
+  };
+};
+
+/**
+ * Parse a record produced by serializeGameRecord.
+ * Blank lines, comments (#) and unknown header fields are ignored.
+ * @throws GameRecordError when the record is malformed
+ */
+export function parseGameRecord(text: string): GameRecord {
+  const record: GameRecord = {
+    version: 0,
+    seed: null,
+    deck: null,
+    undoLimit: null,
+    undosUsed: 0,
+    assists: [],
+    rules: DEFAULT_RULES,
+    moves: [],
+  };
+  let inMoves = false;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+    if (line === "" || line.startsWith("#")) return;
+
+    if (inMoves) {
+      record.moves.push(parseMoveLine(line, lineNumber));
+      return;
+    }
+
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      throw new GameRecordError(`Line ${lineNumber}: expected "key: value"`);
+    }
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (key) {
+      case "version":
+        record.version = Number(value);
+        if (record.version !== GAME_RECORD_VERSION) {
+          throw new GameRecordError(`Unsupported record version "${value}"`);
+        }
+        break;
+      case "seed":
+        record.seed = parseSeed(value);
+        if (record.seed === null) {
+          throw new GameRecordError(`Line ${lineNumber}: invalid seed "${value}"`);
+        }
+        break;
+      case "deck":
+        record.deck = value.split(/\s+/).map(parseCardCode);
+        break;
+      case "undo-limit":
+        if (value !== "unlimited" && !/^\d+$/.test(value)) {
+          throw new GameRecordError(`Line ${lineNumber}: invalid undo limit "${value}"`);
+        }
+        record.undoLimit = value === "unlimited" ? null : Number(value);
+        break;
+      case "undos-used":
+        if (!/^\d+$/.test(value)) {
+          throw new GameRecordError(`Line ${lineNumber}: invalid undo count "${value}"`);
+        }
+        record.undosUsed = Number(value);
+        break;
+      case "assists": {
+        const assists = value.split(/\s+/) as Assist[];
+        const unknown = assists.find((assist) => !ASSISTS.includes(assist));
+        if (unknown !== undefined) {
+          throw new GameRecordError(`Line ${lineNumber}: unknown assist "${unknown}"`);
+        }
+        record.assists = ASSISTS.filter((assist) => assists.includes(assist));
+        break;
+      }
+      case "rules":
+        try {
+          record.rules = parseRuleSet(value);
+        } catch (e) {
+          throw new GameRecordError(`Line ${lineNumber}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+        break;
+      case "moves":
+        inMoves = true;
+        break;
+    }
+  });
+
+  if (record.version === 0) {
+    throw new GameRecordError("Record is missing its version");
+  }
+  if (record.seed === null && record.deck === null) {
+    throw new GameRecordError("Record needs either a seed or a deck");
+  }
+  if (record.undoLimit !== null && record.undosUsed > record.undoLimit) {
+    throw new GameRecordError(`Record used ${record.undosUsed} undos but only ${record.undoLimit} were allowed`);
+  }
+
+  return record;
+}
+
+// Whether a record's game had any help: an assist or a move taken back
+export const isAssistedRecord = (record: GameRecord) => record.assists.length > 0 || record.undosUsed > 0;
+
+/**
+ * Recreate the game described by a record by playing its moves through the engine.
+ * The record's undo count carries over, since the undone moves are not part of it.
+ * @param moveCount how many of the recorded moves to play; all of them by default
+ * @throws GameRecordError when a move does not reproduce the recorded card or result
+ */
+export function replayGameRecord(record: GameRecord, moveCount = record.moves.length): GameState {
+  let state: GameState;
+  try {
+    state = createGame({
+      seed: record.seed ?? undefined,
+      deck: record.seed === null ? record.deck ?? undefined : undefined,
+      undoLimit: record.undoLimit,
+      rules: record.rules,
+    });
+  } catch (e) {
+    throw new GameRecordError(e instanceof Error ? e.message : String(e));
+  }
+
+  const moves = record.moves.slice(0, moveCount);
+  for (const [index, entry] of moves.entries()) {
+    let result: MoveResult;
+    try {
+      result = applyMove(state, entry.move);
+    } catch (e) {
+      throw new GameRecordError(
+        `Move ${index + 1}: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+
+    const { outcome } = result;
+    if (
+      formatCardCode(outcome.drawnCard) !== formatCardCode(entry.drawnCard) ||
+      formatResult(outcome) !== formatResult(entry)
+    ) {
+      throw new GameRecordError(
+        `Move ${index + 1}: expected ${formatCardCode(entry.drawnCard)} (${formatResult(entry)}) ` +
+          `but the deal produced ${formatCardCode(outcome.drawnCard)} (${formatResult(outcome)})`,
+      );
+    }
+    state = result.state;
+  }
+
+  return { ...state, undosUsed: record.undosUsed };
+}
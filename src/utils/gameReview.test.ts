@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { GameState } from "../types/GameState";
+import { applyMove, createGame } from "./gameEngine";
+import { createGameRecord, GameRecordError } from "./gameRecord";
+import { rateMove, reviewGame } from "./gameReview";
+import { getHighestProbabilityMove, getMoveProbabilities } from "./strategies";
+
+// Play the likeliest move until the game ends or enough moves are played
+const playGreedy = (state: GameState, count: number): GameState => {
+  for (let i = 0; i < count && !state.won && !state.lost; i++) {
+    state = applyMove(state, getHighestProbabilityMove(state)).state;
+  }
+  return state;
+};
+
+// Play the least likely move
+const playWorst = (state: GameState): GameState => {
+  const worst = getMoveProbabilities(state).reduce((lowest, candidate) =>
+    candidate.successProbability < lowest.successProbability ? candidate : lowest,
+  );
+  return applyMove(state, worst.move).state;
+};
+
+describe("Game Review", () => {
+  it("should rate moves by the success probability they gave up", () => {
+    expect(rateMove(0.7, 0.7)).toBe("best");
+    expect(rateMove(0.698, 0.7)).toBe("best");
+    expect(rateMove(0.6, 0.7)).toBe("inaccuracy");
+    expect(rateMove(0.3, 0.7)).toBe("blunder");
+  });
+
+  it("should rate greedy play as best throughout", () => {
+    const state = playGreedy(createGame({ seed: 42 }), 10);
+
+    const { moves, summary } = reviewGame(createGameRecord(state));
+
+    expect(moves).toHaveLength(state.journal.length);
+    expect(moves.every((review) => review.rating === "best")).toBe(true);
+    expect(summary.decisionCost).toBeCloseTo(0);
+    expect(summary.ratings).toEqual({ best: moves.length, inaccuracy: 0, blunder: 0 });
+  });
+
+  it("should compare the move played with the best one available", () => {
+    const state = playWorst(playGreedy(createGame({ seed: 42 }), 3));
+
+    const review = reviewGame(createGameRecord(state)).moves[3];
+
+    expect(review.moveNumber).toBe(4);
+    expect(review.successProbability).toBeLessThan(review.bestSuccessProbability);
+    expect(review.rating).toBe(rateMove(review.successProbability, review.bestSuccessProbability));
+    expect(review.rating).not.toBe("best");
+  });
+
+  it("should split the result into luck and decisions", () => {
+    const state = playWorst(playWorst(playGreedy(createGame({ seed: 7 }), 5)));
+
+    const { moves, summary } = reviewGame(createGameRecord(state));
+    const expected = moves.reduce((total, review) => total + review.successProbability, 0);
+    const best = moves.reduce((total, review) => total + review.bestSuccessProbability, 0);
+
+    expect(summary.correctGuesses).toBe(state.journal.filter((entry) => entry.correct).length);
+    expect(summary.expectedCorrectGuesses).toBeCloseTo(expected);
+    expect(summary.luck).toBeCloseTo(summary.correctGuesses - expected);
+    expect(summary.decisionCost).toBeCloseTo(best - expected);
+    expect(summary.decisionCost).toBeGreaterThan(0);
+  });
+
+  it("should reject a record that does not match its deal", () => {
+    const record = createGameRecord(playGreedy(createGame({ seed: 42 }), 3));
+
+    expect(() => reviewGame({ ...record, seed: 43 })).toThrow(GameRecordError);
+  });
+});
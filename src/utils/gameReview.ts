@@ -0,0 +1,116 @@
+// Post-game review: replays a game and compares every move with the best one
+// available at the time, measured by its chance of succeeding on the next draw.
+import type { Card } from "../types/CardTypes";
+import type { PlayerMove } from "../types/GameState";
+import { applyMove } from "./gameEngine";
+import { replayGameRecord, type GameRecord } from "./gameRecord";
+import { getMoveProbabilities } from "./strategies";
+
+export type MoveRating = 'best' | 'inaccuracy' | 'blunder';
+
+// Moves within this much of the best success probability still count as best
+export const BEST_MOVE_TOLERANCE = 0.005;
+// Moves that give up at least this much success probability are blunders
+export const BLUNDER_THRESHOLD = 0.2;
+
+export interface MoveReview {
+  moveNumber: number;
+  move: PlayerMove;
+  drawnCard: Card;
+  correct: boolean;
+  passed: boolean;                // A tie let the stack survive under the free-pass tie rule
+  successProbability: number;     // Chance the move played would succeed
+  bestMove: PlayerMove;
+  bestSuccessProbability: number; // Chance the best available move would succeed
+  rating: MoveRating;
+}
+
+export interface ReviewSummary {
+  moves: number;
+  correctGuesses: number;
+  expectedCorrectGuesses: number; // Correct guesses the moves played were worth on average
+  bestCorrectGuesses: number;     // Correct guesses the best moves would have been worth
+  luck: number;                   // Correct guesses above (or below) expectation
+  decisionCost: number;           // Correct guesses given up by not playing the best moves
+  ratings: Record<MoveRating, number>;
+}
+
+export interface GameReview {
+  moves: MoveReview[];
+  summary: ReviewSummary;
+}
+
+export function rateMove(successProbability: number, bestSuccessProbability: number): MoveRating {
+  const loss = bestSuccessProbability - successProbability;
+  if (loss <= BEST_MOVE_TOLERANCE) return 'best';
+  return loss >= BLUNDER_THRESHOLD ? 'blunder' : 'inaccuracy';
+}
+
+/**
+ * Replay a recorded game and rate every move against the best one available.
+ * "Best" means the likeliest next draw, which is what a player can see at the
+ * table; it is not always the move with the best chance to win the game.
+ * @throws GameRecordError when the record does not replay
+ */
+export function reviewGame(record: GameRecord): GameReview {
+  // Replaying the whole record first checks that it matches its deal
+  replayGameRecord(record);
+  let state = replayGameRecord(record, 0);
+
+  const moves = record.moves.map((entry, index): MoveReview => {
+    const probabilities = getMoveProbabilities(state);
+    const best = probabilities.reduce((top, candidate) =>
+      candidate.successProbability > top.successProbability ? candidate : top,
+    );
+    const played = probabilities.find(
+      ({ move }) =>
+        move.stackRow === entry.move.stackRow &&
+        move.stackColumn === entry.move.stackColumn &&
+        move.highLowSame === entry.move.highLowSame,
+    );
+    const successProbability = played?.successProbability ?? 0;
+
+    state = applyMove(state, entry.move).state;
+    return {
+      moveNumber: index + 1,
+      move: entry.move,
+      drawnCard: entry.drawnCard,
+      correct: entry.correct,
+      passed: entry.passed ?? false,
+      successProbability,
+      bestMove: best.move,
+      bestSuccessProbability: best.successProbability,
+      rating: rateMove(successProbability, best.successProbability),
+    };
+  });
+
+  return { moves, summary: summarizeReview(moves) };
+}
+
+/**
+ * Split the result of a game into luck and decisions. Each move is worth its
+ * success probability in correct guesses: luck is what the draws added on top
+ * of that, and the decision cost is what the moves played gave up against the
+ * best ones.
+ */
+export function summarizeReview(moves: MoveReview[]): ReviewSummary {
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  // Success probabilities count free passes, so luck counts them as correct too
+  const correctGuesses = moves.filter((review) => review.correct || review.passed).length;
+  const expectedCorrectGuesses = sum(moves.map((review) => review.successProbability));
+  const bestCorrectGuesses = sum(moves.map((review) => review.bestSuccessProbability));
+
+  return {
+    moves: moves.length,
+    correctGuesses,
+    expectedCorrectGuesses,
+    bestCorrectGuesses,
+    luck: correctGuesses - expectedCorrectGuesses,
+    decisionCost: bestCorrectGuesses - expectedCorrectGuesses,
+    ratings: {
+      best: moves.filter((review) => review.rating === 'best').length,
+      inaccuracy: moves.filter((review) => review.rating === 'inaccuracy').length,
+      blunder: moves.filter((review) => review.rating === 'blunder').length,
+    },
+  };
+}
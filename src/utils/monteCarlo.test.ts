@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import type { Card } from "../types/CardTypes";
+import type { GameState } from "../types/GameState";
+import { createGame, getLegalMoves } from "./gameEngine";
+import { analyzeMoves, getConfidenceInterval, runSimulation, simulateGame } from "./monteCarlo";
+import { createSeededRandom } from "./random";
+import { DEFAULT_RULES } from "./rules";
+import { getStrategy, strategies } from "./strategies";
+
+const greedy = getStrategy("greedy-probability")!;
+
+// A game with a single active stack and the given cards left to draw
+const setupPosition = (stackCard: Card, drawDeck: Card[]): GameState => {
+  const state = createGame({ seed: 11 });
+  const stacks = state.stacks.map((row) =>
+    row.map((stack) => ({ ...stack, status: "failed" as const })),
+  ) as GameState["stacks"];
+  stacks[0][0] = { cards: [stackCard], status: "active" };
+  return { ...state, stacks, drawDeck };
+};
+
+describe("Monte Carlo Simulation", () => {
+  describe("getConfidenceInterval", () => {
+    it("should contain the observed win rate", () => {
+      const interval = getConfidenceInterval(30, 100);
+
+      expect(interval.lower).toBeLessThan(0.3);
+      expect(interval.upper).toBeGreaterThan(0.3);
+      expect(interval.confidence).toBe(0.95);
+    });
+
+    it("should narrow as more games are played", () => {
+      const small = getConfidenceInterval(30, 100);
+      const large = getConfidenceInterval(300, 1000);
+
+      expect(large.upper - large.lower).toBeLessThan(small.upper - small.lower);
+    });
+
+    it("should stay within 0 and 1", () => {
+      expect(getConfidenceInterval(0, 50).lower).toBe(0);
+      expect(getConfidenceInterval(50, 50).upper).toBe(1);
+    });
+  });
+
+  describe("simulateGame", () => {
+    it("should play until the game is over", () => {
+      const state = createGame({ seed: 21 });
+
+      const game = simulateGame(state, greedy, createSeededRandom(1), 100);
+
+      // Every move draws one card; a loss needs all nine stacks to fail
+      expect(game.gameLength).toBe(game.cardsCleared);
+      expect(game.won || game.gameLength >= 9).toBe(true);
+    });
+
+    it("should stop after maxDepth moves without winning", () => {
+      const game = simulateGame(createGame({ seed: 21 }), greedy, createSeededRandom(1), 2);
+
+      expect(game.gameLength).toBeLessThanOrEqual(2);
+      expect(game.won).toBe(false);
+    });
+  });
+
+  describe("runSimulation", () => {
+    it("should be reproducible with a seed", () => {
+      const config = { iterations: 50, maxDepth: 100, strategy: greedy, seed: 5 };
+
+      expect(runSimulation(null, config)).toEqual(runSimulation(null, config));
+    });
+
+    it("should report the win rate inside its confidence interval", () => {
+      const result = runSimulation(null, { iterations: 200, maxDepth: 100, strategy: greedy, seed: 9 });
+
+      expect(result.iterations).toBe(200);
+      expect(result.winProbability).toBeGreaterThanOrEqual(result.confidenceInterval.lower);
+      expect(result.winProbability).toBeLessThanOrEqual(result.confidenceInterval.upper);
+      expect(result.averageGameLength).toBeGreaterThan(0);
+      expect(result.moveAnalysis).toEqual([]);
+    });
+
+    it("should deal fresh games under the given rules", () => {
+      const rules = { ...DEFAULT_RULES, winCondition: { type: "draw-target" as const, cards: 1 } };
+      const result = runSimulation(null, { iterations: 20, maxDepth: 100, strategy: greedy, seed: 9, rules });
+
+      expect(result.winProbability).toBe(1);
+      expect(result.averageGameLength).toBe(1);
+    });
+
+    it("should reshuffle the unseen cards when simulating from a position", () => {
+      // Only a 3 or a King can follow the 7, so guessing high can win and guessing same never does
+      const state = setupPosition({ suit: "Hearts", rank: "7" }, [
+        { suit: "Clubs", rank: "3" },
+        { suit: "Clubs", rank: "King" },
+      ]);
+
+      const result = runSimulation(state, {
+        iterations: 400,
+        maxDepth: 10,
+        strategy: getStrategy("random")!,
+        moveIterations: 200,
+        seed: 3,
+      });
+
+      const high = result.moveAnalysis.find((analysis) => analysis.move.highLowSame === "high")!;
+      const same = result.moveAnalysis.find((analysis) => analysis.move.highLowSame === "same")!;
+      expect(high.winProbability).toBeGreaterThan(0.1);
+      expect(high.winProbability).toBeLessThan(0.9);
+      expect(high.sampleSize).toBe(200);
+      expect(same.winProbability).toBe(0);
+    });
+
+    it("should flag a lost position as unwinnable", () => {
+      const state = { ...createGame({ seed: 4 }), lost: true };
+
+      const result = runSimulation(state, { iterations: 500, maxDepth: 100, strategy: greedy, seed: 1 });
+
+      expect(result.winProbability).toBe(0);
+      expect(result.unwinnable).toBe(true);
+      expect(result.moveAnalysis).toEqual([]);
+    });
+  });
+
+  describe("analyzeMoves", () => {
+    it("should analyse every legal move, best first", () => {
+      const state = createGame({ seed: 8 });
+
+      const analyses = analyzeMoves(state, { iterations: 54, maxDepth: 100, strategy: greedy, seed: 2 });
+
+      expect(analyses).toHaveLength(getLegalMoves(state).length);
+      for (let i = 1; i < analyses.length; i++) {
+        expect(analyses[i].winProbability).toBeLessThanOrEqual(analyses[i - 1].winProbability);
+      }
+      expect(analyses[0].sampleSize).toBe(2);
+    });
+  });
+
+  describe("strategies", () => {
+    it("should only ever play legal moves", () => {
+      for (const strategy of strategies) {
+        const result = runSimulation(null, { iterations: 5, maxDepth: 100, strategy, seed: 6 });
+        expect(result.iterations).toBe(5);
+      }
+    });
+
+    it("should pick the likeliest guess with greedy-probability", () => {
+      const state = setupPosition({ suit: "Hearts", rank: "4" }, [
+        { suit: "Clubs", rank: "9" },
+        { suit: "Clubs", rank: "2" },
+        { suit: "Spades", rank: "Jack" },
+      ]);
+
+      expect(greedy.makeMove(state, Math.random).highLowSame).toBe("high");
+    });
+  });
+});
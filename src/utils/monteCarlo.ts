@@ -0,0 +1,227 @@
+// Monte Carlo simulation of whole games under a playing strategy
+// (see docs/monte-carlo-analysis.md). Simulations from the current state
+// reshuffle the unseen cards for every game, since a player never knows their order.
+import type { GameState, PlayerMove } from "../types/GameState";
+import type { RuleSet } from "../types/RuleSet";
+import { applyMove, createGame, getLegalMoves, shuffleDeck } from "./gameEngine";
+import { createSeededRandom, generateSeed } from "./random";
+import { runSteps, type Steps } from "./steps";
+import type { Strategy } from "./strategies";
+
+export interface SimulationConfig {
+  iterations: number;      // Number of games to simulate
+  maxDepth: number;        // Stop a game (as not won) after this many moves
+  strategy: Strategy;      // Strategy to test
+  moveIterations?: number; // Games per legal move in moveAnalysis, iterations split across the moves by default
+  seed?: number;           // Makes a run reproducible
+  rules?: RuleSet;         // Rules for freshly dealt games, the default rules if not given
+}
+
+export interface SimulationResult {
+  winProbability: number;      // 0.0 - 1.0
+  averageGameLength: number;   // Average moves to completion
+  confidenceInterval: {        // Statistical confidence bounds
+    lower: number;
+    upper: number;
+    confidence: number;        // 0.95 for 95% confidence
+  };
+  moveAnalysis: MoveAnalysis[]; // Best first; empty when simulating fresh deals
+  unwinnable: boolean;          // No wins, and confidently below 1%
+  iterations: number;
+}
+
+export interface MoveAnalysis {
+  move: PlayerMove;
+  winProbability: number;
+  expectedValue: number;       // Average cards cleared from the deck
+  variance: number;            // Risk measure: variance of the win/loss result
+  sampleSize: number;          // Simulations for this move
+}
+
+export interface SimulatedGame {
+  won: boolean;
+  gameLength: number;   // Moves played
+  cardsCleared: number; // Cards drawn from the deck
+}
+
+const CONFIDENCE = 0.95;
+const Z_SCORE = 1.96;
+
+/**
+ * Wilson score interval for a win rate, which stays inside [0, 1] and
+ * behaves well for rates near 0 or 1 and for small samples.
+ */
+export function getConfidenceInterval(wins: number, games: number): SimulationResult["confidenceInterval"] {
+  if (games === 0) return { lower: 0, upper: 1, confidence: CONFIDENCE };
+
+  const rate = wins / games;
+  const z2 = Z_SCORE * Z_SCORE;
+  const centre = (rate + z2 / (2 * games)) / (1 + z2 / games);
+  const margin =
+    (Z_SCORE / (1 + z2 / games)) * Math.sqrt((rate * (1 - rate)) / games + z2 / (4 * games * games));
+
+  return {
+    lower: Math.max(0, centre - margin),
+    upper: Math.min(1, centre + margin),
+    confidence: CONFIDENCE,
+  };
+}
+
+// The same position with the unseen cards in a new random order
+const reshuffle = (state: GameState, random: () => number): GameState => ({
+  ...state,
+  drawDeck: shuffleDeck(state.drawDeck, random),
+});
+
+/**
+ * Play one game to the end with a strategy
+ * @param firstMove played before handing over to the strategy
+ */
+export function simulateGame(
+  initialState: GameState,
+  strategy: Strategy,
+  random: () => number,
+  maxDepth: number,
+  firstMove?: PlayerMove,
+): SimulatedGame {
+  let state = initialState;
+  let gameLength = 0;
+
+  while (!state.won && !state.lost && state.drawDeck.length > 0 && gameLength < maxDepth) {
+    const move = gameLength === 0 && firstMove ? firstMove : strategy.makeMove(state, random);
+    ({ state } = applyMove(state, move));
+    gameLength++;
+  }
+
+  return {
+    won: state.won,
+    gameLength,
+    cardsCleared: initialState.drawDeck.length - state.drawDeck.length,
+  };
+}
+
+const summarize = (games: SimulatedGame[]) => {
+  const wins = games.filter((game) => game.won).length;
+  const winProbability = games.length > 0 ? wins / games.length : 0;
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+
+  return {
+    wins,
+    winProbability,
+    averageGameLength: average(games.map((game) => game.gameLength)),
+    expectedValue: average(games.map((game) => game.cardsCleared)),
+    variance: winProbability * (1 - winProbability),
+  };
+};
+
+const SIMULATION_BATCH_SIZE = 100;
+
+// Games per legal move in a move analysis
+const getMoveSampleSize = (config: SimulationConfig, moveCount: number) =>
+  config.moveIterations ?? Math.max(1, Math.ceil(config.iterations / Math.max(moveCount, 1)));
+
+const byWinProbability = (a: MoveAnalysis, b: MoveAnalysis) =>
+  b.winProbability - a.winProbability || b.expectedValue - a.expectedValue;
+
+/**
+ * Simulate each legal move from a state many times, then play on with the strategy.
+ * Yields the moves analysed so far after each move; progress counts games.
+ */
+export function* analyzeMovesSteps(
+  state: GameState,
+  config: SimulationConfig,
+  random: () => number = createSeededRandom(config.seed ?? generateSeed()),
+): Steps<MoveAnalysis[], MoveAnalysis[]> {
+  const moves = getLegalMoves(state);
+  const sampleSize = getMoveSampleSize(config, moves.length);
+  const analyses: MoveAnalysis[] = [];
+
+  for (const move of moves) {
+    const games = Array.from({ length: sampleSize }, () =>
+      simulateGame(reshuffle(state, random), config.strategy, random, config.maxDepth, move),
+    );
+    const { winProbability, expectedValue, variance } = summarize(games);
+    analyses.push({ move, winProbability, expectedValue, variance, sampleSize });
+    yield {
+      completed: analyses.length * sampleSize,
+      total: moves.length * sampleSize,
+      partial: [...analyses].sort(byWinProbability),
+    };
+  }
+
+  return analyses.sort(byWinProbability);
+}
+
+/**
+ * Simulate each legal move from a state many times, then play on with the strategy
+ * @returns one analysis per legal move, best first
+ */
+export function analyzeMoves(
+  state: GameState,
+  config: SimulationConfig,
+  random?: () => number,
+): MoveAnalysis[] {
+  return runSteps(analyzeMovesSteps(state, config, random));
+}
+
+/**
+ * Simulate many games under a strategy, yielding the result so far after every
+ * batch of games and then after every analysed move
+ * @param state the position to play from, or null to deal a fresh game for every simulation
+ */
+export function* runSimulationSteps(
+  state: GameState | null,
+  config: SimulationConfig,
+): Steps<SimulationResult, SimulationResult> {
+  const random = createSeededRandom(config.seed ?? generateSeed());
+  const dealGame = () =>
+    state ? reshuffle(state, random) : createGame({ seed: Math.floor(random() * 0x100000000), rules: config.rules });
+
+  const games: SimulatedGame[] = [];
+  let moveAnalysis: MoveAnalysis[] = [];
+  const buildResult = (): SimulationResult => {
+    const { wins, winProbability, averageGameLength } = summarize(games);
+    const confidenceInterval = getConfidenceInterval(wins, games.length);
+    return {
+      winProbability,
+      averageGameLength,
+      confidenceInterval,
+      moveAnalysis,
+      unwinnable: wins === 0 && confidenceInterval.upper < 0.01,
+      iterations: games.length,
+    };
+  };
+
+  const moveCount = state ? getLegalMoves(state).length : 0;
+  const total = config.iterations + moveCount * getMoveSampleSize(config, moveCount);
+
+  while (games.length < config.iterations) {
+    const batch = Math.min(SIMULATION_BATCH_SIZE, config.iterations - games.length);
+    for (let i = 0; i < batch; i++) {
+      games.push(simulateGame(dealGame(), config.strategy, random, config.maxDepth));
+    }
+    yield { completed: games.length, total, partial: buildResult() };
+  }
+
+  if (state) {
+    const steps = analyzeMovesSteps(state, config, random);
+    let step = steps.next();
+    while (!step.done) {
+      moveAnalysis = step.value.partial;
+      yield { completed: config.iterations + step.value.completed, total, partial: buildResult() };
+      step = steps.next();
+    }
+    moveAnalysis = step.value;
+  }
+
+  return buildResult();
+}
+
+/**
+ * Simulate many games under a strategy
+ * @param state the position to play from, or null to deal a fresh game for every simulation
+ */
+export function runSimulation(state: GameState | null, config: SimulationConfig): SimulationResult {
+  return runSteps(runSimulationSteps(state, config));
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { Card } from "../types/CardTypes";
+import type { GameState } from "../types/GameState";
+import { createGame } from "./gameEngine";
+import { suggestMove } from "./moveSuggestions";
+import { solveGame } from "./solver";
+
+// A game where only the given stacks are active and the given cards are left to draw
+const setupPosition = (stackCards: (Card | null)[], drawDeck: Card[]): GameState => {
+  const state = createGame({ seed: 17 });
+  const stacks = state.stacks.map((row, rowIndex) =>
+    row.map((stack, columnIndex) => {
+      const card = stackCards[rowIndex * 3 + columnIndex];
+      return card ? { cards: [card], status: "active" as const } : { ...stack, status: "failed" as const };
+    }),
+  ) as GameState["stacks"];
+  return { ...state, stacks, drawDeck };
+};
+
+const card = (rank: Card["rank"], suit: Card["suit"] = "Clubs"): Card => ({ suit, rank });
+
+describe("Move Suggestions", () => {
+  it("should pick the guess most likely to succeed across the whole grid", () => {
+    const state = setupPosition(
+      [card("7"), null, null, null, card("2", "Hearts")],
+      [card("9"), card("4"), card("Jack"), card("King")],
+    );
+
+    const suggestion = suggestMove(state, "draw-success");
+
+    expect(suggestion).toMatchObject({
+      move: { stackRow: 2, stackColumn: 2, highLowSame: "high" },
+      probability: 1,
+      exact: true,
+    });
+  });
+
+  it("should use the exact solver for win probability when the position is small", () => {
+    const state = setupPosition(
+      [card("5"), card("Queen")],
+      [card("3"), card("8"), card("Jack"), card("Ace"), card("5", "Hearts")],
+    );
+
+    const suggestion = suggestMove(state, "win-probability")!;
+
+    expect(suggestion.exact).toBe(true);
+    expect(suggestion.probability).toBeCloseTo(solveGame(state).winProbability, 10);
+  });
+
+  it("should estimate win probability when the position is too big to solve", () => {
+    const state = createGame({ seed: 2 });
+    const suggestion = suggestMove(state, "win-probability", { maxStates: 100 })!;
+
+    expect(suggestion.exact).toBe(false);
+    expect(suggestion.ranking).toBe("win-probability");
+    expect(suggestion.probability).toBeGreaterThan(0);
+    expect(suggestion.probability).toBeLessThan(1);
+    expect(suggestMove(state, "win-probability", { maxStates: 100 })).toEqual(suggestion);
+  });
+
+  it("should suggest nothing once the game is over", () => {
+    const state = { ...createGame({ seed: 3 }), lost: true };
+
+    expect(suggestMove(state, "draw-success")).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+// Pick the single best move on the board for EZ-EZ Mode
+import type { GameState, PlayerMove } from "../types/GameState";
+import { createSolver } from "./solver";
+import { runSteps, type Steps } from "./steps";
+import { getMoveProbabilities } from "./strategies";
+
+export type SuggestionRanking = 'draw-success' | 'win-probability';
+
+export interface MoveSuggestion {
+  move: PlayerMove;
+  probability: number;          // Chance the draw succeeds, or of winning the game, depending on the ranking
+  ranking: SuggestionRanking;
+  exact: boolean;               // False when the win probability is an estimate
+}
+
+export interface SuggestionOptions {
+  maxStates?: number; // Solver budget before estimating the win probability
+}
+
+/**
+ * Find the best move step by step, yielding the best suggestion so far
+ * @see suggestMove
+ */
+export function* suggestMoveSteps(
+  state: GameState,
+  ranking: SuggestionRanking,
+  options: SuggestionOptions = {},
+): Steps<MoveSuggestion | null, MoveSuggestion | null> {
+  const moves = getMoveProbabilities(state);
+  if (moves.length === 0) return null;
+
+  if (ranking === 'draw-success') {
+    const best = moves.reduce((best, candidate) =>
+      candidate.successProbability > best.successProbability ? candidate : best,
+    );
+    return { move: best.move, probability: best.successProbability, ranking, exact: true };
+  }
+
+  const steps = createSolver({ maxStates: options.maxStates ?? 50_000 }).solveGameSteps(state);
+  let step = steps.next();
+  while (!step.done) {
+    const [best] = step.value.partial;
+    yield {
+      ...step.value,
+      partial: { move: best.move, probability: best.winProbability, ranking, exact: false },
+    };
+    step = steps.next();
+  }
+  const { bestMove, winProbability, exact } = step.value;
+  return bestMove && { move: bestMove, probability: winProbability, ranking, exact };
+}
+
+/**
+ * The best move across the whole grid, or null once the game is over.
+ * 'draw-success' picks the guess most likely to match the next draw;
+ * 'win-probability' asks the solver, which estimates positions too big to
+ * solve exactly.
+ */
+export function suggestMove(
+  state: GameState,
+  ranking: SuggestionRanking,
+  options: SuggestionOptions = {},
+): MoveSuggestion | null {
+  return runSteps(suggestMoveSteps(state, ranking, options));
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import type { Card } from "../types/CardTypes";
+import { calculateProbabilities, getCardCounts } from "./probabilityCalculations";
+import { DEFAULT_RULES } from "./rules";
+
+const card = (rank: Card["rank"], suit: Card["suit"] = "Spades"): Card => ({ suit, rank });
+
+describe("Probability Calculations", () => {
+  // One lower card, two ties and one higher card against a 7
+  const remaining = [card("2"), card("7", "Hearts"), card("7", "Clubs"), card("King")];
+
+  it("should give the odds of each guess with ties failing the stack", () => {
+    expect(calculateProbabilities(card("7"), remaining)).toEqual({ higher: 0.25, lower: 0.25, same: 0.5, total: 4 });
+  });
+
+  it("should count ties for higher and lower under the lenient tie rules", () => {
+    for (const tieRule of ["free-pass", "counts-both"] as const) {
+      expect(calculateProbabilities(card("7"), remaining, { ...DEFAULT_RULES, tieRule })).toEqual({
+        higher: 0.75,
+        lower: 0.75,
+        same: 0.5,
+        total: 4,
+      });
+    }
+  });
+
+  it("should follow the rank order", () => {
+    const aces = [card("Ace", "Hearts"), card("2"), card("Queen")];
+
+    expect(calculateProbabilities(card("King"), aces, { ...DEFAULT_RULES, rankOrder: "ace-low" }).higher).toBe(0);
+    expect(calculateProbabilities(card("Jack"), aces, { ...DEFAULT_RULES, rankOrder: "face-equal" }).same).toBeCloseTo(1 / 3);
+    expect(calculateProbabilities(card("Ace"), aces, { ...DEFAULT_RULES, rankOrder: "ace-both" })).toMatchObject({
+      higher: 2 / 3,
+      lower: 2 / 3,
+      same: 1 / 3,
+    });
+    expect(getCardCounts([], "piquet", "ace-low")[0].rank).toBe("Ace");
+  });
+});
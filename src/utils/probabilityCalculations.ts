@@ -1,43 +1,26 @@
 import type { Card, CardRank } from "../types/CardTypes";
 import type { ProbabilityCalculation, CardCount, Stacks } from "../types/GameState";
-
-// Map card ranks to numerical values for comparison
-export function getRankValue(rank: CardRank): number {
-  switch (rank) {
-    case "2": return 2;
-    case "3": return 3;
-    case "4": return 4;
-    case "5": return 5;
-    case "6": return 6;
-    case "7": return 7;
-    case "8": return 8;
-    case "9": return 9;
-    case "10": return 10;
-    case "Jack": return 11;
-    case "Queen": return 12;
-    case "King": return 13;
-    case "Ace": return 14;
-  }
-}
+import type { DeckType, RankOrder, RuleSet } from "../types/RuleSet";
+import { DEFAULT_RULES, getDeckRanks, keepsStackAlive, type GuessRules } from "./rules";
 
 // Get all ranks in order
 export function getAllRanks(): CardRank[] {
   return ["2", "3", "4", "5", "6", "7", "8", "9", "10", "Jack", "Queen", "King", "Ace"];
 }
 
-// Generate a full 52-card deck
-export function generateFullDeck(): Card[] {
+// Generate every card of a deck, 52 for the standard one
+export function generateFullDeck(deck: DeckType = "standard"): Card[] {
   const suits = ["Hearts", "Diamonds", "Clubs", "Spades"] as const;
-  const ranks = getAllRanks();
-  const deck: Card[] = [];
+  const ranks = getDeckRanks(deck);
+  const cards: Card[] = [];
   
   for (const suit of suits) {
     for (const rank of ranks) {
-      deck.push({ suit, rank });
+      cards.push({ suit, rank });
     }
   }
   
-  return deck;
+  return cards;
 }
 
 // Get all visible cards from stacks (including cards underneath)
@@ -55,8 +38,8 @@ export function getAllVisibleCards(stacks: Stacks): Card[] {
 }
 
 // Get remaining cards in deck based on seen cards
-export function getRemainingCards(seenCards: Card[]): Card[] {
-  const fullDeck = generateFullDeck();
+export function getRemainingCards(seenCards: Card[], deck: DeckType = "standard"): Card[] {
+  const fullDeck = generateFullDeck(deck);
   
   // Remove seen cards
   const remaining = fullDeck.filter(card => {
@@ -68,9 +51,9 @@ export function getRemainingCards(seenCards: Card[]): Card[] {
   return remaining;
 }
 
-// Calculate card counts for each rank
-export function getCardCounts(seenCards: Card[]): CardCount[] {
-  const ranks = getAllRanks();
+// Calculate card counts for each rank in the deck, lowest rank first
+export function getCardCounts(seenCards: Card[], deck: DeckType = "standard", rankOrder: RankOrder = "ace-high"): CardCount[] {
+  const ranks = getDeckRanks(deck, rankOrder);
   const cardCounts: CardCount[] = [];
   
   for (const rank of ranks) {
@@ -89,19 +72,18 @@ export function getCardCounts(seenCards: Card[]): CardCount[] {
   return cardCounts;
 }
 
-// Calculate probabilities for Higher/Lower/Same outcomes
-export function calculateProbabilities(currentCard: Card, remainingCards: Card[]): ProbabilityCalculation {
-  const currentRank = getRankValue(currentCard.rank);
-  
+// Calculate the chance that a Higher/Lower/Same guess keeps the stack alive.
+// Under ace-both or a lenient tie rule one card can keep it alive for more
+// than one guess, so they may add up to more than 1.
+export function calculateProbabilities(currentCard: Card, remainingCards: Card[], rules: GuessRules = DEFAULT_RULES): ProbabilityCalculation {
   let higher = 0;
   let lower = 0;
   let same = 0;
   
   remainingCards.forEach(card => {
-    const cardRank = getRankValue(card.rank);
-    if (cardRank > currentRank) higher++;
-    else if (cardRank < currentRank) lower++;
-    else same++;
+    if (keepsStackAlive(card, currentCard, "high", rules)) higher++;
+    if (keepsStackAlive(card, currentCard, "low", rules)) lower++;
+    if (keepsStackAlive(card, currentCard, "same", rules)) same++;
   });
   
   const total = remainingCards.length;
@@ -127,17 +109,17 @@ export function formatProbability(probability: number): string {
   return `${Math.round(probability * 100)}%`;
 }
 
-// Calculate probabilities for a specific stack's top card
-export function calculateStackProbabilities(stacks: Stacks, stackRow: number, stackColumn: number, drawDeckLength: number): ProbabilityCalculation | null {
-  const stack = stacks[stackRow - 1][stackColumn - 1];
+// Calculate probabilities for a specific stack's top card under the game's rules
+export function calculateStackProbabilities(stacks: Stacks, stackRow: number, stackColumn: number, drawDeckLength: number, rules: RuleSet = DEFAULT_RULES): ProbabilityCalculation | null {
+  const stack = stacks[stackRow - 1]?.[stackColumn - 1];
   
-  if (stack.cards.length === 0 || stack.status === "failed") {
+  if (!stack || stack.cards.length === 0 || stack.status === "failed") {
     return null;
   }
   
   const topCard = stack.cards[stack.cards.length - 1];
   const allVisibleCards = getAllVisibleCards(stacks);
-  const remainingCards = getRemainingCards(allVisibleCards);
+  const remainingCards = getRemainingCards(allVisibleCards, rules.deck);
   
-  return calculateProbabilities(topCard, remainingCards);
+  return calculateProbabilities(topCard, remainingCards, rules);
 }
\ No newline at end of file
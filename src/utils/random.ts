@@ -0,0 +1,36 @@
+// Seeded pseudo-random number generation so that deals can be reproduced
+
+const MAX_SEED = 0xffffffff;
+
+// Create a deterministic random number generator (mulberry32) from a 32-bit seed.
+// Returns numbers in [0, 1) just like Math.random.
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Generate a fresh seed for a game that was started without one
+export function generateSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED) >>> 0;
+}
+
+// Parse a user supplied seed (from a text field or the command line).
+// Returns null when the input is empty or not a valid unsigned 32-bit integer.
+export function parseSeed(input: string | null | undefined): number | null {
+  if (input === null || input === undefined) return null;
+
+  const trimmed = input.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+
+  const seed = Number(trimmed);
+  if (!Number.isSafeInteger(seed) || seed > MAX_SEED) return null;
+
+  return seed;
+}
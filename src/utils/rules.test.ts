@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import type { RankOrder, RuleSet, TieRule } from "../types/RuleSet";
+import { createEmptyStacks } from "./gameEngine";
+import {
+  createDeck,
+  DEFAULT_RULES,
+  describeRuleSet,
+  formatRuleSet,
+  getDeckRanks,
+  getGameStatus,
+  getRankValue,
+  InvalidRulesError,
+  isCorrectGuess,
+  isDefaultRules,
+  isFreePass,
+  keepsStackAlive,
+  parseRuleSet,
+  validateRuleSet,
+} from "./rules";
+
+const ranked = (rankOrder: RankOrder): RuleSet => ({ ...DEFAULT_RULES, rankOrder });
+const tied = (tieRule: TieRule): RuleSet => ({ ...DEFAULT_RULES, tieRule });
+
+describe("Rule Sets", () => {
+  it("should build each deck from its ranks", () => {
+    expect(createDeck("standard")).toHaveLength(52);
+    expect(createDeck("standard")[0]).toEqual({ suit: "Hearts", rank: "Ace" });
+    expect(createDeck("short")).toHaveLength(36);
+    expect(createDeck("piquet")).toHaveLength(32);
+    expect(getDeckRanks("short")).toEqual(["6", "7", "8", "9", "10", "Jack", "Queen", "King", "Ace"]);
+  });
+
+  it("should round-trip the text form and default what is left out", () => {
+    const rules: RuleSet = {
+      rows: 3,
+      columns: 4,
+      deck: "short",
+      rankOrder: "ace-low",
+      tieRule: "free-pass",
+      winCondition: { type: "clear-deck", minStacks: 2 },
+    };
+
+    expect(formatRuleSet(rules)).toBe("grid=3x4 deck=short ranks=ace-low ties=free-pass win=clear-deck:2");
+    expect(parseRuleSet(formatRuleSet(rules))).toEqual(rules);
+    expect(parseRuleSet("")).toEqual(DEFAULT_RULES);
+    expect(parseRuleSet("win=draw-target:20")).toEqual({ ...DEFAULT_RULES, winCondition: { type: "draw-target", cards: 20 } });
+    expect(isDefaultRules(parseRuleSet("grid=3x3 deck=standard"))).toBe(true);
+  });
+
+  it("should compare ranks under each rank order", () => {
+    const ace = { suit: "Spades", rank: "Ace" } as const;
+    const two = { suit: "Hearts", rank: "2" } as const;
+    const jack = { suit: "Clubs", rank: "Jack" } as const;
+    const king = { suit: "Hearts", rank: "King" } as const;
+
+    expect(isCorrectGuess(ace, two, "high")).toBe(true);
+    expect(isCorrectGuess(ace, two, "low", ranked("ace-low"))).toBe(true);
+    expect(isCorrectGuess(ace, two, "high", ranked("ace-both"))).toBe(true);
+    expect(isCorrectGuess(two, ace, "high", ranked("ace-both"))).toBe(true);
+    expect(isCorrectGuess(two, ace, "low", ranked("ace-both"))).toBe(true);
+    expect(isCorrectGuess(ace, ace, "same", ranked("ace-both"))).toBe(true);
+    expect(isCorrectGuess(ace, ace, "high", ranked("ace-both"))).toBe(false);
+    expect(isCorrectGuess(king, jack, "same", ranked("face-equal"))).toBe(true);
+    expect(isCorrectGuess(king, jack, "high", ranked("face-equal"))).toBe(false);
+    expect(isCorrectGuess(ace, king, "high", ranked("face-equal"))).toBe(true);
+    expect(getRankValue("Ace", "ace-low")).toBeLessThan(getRankValue("2", "ace-low"));
+    expect(getDeckRanks("piquet", "ace-low")).toEqual(["Ace", "7", "8", "9", "10", "Jack", "Queen", "King"]);
+  });
+
+  it("should settle ties by the tie rule", () => {
+    const seven = { suit: "Spades", rank: "7" } as const;
+    const otherSeven = { suit: "Hearts", rank: "7" } as const;
+
+    expect(keepsStackAlive(seven, otherSeven, "high")).toBe(false);
+    expect(isCorrectGuess(seven, otherSeven, "high", tied("free-pass"))).toBe(false);
+    expect(isFreePass(seven, otherSeven, "high", tied("free-pass"))).toBe(true);
+    expect(isFreePass(seven, otherSeven, "same", tied("free-pass"))).toBe(false);
+    expect(isCorrectGuess(seven, otherSeven, "same", tied("free-pass"))).toBe(true);
+    expect(isCorrectGuess(seven, otherSeven, "low", tied("counts-both"))).toBe(true);
+    expect(isFreePass(seven, otherSeven, "low", tied("counts-both"))).toBe(false);
+    expect(keepsStackAlive({ suit: "Hearts", rank: "2" }, seven, "high", tied("free-pass"))).toBe(false);
+  });
+
+  it("should reject rules that cannot be played", () => {
+    expect(() => parseRuleSet("grid=6x1")).toThrow(InvalidRulesError);
+    expect(() => parseRuleSet("grid=three")).toThrow(/Invalid grid/);
+    expect(() => parseRuleSet("deck=tarot")).toThrow(/Unknown deck/);
+    expect(() => parseRuleSet("colour=red")).toThrow(/Unknown rule/);
+    expect(() => parseRuleSet("ranks=joker-high")).toThrow(/Unknown rank order/);
+    expect(() => parseRuleSet("ties=reshuffle")).toThrow(/Unknown tie rule/);
+    expect(() => parseRuleSet("grid=2x2 win=clear-deck:5")).toThrow(/between 1 and 4/);
+    expect(() => parseRuleSet("deck=piquet win=draw-target:24")).toThrow(/between 1 and 23 cards/);
+    expect(validateRuleSet(DEFAULT_RULES)).toBe(DEFAULT_RULES);
+  });
+
+  it("should decide wins and losses by the win condition", () => {
+    const stacks = createEmptyStacks();
+    stacks[0][0] = { cards: [], status: "failed" };
+    const keepAll: RuleSet = { ...DEFAULT_RULES, winCondition: { type: "clear-deck", minStacks: 9 } };
+    const drawTen: RuleSet = { ...DEFAULT_RULES, winCondition: { type: "draw-target", cards: 10 } };
+
+    expect(getGameStatus(DEFAULT_RULES, stacks, 0)).toEqual({ won: true, lost: false });
+    expect(getGameStatus(DEFAULT_RULES, stacks, 1)).toEqual({ won: false, lost: false });
+    expect(getGameStatus(keepAll, stacks, 5)).toEqual({ won: false, lost: true });
+    expect(getGameStatus(drawTen, stacks, 33)).toEqual({ won: true, lost: false });
+    expect(getGameStatus(drawTen, stacks, 34)).toEqual({ won: false, lost: false });
+  });
+
+  it("should describe a rule set in plain words", () => {
+    expect(describeRuleSet(DEFAULT_RULES)).toBe("3x3 grid, 52-card deck, clear the deck");
+    expect(describeRuleSet(parseRuleSet("grid=2x2 deck=piquet win=clear-deck:2"))).toBe(
+      "2x2 grid, 32-card deck, clear the deck keeping 2 stacks standing",
+    );
+    expect(describeRuleSet(parseRuleSet("ranks=ace-both ties=counts-both"))).toBe(
+      "3x3 grid, 52-card deck, Aces high and low, ties count as higher and lower, clear the deck",
+    );
+  });
+});
@@ -0,0 +1,309 @@
+// Rule sets: the grid of stacks, the deck, how ranks compare, what a tie does
+// and what it takes to win. The engine, solver and records all read the rules
+// from the game, never assume 3x3 or Aces high.
+import type { Card, CardRank, CardSuit } from "../types/CardTypes";
+import type { PlayerMove, Stacks } from "../types/GameState";
+import type { DeckType, RankOrder, RuleSet, TieRule } from "../types/RuleSet";
+
+export class InvalidRulesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRulesError";
+  }
+}
+
+// The classic game: nine stacks, a full deck, clear it with any stack standing
+export const DEFAULT_RULES: RuleSet = {
+  rows: 3,
+  columns: 3,
+  deck: "standard",
+  rankOrder: "ace-high",
+  tieRule: "fail",
+  winCondition: { type: "clear-deck", minStacks: 1 },
+};
+
+export const MAX_GRID_SIZE = 5;
+
+export const DECK_TYPES: DeckType[] = ["standard", "short", "piquet"];
+
+export const RANK_ORDERS: RankOrder[] = ["ace-high", "ace-low", "ace-both", "face-equal"];
+
+export const TIE_RULES: TieRule[] = ["fail", "free-pass", "counts-both"];
+
+// The parts of the rules that decide how a guess turns out
+export type GuessRules = Pick<RuleSet, "rankOrder" | "tieRule">;
+
+const SUITS: CardSuit[] = ["Hearts", "Diamonds", "Clubs", "Spades"];
+// In the order the engine has always built its deck in, so seeds keep their deals
+const DECK_ORDER: CardRank[] = ["Ace", "2", "3", "4", "5", "6", "7", "8", "9", "10", "Jack", "Queen", "King"];
+
+const lowestRank: Record<DeckType, CardRank> = {
+  standard: "2",
+  short: "6",
+  piquet: "7",
+};
+
+const isInDeck = (deck: DeckType, rank: CardRank) =>
+  rank === "Ace" || DECK_ORDER.indexOf(rank) >= DECK_ORDER.indexOf(lowestRank[deck]);
+
+const rankValues: Record<CardRank, number> = {
+  "2": 2,
+  "3": 3,
+  "4": 4,
+  "5": 5,
+  "6": 6,
+  "7": 7,
+  "8": 8,
+  "9": 9,
+  "10": 10,
+  Jack: 11,
+  Queen: 12,
+  King: 13,
+  Ace: 14,
+};
+
+/**
+ * The value of a rank under a rank order, for comparing cards. Under ace-both
+ * the Ace is valued high; isCorrectGuess handles its wrap-around.
+ */
+export function getRankValue(rank: CardRank, rankOrder: RankOrder = "ace-high"): number {
+  if (rank === "Ace" && rankOrder === "ace-low") return 1;
+  if (rankOrder === "face-equal" && (rank === "Queen" || rank === "King")) return rankValues.Jack;
+  return rankValues[rank];
+}
+
+/**
+ * Compares the ranks of two cards.
+ * Returns 1 if card1 is higher, -1 if card2 is higher, and 0 if they are equal.
+ * @param card1 the first card to compare
+ * @param card2 the second card to compare
+ * @param rankOrder how ranks compare, Aces high by default
+ * @returns  number indicating the comparison result
+ */
+export const compareRanks = (card1: Card, card2: Card, rankOrder: RankOrder = "ace-high"): number =>
+  Math.sign(getRankValue(card1.rank, rankOrder) - getRankValue(card2.rank, rankOrder));
+
+/**
+ * Whether a guess about the drawn card is correct for the given stack card
+ * @param drawnCard the card drawn from the deck
+ * @param stackCard the top card of the stack being played on
+ * @param highLowSame the player's guess
+ * @param rules the rank order and tie rule, the classic ones by default
+ */
+export const isCorrectGuess = (
+  drawnCard: Card,
+  stackCard: Card,
+  highLowSame: PlayerMove["highLowSame"],
+  rules: GuessRules = DEFAULT_RULES,
+): boolean => {
+  const { rankOrder, tieRule } = rules;
+  // An Ace against any other rank is both higher and lower
+  if (rankOrder === "ace-both" && highLowSame !== "same" && (drawnCard.rank === "Ace") !== (stackCard.rank === "Ace")) {
+    return true;
+  }
+  const comparison = compareRanks(drawnCard, stackCard, rankOrder);
+  if (comparison === 0 && tieRule === "counts-both") return true;
+  const predictedResult =
+    highLowSame === "high" ? 1 : highLowSame === "low" ? -1 : 0;
+  return comparison === predictedResult;
+};
+
+/**
+ * Whether a higher or lower guess hit a tie that the free-pass rule lets the stack survive
+ */
+export const isFreePass = (
+  drawnCard: Card,
+  stackCard: Card,
+  highLowSame: PlayerMove["highLowSame"],
+  rules: GuessRules = DEFAULT_RULES,
+): boolean =>
+  rules.tieRule === "free-pass" &&
+  highLowSame !== "same" &&
+  compareRanks(drawnCard, stackCard, rules.rankOrder) === 0;
+
+/**
+ * Whether the stack stays active after a guess: it was correct, or a free pass.
+ * Odds, hints and the solver all go by this.
+ */
+export const keepsStackAlive = (
+  drawnCard: Card,
+  stackCard: Card,
+  highLowSame: PlayerMove["highLowSame"],
+  rules: GuessRules = DEFAULT_RULES,
+): boolean =>
+  isCorrectGuess(drawnCard, stackCard, highLowSame, rules) || isFreePass(drawnCard, stackCard, highLowSame, rules);
+
+/**
+ * The ranks in a deck, lowest to highest under the rank order (2 to Ace by default)
+ */
+export function getDeckRanks(deck: DeckType, rankOrder: RankOrder = "ace-high"): CardRank[] {
+  return [...DECK_ORDER.slice(1), "Ace" as const]
+    .filter((rank) => isInDeck(deck, rank))
+    .sort((a, b) => getRankValue(a, rankOrder) - getRankValue(b, rankOrder));
+}
+
+/**
+ * Every card of a deck, unshuffled
+ */
+export function createDeck(deck: DeckType): Card[] {
+  return SUITS.flatMap((suit) =>
+    DECK_ORDER.filter((rank) => isInDeck(deck, rank)).map((rank) => ({ suit, rank })),
+  );
+}
+
+export const getDeckSize = (deck: DeckType) => getDeckRanks(deck).length * SUITS.length;
+
+export const getStackCount = (rules: RuleSet) => rules.rows * rules.columns;
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+/**
+ * Check that a rule set can be played
+ * @throws InvalidRulesError describing the first problem found
+ */
+export function validateRuleSet(rules: RuleSet): RuleSet {
+  if (!isWholeNumber(rules.rows, 1, MAX_GRID_SIZE) || !isWholeNumber(rules.columns, 1, MAX_GRID_SIZE)) {
+    throw new InvalidRulesError(`The grid must have 1 to ${MAX_GRID_SIZE} rows and columns`);
+  }
+  if (!DECK_TYPES.includes(rules.deck)) {
+    throw new InvalidRulesError(`Unknown deck "${rules.deck}"; use one of ${DECK_TYPES.join(", ")}`);
+  }
+  if (!RANK_ORDERS.includes(rules.rankOrder)) {
+    throw new InvalidRulesError(`Unknown rank order "${rules.rankOrder}"; use one of ${RANK_ORDERS.join(", ")}`);
+  }
+  if (!TIE_RULES.includes(rules.tieRule)) {
+    throw new InvalidRulesError(`Unknown tie rule "${rules.tieRule}"; use one of ${TIE_RULES.join(", ")}`);
+  }
+
+  const stacks = getStackCount(rules);
+  const draws = getDeckSize(rules.deck) - stacks;
+  if (draws < 1) {
+    throw new InvalidRulesError(`A ${rules.deck} deck is too small for ${stacks} stacks`);
+  }
+
+  const { winCondition } = rules;
+  if (winCondition?.type === "clear-deck") {
+    if (!isWholeNumber(winCondition.minStacks, 1, stacks)) {
+      throw new InvalidRulesError(`Stacks that must stand has to be between 1 and ${stacks}`);
+    }
+  } else if (winCondition?.type === "draw-target") {
+    if (!isWholeNumber(winCondition.cards, 1, draws)) {
+      throw new InvalidRulesError(`The draw target has to be between 1 and ${draws} cards`);
+    }
+  } else {
+    throw new InvalidRulesError("Unknown win condition");
+  }
+  return rules;
+}
+
+export function isDefaultRules(rules: RuleSet): boolean {
+  return formatRuleSet(rules) === formatRuleSet(DEFAULT_RULES);
+}
+
+// Fewest active stacks the player can have and still be in the game
+export const getMinStacks = (rules: RuleSet) =>
+  rules.winCondition.type === "clear-deck" ? rules.winCondition.minStacks : 1;
+
+// Cards still in the deck when the game is won: none unless there is a draw target
+export const getCardsLeftAtWin = (rules: RuleSet) =>
+  rules.winCondition.type === "draw-target"
+    ? getDeckSize(rules.deck) - getStackCount(rules) - rules.winCondition.cards
+    : 0;
+
+/**
+ * Whether the game is won or lost after a move
+ */
+export function getGameStatus(rules: RuleSet, stacks: Stacks, cardsLeft: number): { won: boolean; lost: boolean } {
+  const standing = stacks.flat().filter((stack) => stack.status === "active").length;
+  const lost = standing < getMinStacks(rules);
+  return { won: !lost && cardsLeft <= getCardsLeftAtWin(rules), lost };
+}
+
+/**
+ * Compact text form, e.g. "grid=3x4 deck=short ranks=ace-low ties=free-pass win=clear-deck:2"
+ */
+export function formatRuleSet(rules: RuleSet): string {
+  const { winCondition } = rules;
+  const win =
+    winCondition.type === "clear-deck" ? `clear-deck:${winCondition.minStacks}` : `draw-target:${winCondition.cards}`;
+  return `grid=${rules.rows}x${rules.columns} deck=${rules.deck} ranks=${rules.rankOrder} ties=${rules.tieRule} win=${win}`;
+}
+
+/**
+ * Parse the text form written by formatRuleSet. Settings that are left out
+ * keep their default value.
+ * @throws InvalidRulesError when a setting is malformed or the rules cannot be played
+ */
+export function parseRuleSet(text: string): RuleSet {
+  const rules: RuleSet = { ...DEFAULT_RULES };
+
+  for (const token of text.trim().split(/\s+/).filter(Boolean)) {
+    const [key, value = ""] = token.split("=");
+    switch (key) {
+      case "grid": {
+        const grid = value.match(/^(\d+)x(\d+)$/);
+        if (!grid) throw new InvalidRulesError(`Invalid grid "${value}"; use rows x columns, e.g. 3x4`);
+        rules.rows = Number(grid[1]);
+        rules.columns = Number(grid[2]);
+        break;
+      }
+      case "deck":
+        rules.deck = value as DeckType;
+        break;
+      case "ranks":
+        rules.rankOrder = value as RankOrder;
+        break;
+      case "ties":
+        rules.tieRule = value as TieRule;
+        break;
+      case "win": {
+        const win = value.match(/^(clear-deck|draw-target):(\d+)$/);
+        if (!win) throw new InvalidRulesError(`Invalid win condition "${value}"; use clear-deck:<stacks> or draw-target:<cards>`);
+        rules.winCondition =
+          win[1] === "clear-deck"
+            ? { type: "clear-deck", minStacks: Number(win[2]) }
+            : { type: "draw-target", cards: Number(win[2]) };
+        break;
+      }
+      default:
+        throw new InvalidRulesError(`Unknown rule "${key}"`);
+    }
+  }
+
+  return validateRuleSet(rules);
+}
+
+const rankOrderNames: Record<RankOrder, string> = {
+  "ace-high": "Aces high",
+  "ace-low": "Aces low",
+  "ace-both": "Aces high and low",
+  "face-equal": "face cards equal",
+};
+
+export const describeRankOrder = (rankOrder: RankOrder) => rankOrderNames[rankOrder];
+
+const tieRuleNames: Record<TieRule, string> = {
+  fail: "ties fail",
+  "free-pass": "ties are a free pass",
+  "counts-both": "ties count as higher and lower",
+};
+
+export const describeTieRule = (tieRule: TieRule) => tieRuleNames[tieRule];
+
+/**
+ * Plain-language summary, e.g. "3x4 grid, 36-card deck, Aces low, clear the deck keeping 2 stacks standing".
+ * The rank order and tie rule are only mentioned when they are not the classic ones.
+ */
+export function describeRuleSet(rules: RuleSet): string {
+  const { winCondition } = rules;
+  const goal =
+    winCondition.type === "draw-target"
+      ? `survive ${winCondition.cards} draws`
+      : winCondition.minStacks === 1
+        ? "clear the deck"
+        : `clear the deck keeping ${winCondition.minStacks} stacks standing`;
+  const ranks = rules.rankOrder === "ace-high" ? "" : `${describeRankOrder(rules.rankOrder)}, `;
+  const ties = rules.tieRule === "fail" ? "" : `${describeTieRule(rules.tieRule)}, `;
+  return `${rules.rows}x${rules.columns} grid, ${getDeckSize(rules.deck)}-card deck, ${ranks}${ties}${goal}`;
+}
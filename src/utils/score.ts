@@ -0,0 +1,28 @@
+// Scoring for leaderboards. Everything is derived from the game state, so a
+// replayed record always scores the same as the game it came from.
+import type { GameState } from "../types/GameState";
+import { getPlayedMoves } from "./gameEngine";
+
+export const POINTS_PER_CORRECT_GUESS = 10;
+export const WIN_BONUS = 100;
+export const POINTS_PER_STANDING_STACK = 20; // Only counted for a win
+
+export interface GameResult {
+  won: boolean;
+  cardsCleared: number; // Cards drawn from the deck, whether the guess was right or not
+  score: number;
+}
+
+export function getGameResult(state: GameState): GameResult {
+  const moves = getPlayedMoves(state);
+  const correctGuesses = moves.filter((entry) => entry.correct).length;
+  const standingStacks = state.stacks.flat().filter((stack) => stack.status === "active").length;
+
+  return {
+    won: state.won,
+    cardsCleared: moves.length,
+    score:
+      correctGuesses * POINTS_PER_CORRECT_GUESS +
+      (state.won ? WIN_BONUS + standingStacks * POINTS_PER_STANDING_STACK : 0),
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import type { GameState } from "../types/GameState";
+import { applyMove, createGame } from "./gameEngine";
+import { formatCardCode } from "./gameRecord";
+import { createShareCard } from "./shareCard";
+import { getHighestProbabilityMove } from "./strategies";
+
+const playToEnd = (state: GameState): GameState => {
+  while (!state.won && !state.lost) {
+    state = applyMove(state, getHighestProbabilityMove(state)).state;
+  }
+  return state;
+};
+
+describe("Share Cards", () => {
+  it("should show each stack's status and size in the 3x3 layout", () => {
+    const state = playToEnd(createGame({ seed: 12 }));
+
+    const lines = createShareCard(state).split("\n");
+
+    expect(lines[0]).toBe(`High-Low #12 ${state.won ? "🏆" : "💀"}`);
+    expect(lines).toHaveLength(5);
+    expect(lines[1].split(" ")).toHaveLength(3);
+    expect(lines[1].startsWith(state.stacks[0][0].status === "active" ? "🟩" : "🟥")).toBe(true);
+    expect(lines[4]).toBe(state.drawDeck.length === 0 ? "Deck cleared!" : `${state.drawDeck.length} cards left`);
+  });
+
+  it("should write stack sizes as keycap digits", () => {
+    const state = createGame({ seed: 3 });
+    const stacks = state.stacks.map((row) => row.map((stack) => ({ ...stack }))) as GameState["stacks"];
+    stacks[0][0] = { cards: Array(12).fill(stacks[0][0].cards[0]), status: "failed" };
+
+    const card = createShareCard({ ...state, stacks });
+
+    expect(card.split("\n")[1]).toBe("🟥1️⃣2️⃣ 🟩1️⃣ 🟩1️⃣");
+  });
+
+  it("should name daily challenges by number", () => {
+    const card = createShareCard(createGame({ seed: 3 }), { dailyNumber: 292 });
+
+    expect(card.split("\n")[0]).toBe("High-Low Daily #292 ⏳");
+  });
+
+  it("should never reveal a card", () => {
+    const state = playToEnd(createGame({ seed: 99 }));
+    const card = createShareCard(state);
+
+    const cards = [...state.stacks.flat().flatMap((stack) => stack.cards), ...state.drawDeck];
+    for (const shown of cards) {
+      expect(card).not.toContain(formatCardCode(shown));
+      expect(card).not.toContain(shown.suit);
+    }
+  });
+});
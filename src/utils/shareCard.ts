@@ -0,0 +1,40 @@
+// Spoiler-free result cards for sharing a finished game. They show how each
+// stack went and how far through the deck the game got, never a card.
+import type { GameState } from "../types/GameState";
+import { describeRuleSet, isDefaultRules } from "./rules";
+
+export interface ShareCardOptions {
+  dailyNumber?: number; // Set when the game was a daily challenge
+}
+
+const statusEmoji = { active: "🟩", failed: "🟥" } as const;
+
+// Digits as keycap emoji, so numbers line up with the squares
+const keycaps = ["0️⃣", "1️⃣", "2️⃣", "3️⃣", "4️⃣", "5️⃣", "6️⃣", "7️⃣", "8️⃣", "9️⃣"];
+const toKeycaps = (value: number) =>
+  String(value)
+    .split("")
+    .map((digit) => keycaps[Number(digit)])
+    .join("");
+
+const getGameTitle = (state: GameState, options: ShareCardOptions) => {
+  if (options.dailyNumber !== undefined) return `High-Low Daily #${options.dailyNumber}`;
+  return state.seed !== null ? `High-Low #${state.seed}` : "High-Low";
+};
+
+/**
+ * Summarise a game as an emoji grid: one square per stack, green while it is
+ * still standing and red once it failed, followed by how many cards it holds.
+ * Games played under other rules name them, since the seed alone deals differently.
+ */
+export function createShareCard(state: GameState, options: ShareCardOptions = {}): string {
+  const result = state.won ? "🏆" : state.lost ? "💀" : "⏳";
+  const grid = state.stacks.map((row) =>
+    row.map((stack) => `${statusEmoji[stack.status]}${toKeycaps(stack.cards.length)}`).join(" "),
+  );
+  const deck = state.drawDeck.length === 0 ? "Deck cleared!" : `${state.drawDeck.length} cards left`;
+
+  const rules = isDefaultRules(state.rules) ? [] : [describeRuleSet(state.rules)];
+
+  return [`${getGameTitle(state, options)} ${result}`, ...rules, ...grid, deck].join("\n");
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { GameState } from "../types/GameState";
+import type { RuleSet } from "../types/RuleSet";
+import { applyMove, createGame, getInitialDealOrder, InvalidDeckError } from "./gameEngine";
+import { findWinningLine, isWinnableDeal } from "./solvability";
+
+describe("Deal Solvability", () => {
+  it("should find a line that wins the deal when played through the engine", () => {
+    const game = createGame({ seed: 2024 });
+
+    const line = findWinningLine(getInitialDealOrder(game));
+
+    expect(line).toHaveLength(game.drawDeck.length);
+    let state: GameState = game;
+    for (const move of line!) {
+      const { state: next, outcome } = applyMove(state, move);
+      expect(outcome.correct).toBe(true);
+      state = next;
+    }
+    expect(state.won).toBe(true);
+  });
+
+  it("should play a winning line on the rule set's grid up to its draw target", () => {
+    const rules: RuleSet = {
+      rows: 2,
+      columns: 4,
+      deck: "short",
+      rankOrder: "ace-high",
+      tieRule: "fail",
+      winCondition: { type: "draw-target", cards: 10 },
+    };
+    const game = createGame({ seed: 2024, rules });
+
+    const line = findWinningLine(getInitialDealOrder(game), rules);
+
+    expect(line).toHaveLength(10);
+    const state = line!.reduce((current, move) => applyMove(current, move).state, game);
+    expect(state.won).toBe(true);
+  });
+
+  it("should find every standard deal winnable", () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      expect(isWinnableDeal(getInitialDealOrder(createGame({ seed })))).toBe(true);
+    }
+  });
+
+  it("should reject deals too short to fill the stacks", () => {
+    const dealOrder = getInitialDealOrder(createGame({ seed: 1 })).slice(0, 5);
+
+    expect(() => findWinningLine(dealOrder)).toThrow(InvalidDeckError);
+  });
+});
@@ -0,0 +1,88 @@
+// Solvability of fully known deals. Knowing the order of every card, can some
+// sequence of guesses clear the deck?
+//
+// Under every rank order the answer is always yes for the default win
+// condition: one of higher, lower or same matches every draw, so guessing
+// right on any active stack wins. The search still explores every choice of
+// stack, and deliberately wrong guesses, so it stays correct for rule
+// variants where some draws cannot be called.
+import type { Card } from "../types/CardTypes";
+import type { PlayerMove } from "../types/GameState";
+import type { RuleSet } from "../types/RuleSet";
+import { InvalidDeckError } from "./gameEngine";
+import { DEFAULT_RULES, getCardsLeftAtWin, getMinStacks, getRankValue, getStackCount, keepsStackAlive } from "./rules";
+
+const guesses: PlayerMove["highLowSame"][] = ["high", "low", "same"];
+
+const toPosition = (index: number, columns: number) => ({
+  stackRow: Math.floor(index / columns) + 1,
+  stackColumn: (index % columns) + 1,
+});
+
+/**
+ * Find a sequence of moves that wins a deal whose order is fully known.
+ * @param dealOrder the stack cards row by row, then every draw (see getInitialDealOrder)
+ * @param rules the rule set the deal is played under
+ * @returns one winning line, or null when no sequence of guesses wins
+ */
+export function findWinningLine(dealOrder: Card[], rules: RuleSet = DEFAULT_RULES): PlayerMove[] | null {
+  const stackCount = getStackCount(rules);
+  if (dealOrder.length < stackCount) {
+    throw new InvalidDeckError(`A deal needs at least ${stackCount} cards`);
+  }
+
+  const tops = dealOrder.slice(0, stackCount);
+  const active = tops.map(() => true);
+  const draws = dealOrder.slice(stackCount);
+  const minStacks = getMinStacks(rules);
+  // Draws needed to win: all of them unless there is a draw target
+  const drawsToWin = Math.max(0, draws.length - getCardsLeftAtWin(rules));
+  const { rankOrder } = rules;
+  const line: PlayerMove[] = [];
+  // Positions already known to lose, keyed by draw and the ranks on the active stacks
+  const losing = new Set<string>();
+
+  const search = (drawIndex: number): boolean => {
+    if (active.filter(Boolean).length < minStacks) return false;
+    if (drawIndex >= drawsToWin) return true;
+
+    const activeRanks = tops.filter((_, index) => active[index]).map((card) => getRankValue(card.rank, rankOrder));
+    const key = `${drawIndex}:${activeRanks.sort((a, b) => a - b).join(",")}`;
+    if (losing.has(key)) return false;
+
+    const drawnCard = draws[drawIndex];
+    // Guesses that keep the stack first (right ones, or free passes on a tie). A wrong
+    // guess fails its stack but keeps the others' tops, and stacks showing the same
+    // rank lead to the same positions, so each is tried once.
+    for (const survives of [true, false]) {
+      const tried = new Set<number>();
+      for (let index = 0; index < stackCount; index++) {
+        const card = tops[index];
+        const value = getRankValue(card.rank, rankOrder);
+        if (!active[index] || tried.has(value)) continue;
+
+        const guess = guesses.find((g) => keepsStackAlive(drawnCard, card, g, rules) === survives);
+        if (!guess) continue;
+        tried.add(value);
+
+        tops[index] = drawnCard;
+        active[index] = survives;
+        line.push({ ...toPosition(index, rules.columns), highLowSame: guess, card });
+        if (search(drawIndex + 1)) return true;
+        line.pop();
+        tops[index] = card;
+        active[index] = true;
+      }
+    }
+
+    losing.add(key);
+    return false;
+  };
+
+  return search(0) ? line : null;
+}
+
+export function isWinnableDeal(dealOrder: Card[], rules: RuleSet = DEFAULT_RULES): boolean {
+  return findWinningLine(dealOrder, rules) !== null;
+}
+
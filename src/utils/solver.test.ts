@@ -0,0 +1,208 @@
+import { describe, expect, it } from "vitest";
+import type { Card } from "../types/CardTypes";
+import type { GameState, PlayerMove } from "../types/GameState";
+import { applyMove, createEmptyStacks, createGame } from "./gameEngine";
+import { DEFAULT_RULES, formatRuleSet, RANK_ORDERS, TIE_RULES } from "./rules";
+import { createSolver, findOptimalMove, solveGame } from "./solver";
+
+// Build a game with only the given stacks active and the given cards left to draw
+const setupPosition = (stackCards: Card[], drawDeck: Card[]): GameState => {
+  const state = createGame({ seed: 1 });
+  const stacks = createEmptyStacks();
+  stacks.forEach((row, rowIndex) =>
+    row.forEach((_, columnIndex) => {
+      const card = stackCards[rowIndex * 3 + columnIndex];
+      row[columnIndex] = card
+        ? { cards: [card], status: "active" }
+        : { cards: [state.stacks[rowIndex][columnIndex].cards[0]], status: "failed" };
+    }),
+  );
+  return { ...state, stacks, drawDeck };
+};
+
+const legalMoves = (state: GameState): PlayerMove[] =>
+  state.stacks.flatMap((row, rowIndex) =>
+    row.flatMap((stack, columnIndex) =>
+      stack.status === "active"
+        ? (["high", "low", "same"] as const).map((highLowSame) => ({
+            stackRow: rowIndex + 1,
+            stackColumn: columnIndex + 1,
+            highLowSame,
+            card: stack.cards[stack.cards.length - 1],
+          }))
+        : [],
+    ),
+  );
+
+// Reference expectimax that plays every possible draw through the engine. Suits
+// never decide a guess, so positions are memoised on the ranks of the active stack
+// tops and the sorted remaining deck, and each rank is drawn once, weighted by its count.
+const bruteForce = (root: GameState): number => {
+  const memo = new Map<string, number>();
+  const positionKey = (state: GameState) =>
+    [
+      formatRuleSet(state.rules),
+      state.stacks.flat().map((stack) => (stack.status === "active" ? stack.cards[stack.cards.length - 1].rank : "failed")),
+      state.drawDeck.map((card) => card.rank).sort(),
+    ].join("|");
+
+  const search = (state: GameState): number => {
+    if (state.won) return 1;
+    if (state.lost) return 0;
+
+    const key = positionKey(state);
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    const draws = state.drawDeck.flatMap((card, index) =>
+      state.drawDeck.findIndex((other) => other.rank === card.rank) === index ? [index] : [],
+    );
+    const value = Math.max(
+      ...legalMoves(state).map((move) =>
+        draws.reduce((total, index) => {
+          const drawDeck = [...state.drawDeck];
+          const [card] = drawDeck.splice(index, 1);
+          const count = state.drawDeck.filter((other) => other.rank === card.rank).length;
+          const next = applyMove({ ...state, drawDeck: [...drawDeck, card] }, move).state;
+          return total + (search(next) * count) / state.drawDeck.length;
+        }, 0),
+      ),
+    );
+    memo.set(key, value);
+    return value;
+  };
+  return search(root);
+};
+
+const card = (rank: Card["rank"], suit: Card["suit"] = "Spades"): Card => ({ suit, rank });
+
+describe("Optimal Play Solver", () => {
+  it("should match a brute-force search through the game engine", () => {
+    const positions = [
+      setupPosition([card("7")], [card("2"), card("9"), card("King"), card("7", "Hearts")]),
+      setupPosition([card("5"), card("Queen")], [card("3"), card("8"), card("Jack"), card("Ace"), card("5", "Clubs")]),
+      setupPosition([card("2"), card("Ace")], [card("4"), card("4", "Hearts"), card("10"), card("King"), card("6")]),
+    ];
+
+    for (const state of positions) {
+      expect(solveGame(state).winProbability).toBeCloseTo(bruteForce(state), 10);
+    }
+  });
+
+  it("should follow the rule set's win condition", () => {
+    const keepTwo = {
+      ...setupPosition([card("5"), card("Queen")], [card("3"), card("8"), card("Jack"), card("Ace")]),
+      rules: { ...DEFAULT_RULES, winCondition: { type: "clear-deck", minStacks: 2 } },
+    } satisfies GameState;
+    // Win after two more draws: the target leaves two cards in the deck
+    const drawTarget = {
+      ...setupPosition([card("7")], [card("2"), card("9"), card("King"), card("7", "Hearts")]),
+      rules: { ...DEFAULT_RULES, winCondition: { type: "draw-target", cards: 52 - 9 - 2 } },
+    } satisfies GameState;
+
+    for (const state of [keepTwo, drawTarget]) {
+      expect(solveGame(state).winProbability).toBeCloseTo(bruteForce(state), 10);
+    }
+    expect(solveGame(keepTwo).winProbability).toBeLessThan(solveGame({ ...keepTwo, rules: DEFAULT_RULES }).winProbability);
+  });
+
+  it("should follow the rule set's rank order", () => {
+    const positions = [
+      setupPosition(
+        [card("Ace"), card("King")],
+        [card("2"), card("Queen"), card("Ace", "Hearts"), card("Jack"), card("King", "Clubs"), card("Ace", "Diamonds")],
+      ),
+      setupPosition(
+        [card("Jack"), card("3")],
+        [card("King"), card("Queen", "Hearts"), card("Ace"), card("2"), card("Jack", "Clubs"), card("King", "Diamonds")],
+      ),
+    ];
+    // One solver for every order, so its memo must keep them apart
+    const solver = createSolver();
+
+    for (const rankOrder of RANK_ORDERS) {
+      for (const position of positions) {
+        const state: GameState = { ...position, rules: { ...DEFAULT_RULES, rankOrder } };
+        expect(solver.solveGame(state).winProbability).toBeCloseTo(bruteForce(state), 10);
+      }
+    }
+  });
+
+  it("should follow the rule set's tie rule", () => {
+    const position = setupPosition([card("7"), card("Queen")], [card("7", "Hearts"), card("King"), card("Queen", "Clubs"), card("2")]);
+    const solver = createSolver();
+
+    for (const tieRule of TIE_RULES) {
+      for (const rankOrder of RANK_ORDERS) {
+        const state: GameState = { ...position, rules: { ...DEFAULT_RULES, rankOrder, tieRule } };
+        expect(solver.solveGame(state).winProbability).toBeCloseTo(bruteForce(state), 10);
+      }
+    }
+  });
+
+  it("should value every legal move and put the best first", () => {
+    const state = setupPosition([card("7")], [card("2"), card("9"), card("King")]);
+
+    const result = solveGame(state);
+
+    expect(result.exact).toBe(true);
+    expect(result.moves).toHaveLength(3);
+    expect(result.bestMove).toEqual(result.moves[0].move);
+    expect(result.moves[0].winProbability).toBe(result.winProbability);
+    for (const evaluation of result.moves) {
+      expect(evaluation.winProbability).toBeLessThanOrEqual(result.winProbability);
+    }
+  });
+
+  it("should pick the likelier guess on the last draw", () => {
+    const state = setupPosition([card("4")], [card("9")]);
+
+    const result = solveGame(state);
+
+    expect(result.winProbability).toBe(1);
+    expect(result.bestMove).toMatchObject({ stackRow: 1, stackColumn: 1, highLowSame: "high" });
+  });
+
+  it("should count the game as won when a wrong last guess leaves another stack", () => {
+    const state = setupPosition([card("4"), card("King")], [card("9")]);
+
+    expect(solveGame(state).winProbability).toBe(1);
+  });
+
+  it("should return no move once the game is over", () => {
+    const state = { ...setupPosition([card("4")], []), won: true };
+
+    expect(findOptimalMove(state)).toBeNull();
+    expect(solveGame(state).winProbability).toBe(1);
+  });
+
+  it("should estimate a fresh deal that is too big to solve", () => {
+    const result = solveGame(createGame({ seed: 5 }), { maxStates: 100 });
+
+    expect(result.exact).toBe(false);
+    expect(result.moves).toHaveLength(27);
+    expect(result.bestMove).toEqual(result.moves[0].move);
+    expect(result.winProbability).toBe(Math.max(...result.moves.map((move) => move.winProbability)));
+    result.moves.slice(1).forEach((move, index) =>
+      expect(move.winProbability).toBeLessThanOrEqual(result.moves[index].winProbability),
+    );
+    // Greedy play wins roughly one fresh deal in seven
+    expect(result.winProbability).toBeGreaterThan(0.05);
+    expect(result.winProbability).toBeLessThan(0.3);
+  });
+
+  it("should reuse solved positions across calls", () => {
+    const solver = createSolver();
+    const state = setupPosition(
+      [card("3"), card("Jack"), card("8")],
+      [card("2"), card("5"), card("9"), card("Queen"), card("Ace"), card("6")],
+    );
+
+    const first = solver.solveGame(state);
+    const size = solver.size;
+    const second = solver.solveGame(state);
+
+    expect(second).toEqual(first);
+    expect(solver.size).toBe(size);
+  });
+});
@@ -0,0 +1,474 @@
+// Exact optimal-play solver.
+//
+// The player never knows the order of the deck, only which cards are left, so
+// every draw is uniformly random among the remaining cards. The win probability
+// under optimal play is then an expectimax over the remaining rank counts and
+// the top ranks of the active stacks; suits never matter.
+//
+// Positions are memoised on a canonical key of the rank-count multiset, one
+// character per rank so millions of positions fit in memory:
+// - ranks with no cards left and no stack on them are dropped,
+// - neighbouring stack ranks with no cards left between them are merged,
+//   since every remaining card compares the same way with both,
+// - a position and its mirror image (high <-> low) share one entry.
+//
+// Ranks are indexed by their value under the rule set's rank order, so ranks
+// that compare equal (face cards under face-equal) share one count. Under
+// ace-both the Ace wraps around and is never merged with its neighbours.
+// A draw succeeds when it keeps the stack alive, so a free pass on a tie
+// counts the same as a right guess.
+// The win condition sets how many stacks must stay active and how many cards
+// may be left in the deck at a win. The memo only holds positions of one rule
+// set, and starts over when the rules change.
+//
+// The number of positions still grows exponentially with the deck, so the
+// search has a state budget. Late positions (roughly 15 cards or fewer) solve
+// exactly within it; bigger ones value each move one draw ahead with an
+// estimate of greedy play from there (see estimateWinProbability), and the
+// result is marked as an estimate. Exact or estimated, the moves are sorted by
+// their value and the best move is the first of them.
+import type { Card, CardRank } from "../types/CardTypes";
+import type { GameState, PlayerMove } from "../types/GameState";
+import { getAllRanks } from "./probabilityCalculations";
+import { DEFAULT_RULES, getCardsLeftAtWin, getMinStacks, getRankValue, keepsStackAlive, type GuessRules } from "./rules";
+import { runSteps, type Steps } from "./steps";
+
+// Thrown inside the search when the memo is full, so the position gets estimated instead
+class SolverLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SolverLimitError";
+  }
+}
+
+export interface SolverOptions {
+  maxStates?: number; // Estimate instead once this many positions are memoised
+}
+
+export interface MoveEvaluation {
+  move: PlayerMove;
+  successProbability: number; // Chance that the next draw keeps the stack alive
+  winProbability: number;     // Chance of winning when playing this move, then playing optimally (estimated unless exact)
+}
+
+export interface SolverResult {
+  winProbability: number;
+  bestMove: PlayerMove | null;
+  moves: MoveEvaluation[];    // Every legal move, best first
+  statesEvaluated: number;
+  exact: boolean;             // False when the position was too big to solve and the values are estimates
+}
+
+export const DEFAULT_MAX_STATES = 2_000_000;
+
+// Scales the estimated failure chances to match simulated greedy play
+const FAILURE_CALIBRATION = 0.87;
+
+const GUESSES: PlayerMove["highLowSame"][] = ["high", "low", "same"];
+const ranks = getAllRanks();
+
+interface RankTable {
+  rankCount: number;                  // Distinct rank values, lowest first
+  rankIndex: (rank: CardRank) => number;
+  success: boolean[][][];             // success[guess][top][drawn], taken from the game rules
+  successRanks: number[][][];         // successRanks[guess][top]: the drawn ranks that succeed
+  wrapIndex: number;                  // Index of the wrap-around Ace under ace-both, otherwise -1
+}
+
+const rankTables = new Map<string, RankTable>();
+
+const getRulesKey = ({ rankOrder, tieRule }: GuessRules) => `${rankOrder}/${tieRule}`;
+
+const getRankTable = (rules: GuessRules): RankTable => {
+  const cached = rankTables.get(getRulesKey(rules));
+  if (cached) return cached;
+
+  const { rankOrder } = rules;
+  const values = [...new Set(ranks.map((rank) => getRankValue(rank, rankOrder)))].sort((a, b) => a - b);
+  const rankIndex = (rank: CardRank) => values.indexOf(getRankValue(rank, rankOrder));
+  const representatives = values.map(
+    (value): Card => ({ suit: "Hearts", rank: ranks.find((rank) => getRankValue(rank, rankOrder) === value)! }),
+  );
+  const success = GUESSES.map((guess) =>
+    representatives.map((top) => representatives.map((drawn) => keepsStackAlive(drawn, top, guess, rules))),
+  );
+  const table: RankTable = {
+    rankCount: values.length,
+    rankIndex,
+    success,
+    successRanks: success.map((tops) =>
+      tops.map((drawn) => drawn.flatMap((succeeds, rank) => (succeeds ? [rank] : []))),
+    ),
+    wrapIndex: rankOrder === "ace-both" ? rankIndex("Ace") : -1,
+  };
+  rankTables.set(getRulesKey(rules), table);
+  return table;
+};
+
+const insertSorted = (tops: number[], rank: number): number[] => {
+  const result = [...tops];
+  let i = 0;
+  while (i < result.length && result[i] < rank) i++;
+  result.splice(i, 0, rank);
+  return result;
+};
+
+// One key character per rank: its card count and how many stack tops are on it.
+// Counts reach 12 (three face ranks under face-equal) and tops 25 (a 5x5 grid).
+const keyPart = (count: number, tops: number, wraps = false) =>
+  String.fromCharCode((wraps ? 0x1000 : 0) + count * 32 + tops);
+
+// Canonical key for a position (see the notes at the top of the file)
+const positionKey = (counts: number[], tops: number[], wrapIndex: number): string => {
+  const topCounts = new Array(counts.length).fill(0);
+  for (const top of tops) topCounts[top]++;
+
+  const parts: string[] = [];
+  let emptyTops = -1;
+  for (let rank = 0; rank < counts.length; rank++) {
+    if (rank === wrapIndex) {
+      if (emptyTops !== -1) {
+        parts.push(keyPart(0, emptyTops));
+        emptyTops = -1;
+      }
+      parts.push(keyPart(counts[rank], topCounts[rank], true));
+      continue;
+    }
+    if (counts[rank] === 0) {
+      if (topCounts[rank] === 0) continue;
+      emptyTops = Math.max(emptyTops, 0) + topCounts[rank];
+      continue;
+    }
+    if (emptyTops !== -1) {
+      parts.push(keyPart(0, emptyTops));
+      emptyTops = -1;
+    }
+    parts.push(keyPart(counts[rank], topCounts[rank]));
+  }
+  if (emptyTops !== -1) parts.push(keyPart(0, emptyTops));
+
+  const forward = parts.join("");
+  const mirrored = parts.reverse().join("");
+  return forward < mirrored ? forward : mirrored;
+};
+
+/**
+ * Create a solver with its own memo, so repeated calls during one game reuse
+ * the positions already solved.
+ */
+export function createSolver(options: SolverOptions = {}) {
+  const maxStates = options.maxStates ?? DEFAULT_MAX_STATES;
+  const memo = new Map<string, number>();
+  // Rules of the game being solved, see solveGameSteps
+  let memoRules = "";
+  let { rankCount, success, successRanks, wrapIndex } = getRankTable(DEFAULT_RULES);
+  let minStacks = 1;
+  let cardsLeftAtWin = 0;
+
+  // Working space for estimateWinProbability, sized in solveGameSteps
+  let rankFailures = new Float64Array(0);
+  let bestGuesses = new Int32Array(0);
+  let byFailure = new Int32Array(0);
+  let spread = new Float64Array(0);
+  let played = new Float64Array(0);
+  let chances = new Float64Array(0);
+
+  // Chance that a draw fails when it goes on the likeliest of `alive` stacks
+  // with their tops spread as in `spread`
+  const playedFailure = (alive: number, record: boolean): number => {
+    let left = 1;
+    let failure = 0;
+    for (const rank of byFailure) {
+      if (left <= 0) break;
+      const share = Math.min(left, spread[rank] * alive);
+      if (share <= 0) continue;
+      failure += share * rankFailures[rank];
+      if (record) played[rank] = share;
+      left -= share;
+    }
+    return failure;
+  };
+
+  // Win chance of greedy play from a position, followed as a flow. The
+  // active stacks become a spread of top ranks; each draw goes on the stacks
+  // whose best guess is likeliest, and moves them on to the ranks that can
+  // follow. How likely a draw is to fail depends on how many stacks are left.
+  // Compared with simulated greedy play it overestimates the failures by a
+  // steady factor, which FAILURE_CALIBRATION takes out.
+  const estimateWinProbability = (counts: number[], tops: number[], remaining: number): number => {
+    for (let top = 0; top < rankCount; top++) {
+      let best = 0;
+      bestGuesses[top] = 0;
+      for (let guess = 0; guess < GUESSES.length; guess++) {
+        let successes = 0;
+        for (const rank of successRanks[guess][top]) successes += counts[rank];
+        if (successes > best) {
+          best = successes;
+          bestGuesses[top] = guess;
+        }
+      }
+      rankFailures[top] = FAILURE_CALIBRATION * (1 - best / remaining);
+    }
+    for (let rank = 0; rank < rankCount; rank++) byFailure[rank] = rank;
+    byFailure.sort((a, b) => rankFailures[a] - rankFailures[b]);
+
+    const stackCount = tops.length;
+    spread.fill(0);
+    for (const top of tops) spread[top] += 1 / stackCount;
+    chances.fill(0);
+    chances[stackCount] = 1;
+
+    for (let draw = 0; draw < remaining - cardsLeftAtWin; draw++) {
+      // The spread follows the stacks expected to be left
+      let alive = 0;
+      let total = 0;
+      for (let stacks = minStacks; stacks <= stackCount; stacks++) {
+        alive += stacks * chances[stacks];
+        total += chances[stacks];
+      }
+      if (total === 0) return 0;
+      alive = Math.max(1, alive / total);
+
+      // A stack lost at minStacks loses the game
+      for (let stacks = minStacks; stacks <= stackCount; stacks++) {
+        const lost = chances[stacks] * playedFailure(stacks, false);
+        chances[stacks] -= lost;
+        chances[stacks - 1] += lost;
+      }
+
+      played.fill(0);
+      playedFailure(alive, true);
+      let spreadTotal = 0;
+      for (let rank = 0; rank < rankCount; rank++) {
+        spread[rank] = spread[rank] * alive - played[rank];
+      }
+      for (let top = 0; top < rankCount; top++) {
+        if (played[top] === 0) continue;
+        for (const rank of successRanks[bestGuesses[top]][top]) {
+          spread[rank] += (played[top] * counts[rank]) / remaining;
+        }
+      }
+      for (let rank = 0; rank < rankCount; rank++) spreadTotal += spread[rank];
+      if (spreadTotal <= 0) return 0;
+      for (let rank = 0; rank < rankCount; rank++) spread[rank] /= spreadTotal;
+    }
+
+    let winProbability = 0;
+    for (let stacks = minStacks; stacks <= stackCount; stacks++) winProbability += chances[stacks];
+    return winProbability;
+  };
+
+  // Value of one guess on the stack at tops[index], estimating the positions
+  // after the draw when `estimate` is set. Stops early and returns null once
+  // the move can no longer beat `toBeat`.
+  const moveValue = (
+    counts: number[],
+    tops: number[],
+    remaining: number,
+    index: number,
+    guess: number,
+    toBeat: number,
+    estimate = false,
+  ): number | null => {
+    const top = tops[index];
+    const withoutTop = [...tops.slice(0, index), ...tops.slice(index + 1)];
+
+    // Losing draws first: they lower the upper bound fastest
+    const order: number[] = [];
+    for (let rank = 0; rank < rankCount; rank++) {
+      if (counts[rank] > 0 && !success[guess][top][rank]) order.push(rank);
+    }
+    for (let rank = 0; rank < rankCount; rank++) {
+      if (counts[rank] > 0 && success[guess][top][rank]) order.push(rank);
+    }
+
+    let value = 0;
+    let loss = 0;
+    for (const rank of order) {
+      const probability = counts[rank] / remaining;
+      const after = success[guess][top][rank] ? insertSorted(withoutTop, rank) : withoutTop;
+      let child: number;
+      counts[rank]--;
+      try {
+        child = solve(counts, after, remaining - 1, estimate);
+      } finally {
+        // Put the card back even when the search runs out of budget
+        counts[rank]++;
+      }
+
+      value += probability * child;
+      loss += probability * (1 - child);
+      if (1 - loss <= toBeat) return null;
+    }
+    return value;
+  };
+
+  const solve = (counts: number[], tops: number[], remaining: number, estimate = false): number => {
+    if (tops.length < minStacks) return 0;
+    // Enough stacks to lose one on every draw still to come
+    if (tops.length - minStacks >= remaining - cardsLeftAtWin) return 1;
+    if (estimate) return estimateWinProbability(counts, tops, remaining);
+
+    const key = positionKey(counts, tops, wrapIndex);
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    if (memo.size >= maxStates) {
+      throw new SolverLimitError(
+        `Position needs more than ${maxStates} states to solve exactly`,
+      );
+    }
+
+    // Try the moves most likely to succeed first so the rest can be cut off early
+    const candidates: { index: number; guess: number; successes: number }[] = [];
+    tops.forEach((top, index) => {
+      if (index > 0 && tops[index - 1] === top) return;
+      GUESSES.forEach((_, guess) => {
+        let successes = 0;
+        for (let rank = 0; rank < rankCount; rank++) {
+          if (success[guess][top][rank]) successes += counts[rank];
+        }
+        candidates.push({ index, guess, successes });
+      });
+    });
+    candidates.sort((a, b) => b.successes - a.successes);
+
+    let best = 0;
+    for (const { index, guess } of candidates) {
+      const value = moveValue(counts, tops, remaining, index, guess, best);
+      if (value !== null && value > best) best = value;
+      if (best >= 1) break;
+    }
+
+    memo.set(key, best);
+    return best;
+  };
+
+  /**
+   * Solve a game state one legal move at a time, yielding the moves valued so
+   * far. A position too big for the state budget starts over with estimates.
+   */
+  function* solveGameSteps(state: GameState): Steps<MoveEvaluation[], SolverResult> {
+    const table = getRankTable(state.rules);
+    ({ rankCount, success, successRanks, wrapIndex } = table);
+    const { rankIndex } = table;
+    minStacks = getMinStacks(state.rules);
+    cardsLeftAtWin = getCardsLeftAtWin(state.rules);
+    // Positions solved under other rules are worth something else
+    const rulesKey = `${getRulesKey(state.rules)}/${minStacks}/${cardsLeftAtWin}`;
+    if (rulesKey !== memoRules) {
+      memo.clear();
+      memoRules = rulesKey;
+    }
+    const counts = new Array(rankCount).fill(0);
+    for (const card of state.drawDeck) counts[rankIndex(card.rank)]++;
+    const remaining = state.drawDeck.length;
+
+    const activeStacks: { position: [number, number]; card: Card }[] = [];
+    state.stacks.forEach((row, rowIndex) =>
+      row.forEach((stack, columnIndex) => {
+        if (stack.status === "active" && stack.cards.length > 0) {
+          activeStacks.push({
+            position: [rowIndex + 1, columnIndex + 1],
+            card: stack.cards[stack.cards.length - 1],
+          });
+        }
+      }),
+    );
+
+    if (state.won || state.lost || activeStacks.length < minStacks || remaining <= cardsLeftAtWin) {
+      return {
+        winProbability: state.won || (!state.lost && activeStacks.length >= minStacks) ? 1 : 0,
+        bestMove: null,
+        moves: [],
+        statesEvaluated: memo.size,
+        exact: true,
+      };
+    }
+
+    rankFailures = new Float64Array(rankCount);
+    bestGuesses = new Int32Array(rankCount);
+    byFailure = new Int32Array(rankCount);
+    spread = new Float64Array(rankCount);
+    played = new Float64Array(rankCount);
+    chances = new Float64Array(activeStacks.length + 1);
+
+    const tops = activeStacks.map(({ card }) => rankIndex(card.rank)).sort((a, b) => a - b);
+    const total = activeStacks.length * GUESSES.length;
+    const byWinProbability = (a: MoveEvaluation, b: MoveEvaluation) =>
+      b.winProbability - a.winProbability || b.successProbability - a.successProbability;
+
+    // Moves valued exactly before the budget ran out, so progress does not go back when estimating
+    let valued = 0;
+    function* valueMoves(estimate: boolean): Steps<MoveEvaluation[], MoveEvaluation[]> {
+      const moves: MoveEvaluation[] = [];
+      for (const { position, card } of activeStacks) {
+        const top = rankIndex(card.rank);
+        for (const [guess, highLowSame] of GUESSES.entries()) {
+          let successes = 0;
+          for (let rank = 0; rank < rankCount; rank++) {
+            if (success[guess][top][rank]) successes += counts[rank];
+          }
+          moves.push({
+            move: {
+              stackRow: position[0],
+              stackColumn: position[1],
+              highLowSame,
+              card,
+            },
+            successProbability: successes / remaining,
+            winProbability: moveValue(counts, tops, remaining, tops.indexOf(top), guess, -1, estimate) ?? 0,
+          });
+          if (!estimate) valued = moves.length;
+          yield { completed: Math.max(valued, moves.length), total, partial: [...moves].sort(byWinProbability) };
+        }
+      }
+      return moves.sort(byWinProbability);
+    }
+
+    let moves: MoveEvaluation[];
+    let exact = true;
+    try {
+      moves = yield* valueMoves(false);
+    } catch (error) {
+      if (!(error instanceof SolverLimitError)) throw error;
+      // The memo is full; later positions of the game start with an empty one
+      memo.clear();
+      exact = false;
+      moves = yield* valueMoves(true);
+    }
+
+    return {
+      winProbability: moves[0].winProbability,
+      bestMove: moves[0].move,
+      moves,
+      statesEvaluated: memo.size,
+      exact,
+    };
+  }
+
+  /**
+   * Solve a game state: the win probability under optimal play and the value
+   * of every legal move, exact when the position fits the state budget
+   */
+  const solveGame = (state: GameState): SolverResult => runSteps(solveGameSteps(state));
+
+  return {
+    solveGame,
+    solveGameSteps,
+    clear: () => memo.clear(),
+    get size() {
+      return memo.size;
+    },
+  };
+}
+
+// Solve a game state with a fresh solver
+export function solveGame(state: GameState, options: SolverOptions = {}): SolverResult {
+  return createSolver(options).solveGame(state);
+}
+
+// The move with the highest chance of winning, or null when the game is over
+export function findOptimalMove(state: GameState, options: SolverOptions = {}): PlayerMove | null {
+  return solveGame(state, options).bestMove;
+}
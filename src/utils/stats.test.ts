@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import type { GameState } from "../types/GameState";
+import { applyMove, createGame, getLegalMoves, getPlayedMoves, undoMove } from "./gameEngine";
+import { DEFAULT_RULES } from "./rules";
+import {
+  createEmptyStats,
+  formatStatsSummary,
+  getGameStats,
+  getRuleSetStats,
+  getStatsSummary,
+  parseRuleSetStats,
+  recordGame,
+  recordRuleSetGame,
+} from "./stats";
+
+// Plays the first legal move until the game ends
+const playToEnd = (seed: number): GameState => {
+  let state = createGame({ seed });
+  while (!state.won && !state.lost) state = applyMove(state, getLegalMoves(state)[0]).state;
+  return state;
+};
+
+// The same game, as if its last card had cleared the deck
+const asWin = (state: GameState): GameState => ({ ...state, won: true, lost: false, drawDeck: [] });
+
+describe("Player Stats", () => {
+  it("should ignore a game that is still in play", () => {
+    const stats = createEmptyStats();
+    expect(recordGame(stats, createGame({ seed: 1 }))).toBe(stats);
+  });
+
+  it("should keep separate totals for each rule set", () => {
+    const rules = { ...DEFAULT_RULES, deck: "short" as const };
+    let stats = recordRuleSetGame({}, playToEnd(1));
+    stats = recordRuleSetGame(stats, asWin(createGame({ seed: 2, rules })));
+
+    expect(getRuleSetStats(stats, DEFAULT_RULES)).toMatchObject({ gamesPlayed: 1, wins: 0 });
+    expect(getRuleSetStats(stats, rules)).toMatchObject({ gamesPlayed: 1, wins: 1, currentStreak: 1 });
+    expect(recordRuleSetGame(stats, createGame({ seed: 3, rules }))).toBe(stats);
+  });
+
+  it("should read stats saved before rule sets as the default rules", () => {
+    const legacy = recordGame(createEmptyStats(), playToEnd(1));
+
+    expect(getRuleSetStats(parseRuleSetStats(legacy), DEFAULT_RULES)).toEqual(legacy);
+    expect(parseRuleSetStats(null)).toEqual({});
+  });
+
+  it("should count wins, losses and streaks", () => {
+    const results = [true, true, false, true, true, true, false, true];
+    const stats = results.reduce(
+      (current, won, index) => recordGame(current, won ? asWin(playToEnd(index)) : playToEnd(index)),
+      createEmptyStats(),
+    );
+
+    expect(getStatsSummary(stats)).toMatchObject({
+      gamesPlayed: 8,
+      wins: 6,
+      losses: 2,
+      winRate: 0.75,
+      currentStreak: 1,
+      bestStreak: 3,
+    });
+  });
+
+  it("should record the cards left at a loss and the longest stack", () => {
+    const lost = playToEnd(7);
+    const stats = recordGame(recordGame(createEmptyStats(), lost), lost);
+    const longest = Math.max(...lost.stacks.flat().map((stack) => stack.cards.length));
+
+    expect(getStatsSummary(stats).cardsLeftAtLoss).toEqual([{ cardsLeft: lost.drawDeck.length, losses: 2 }]);
+    expect(stats.longestStack).toBe(longest);
+    expect(longest).toBeGreaterThan(1);
+  });
+
+  it("should tally each guess type and how often it was right", () => {
+    const lost = playToEnd(3);
+    const stats = recordGame(createEmptyStats(), lost);
+    const moves = getPlayedMoves(lost);
+    const high = getStatsSummary(stats).guesses.find((guess) => guess.type === "high")!;
+
+    expect(high.made).toBe(moves.filter((entry) => entry.move.highLowSame === "high").length);
+    expect(high.correct).toBe(moves.filter((entry) => entry.move.highLowSame === "high" && entry.correct).length);
+    expect(high.successRate).toBeCloseTo(high.correct / high.made);
+    expect(getStatsSummary(stats).guesses.find((guess) => guess.type === "same")).toMatchObject({
+      made: 0,
+      successRate: null,
+    });
+  });
+
+  it("should only count moves that are still applied after an undo", () => {
+    let state = createGame({ seed: 5, undoLimit: null });
+    state = applyMove(state, getLegalMoves(state)[0]).state;
+    state = undoMove(state);
+    const stats = recordGame(createEmptyStats(), { ...state, lost: true });
+
+    expect(stats.guesses.high.made + stats.guesses.low.made + stats.guesses.same.made).toBe(0);
+  });
+
+  it("should sum up a single game on its own", () => {
+    const lost = playToEnd(4);
+    const stats = getGameStats(lost);
+
+    expect(stats.gamesPlayed).toBe(1);
+    expect(stats.guesses.reduce((total, guess) => total + guess.made, 0)).toBe(getPlayedMoves(lost).length);
+    expect(stats.cardsLeftAtLoss).toEqual([{ cardsLeft: lost.drawDeck.length, losses: 1 }]);
+  });
+
+  it("should summarize the stats as text", () => {
+    const lines = formatStatsSummary(recordGame(createEmptyStats(), playToEnd(2)));
+
+    expect(lines[0]).toBe("Games played: 1 (0 won, 1 lost)");
+    expect(lines).toContain("Win rate: 0%");
+    expect(lines).toContain("Cards left in the deck when a game was lost:");
+  });
+});
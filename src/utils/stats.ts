@@ -0,0 +1,174 @@
+// Lifetime statistics for one player. Each finished game is folded into the
+// totals once; everything shown to the player is derived from them. Each rule
+// set keeps its own totals, since a win rate mixed across grids and decks
+// compares nothing.
+import type { GameState, PlayerMove } from "../types/GameState";
+import type { RuleSet } from "../types/RuleSet";
+import { getPlayedMoves } from "./gameEngine";
+import { DEFAULT_RULES, formatRuleSet } from "./rules";
+
+export type GuessType = PlayerMove["highLowSame"];
+
+export const GUESS_TYPES: GuessType[] = ["high", "low", "same"];
+
+export interface GuessStats {
+  made: number;
+  correct: number;
+}
+
+export interface PlayerStats {
+  gamesPlayed: number;
+  wins: number;
+  currentStreak: number; // Wins in a row up to the latest game
+  bestStreak: number;
+  longestStack: number; // Most cards ever piled on a single stack, its first card included
+  cardsLeftAtLoss: Record<number, number>; // Losses by how many cards were still in the deck
+  guesses: Record<GuessType, GuessStats>;
+}
+
+// Stats for every rule set played, keyed by its text form (see formatRuleSet)
+export type RuleSetStats = Record<string, PlayerStats>;
+
+export interface GuessSummary extends GuessStats {
+  type: GuessType;
+  successRate: number | null; // null until a guess of the type is made
+}
+
+export interface StatsSummary {
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  winRate: number | null; // null before the first game
+  currentStreak: number;
+  bestStreak: number;
+  longestStack: number;
+  cardsLeftAtLoss: { cardsLeft: number; losses: number }[]; // Ordered by cards left
+  guesses: GuessSummary[];
+}
+
+export function createEmptyStats(): PlayerStats {
+  return {
+    gamesPlayed: 0,
+    wins: 0,
+    currentStreak: 0,
+    bestStreak: 0,
+    longestStack: 0,
+    cardsLeftAtLoss: {},
+    guesses: { high: { made: 0, correct: 0 }, low: { made: 0, correct: 0 }, same: { made: 0, correct: 0 } },
+  };
+}
+
+/**
+ * Add a finished game to the totals
+ * @returns new stats; unfinished games leave them as they are
+ */
+export function recordGame(stats: PlayerStats, state: GameState): PlayerStats {
+  if (!state.won && !state.lost) return stats;
+
+  const moves = getPlayedMoves(state);
+  const guesses = { ...stats.guesses };
+  moves.forEach(({ move, correct }) => {
+    const current = guesses[move.highLowSame];
+    guesses[move.highLowSame] = { made: current.made + 1, correct: current.correct + (correct ? 1 : 0) };
+  });
+
+  const currentStreak = state.won ? stats.currentStreak + 1 : 0;
+  const cardsLeft = state.drawDeck.length;
+  return {
+    gamesPlayed: stats.gamesPlayed + 1,
+    wins: stats.wins + (state.won ? 1 : 0),
+    currentStreak,
+    bestStreak: Math.max(stats.bestStreak, currentStreak),
+    longestStack: Math.max(stats.longestStack, ...state.stacks.flat().map((stack) => stack.cards.length)),
+    cardsLeftAtLoss: state.lost
+      ? { ...stats.cardsLeftAtLoss, [cardsLeft]: (stats.cardsLeftAtLoss[cardsLeft] ?? 0) + 1 }
+      : stats.cardsLeftAtLoss,
+    guesses,
+  };
+}
+
+/**
+ * Add a finished game to the totals of the rule set it was played under
+ * @returns new stats; unfinished games leave them as they are
+ */
+export function recordRuleSetGame(stats: RuleSetStats, state: GameState): RuleSetStats {
+  const key = formatRuleSet(state.rules);
+  const current = stats[key] ?? createEmptyStats();
+  const recorded = recordGame(current, state);
+  return recorded === current ? stats : { ...stats, [key]: recorded };
+}
+
+export const getRuleSetStats = (stats: RuleSetStats, rules: RuleSet): PlayerStats =>
+  stats[formatRuleSet(rules)] ?? createEmptyStats();
+
+/**
+ * Read saved stats. Stats saved before they were kept per rule set are one set
+ * of totals, and count as the default rules.
+ */
+export function parseRuleSetStats(saved: unknown): RuleSetStats {
+  if (!saved || typeof saved !== "object") return {};
+  if (typeof (saved as PlayerStats).gamesPlayed === "number") {
+    return { [formatRuleSet(DEFAULT_RULES)]: { ...createEmptyStats(), ...(saved as PlayerStats) } };
+  }
+  return Object.fromEntries(
+    Object.entries(saved as RuleSetStats).map(([rules, stats]) => [rules, { ...createEmptyStats(), ...stats }]),
+  );
+}
+
+export function getStatsSummary(stats: PlayerStats): StatsSummary {
+  const rate = (part: number, whole: number) => (whole > 0 ? part / whole : null);
+
+  return {
+    gamesPlayed: stats.gamesPlayed,
+    wins: stats.wins,
+    losses: stats.gamesPlayed - stats.wins,
+    winRate: rate(stats.wins, stats.gamesPlayed),
+    currentStreak: stats.currentStreak,
+    bestStreak: stats.bestStreak,
+    longestStack: stats.longestStack,
+    cardsLeftAtLoss: Object.entries(stats.cardsLeftAtLoss)
+      .map(([cardsLeft, losses]) => ({ cardsLeft: Number(cardsLeft), losses }))
+      .sort((a, b) => a.cardsLeft - b.cardsLeft),
+    guesses: GUESS_TYPES.map((type) => ({
+      type,
+      ...stats.guesses[type],
+      successRate: rate(stats.guesses[type].correct, stats.guesses[type].made),
+    })),
+  };
+}
+
+// The stats of one finished game on their own, for its summary
+export function getGameStats(state: GameState): StatsSummary {
+  return getStatsSummary(recordGame(createEmptyStats(), state));
+}
+
+export const formatRate = (rate: number | null) => (rate === null ? "–" : `${Math.round(rate * 100)}%`);
+
+/**
+ * The summary as plain text lines, for the CLI
+ */
+export function formatStatsSummary(stats: PlayerStats): string[] {
+  const summary = getStatsSummary(stats);
+  const lines = [
+    `Games played: ${summary.gamesPlayed} (${summary.wins} won, ${summary.losses} lost)`,
+    `Win rate: ${formatRate(summary.winRate)}`,
+    `Current streak: ${summary.currentStreak} · Best streak: ${summary.bestStreak}`,
+    `Longest stack: ${summary.longestStack} cards`,
+    "Guesses:",
+    ...summary.guesses.map(
+      (guess) => `  ${guess.type.padEnd(4)} ${String(guess.made).padStart(5)} made, ${formatRate(guess.successRate)} correct`,
+    ),
+  ];
+
+  if (summary.cardsLeftAtLoss.length > 0) {
+    const most = Math.max(...summary.cardsLeftAtLoss.map((bucket) => bucket.losses));
+    lines.push(
+      "Cards left in the deck when a game was lost:",
+      ...summary.cardsLeftAtLoss.map(
+        ({ cardsLeft, losses }) =>
+          `  ${String(cardsLeft).padStart(2)} ${"█".repeat(Math.max(1, Math.round((losses / most) * 20)))} ${losses}`,
+      ),
+    );
+  }
+  return lines;
+}
@@ -0,0 +1,19 @@
+// Long-running analyses are written as generators that yield their progress
+// between steps, so a worker can report it and stop early when cancelled.
+
+export interface StepProgress<T> {
+  completed: number;
+  total: number;
+  partial: T; // Best answer so far
+}
+
+export type Steps<T, R> = Generator<StepProgress<T>, R, void>;
+
+// Run an analysis to the end and return its result
+export function runSteps<T, R>(steps: Steps<T, R>): R {
+  let step = steps.next();
+  while (!step.done) {
+    step = steps.next();
+  }
+  return step.value;
+}
@@ -0,0 +1,59 @@
+// Small wrappers around localStorage that never throw, so a full quota,
+// private browsing or server-side rendering can't break the game.
+
+export function getLocalStorage(): Storage | undefined {
+  try {
+    return typeof window !== "undefined" ? window.localStorage : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function readJSON<T>(key: string, storage: Storage | undefined = getLocalStorage()): T | null {
+  if (!storage) return null;
+
+  try {
+    const raw = storage.getItem(key);
+    return raw === null ? null : (JSON.parse(raw) as T);
+  } catch {
+    return null;
+  }
+}
+
+export function writeJSON(key: string, value: unknown, storage: Storage | undefined = getLocalStorage()): boolean {
+  if (!storage) return false;
+
+  try {
+    storage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function removeItem(key: string, storage: Storage | undefined = getLocalStorage()) {
+  try {
+    storage?.removeItem(key);
+  } catch {
+    // Nothing to clean up if storage is unavailable
+  }
+}
+
+// In-memory Storage for environments without localStorage (tests, the CLI)
+export function createMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+  };
+}
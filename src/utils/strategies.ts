@@ -0,0 +1,144 @@
+// Playing strategies for simulations and hints. A strategy only sees what a
+// player could know: the stacks and which cards are left, never their order.
+import type { GameState, PlayerMove } from "../types/GameState";
+import { getLegalMoves, InvalidMoveError } from "./gameEngine";
+import { getAllRanks } from "./probabilityCalculations";
+import { getDeckRanks, getRankValue, keepsStackAlive } from "./rules";
+import { createSolver } from "./solver";
+
+const ranks = getAllRanks();
+
+export interface Strategy {
+  name: string;
+  description: string;
+  makeMove: (gameState: GameState, random: () => number) => PlayerMove;
+}
+
+export interface MoveProbability {
+  move: PlayerMove;
+  successProbability: number; // Chance that the next draw keeps the stack alive
+}
+
+/**
+ * The chance of each legal move succeeding on the next draw, given the cards
+ * left in the deck. Moves keep the order of getLegalMoves.
+ */
+export function getMoveProbabilities(state: GameState): MoveProbability[] {
+  const remaining = state.drawDeck.length;
+  const counts = new Map<string, number>();
+  for (const card of state.drawDeck) {
+    counts.set(card.rank, (counts.get(card.rank) ?? 0) + 1);
+  }
+
+  return getLegalMoves(state).map((move) => {
+    let successes = 0;
+    for (const rank of ranks) {
+      const count = counts.get(rank) ?? 0;
+      if (count > 0 && keepsStackAlive({ suit: move.card.suit, rank }, move.card, move.highLowSame, state.rules)) {
+        successes += count;
+      }
+    }
+    return { move, successProbability: successes / remaining };
+  });
+}
+
+const requireMoves = (state: GameState): MoveProbability[] => {
+  const moves = getMoveProbabilities(state);
+  if (moves.length === 0) {
+    throw new InvalidMoveError("There are no moves left to play");
+  }
+  return moves;
+};
+
+// The first move with the highest chance of success
+export function getHighestProbabilityMove(state: GameState): PlayerMove {
+  return requireMoves(state).reduce((best, candidate) =>
+    candidate.successProbability > best.successProbability ? candidate : best,
+  ).move;
+}
+
+// The least likely guess that still favours the player, keeping the safest stacks for later
+export function getHighestRewardMove(state: GameState): PlayerMove {
+  const favourable = requireMoves(state).filter(({ successProbability }) => successProbability >= 0.5);
+  if (favourable.length === 0) return getHighestProbabilityMove(state);
+
+  return favourable.reduce((riskiest, candidate) =>
+    candidate.successProbability < riskiest.successProbability ? candidate : riskiest,
+  ).move;
+}
+
+// Play higher or lower on the most extreme card without counting cards
+export function getLowestRiskMove(state: GameState): PlayerMove {
+  const { deck, rankOrder } = state.rules;
+  const value = (move: PlayerMove) => getRankValue(move.card.rank, rankOrder);
+  // The average rank of a full deck, 8 for the standard one
+  const deckRanks = getDeckRanks(deck, rankOrder);
+  const middle = deckRanks.reduce((sum, rank) => sum + getRankValue(rank, rankOrder), 0) / deckRanks.length;
+  const distance = (move: PlayerMove) => Math.abs(value(move) - middle);
+  const candidates = requireMoves(state)
+    .map(({ move }) => move)
+    .filter((move) => (value(move) < middle ? move.highLowSame === "high" : move.highLowSame === "low"));
+
+  return candidates.reduce((best, candidate) => (distance(candidate) > distance(best) ? candidate : best));
+}
+
+export function getRandomMove(state: GameState, random: () => number): PlayerMove {
+  const moves = requireMoves(state);
+  return moves[Math.floor(random() * moves.length)].move;
+}
+
+export interface OptimalStrategyOptions {
+  maxCards?: number;  // Only run the exact solver once this few cards are left
+  maxStates?: number; // Solver budget per position
+}
+
+/**
+ * Exact optimal play (see solver.ts) once the position is small enough to
+ * solve, and the highest probability move before that. The solver's memo is
+ * shared by every game this strategy plays.
+ */
+export function createOptimalStrategy(options: OptimalStrategyOptions = {}): Strategy {
+  const maxCards = options.maxCards ?? 8;
+  const solver = createSolver({ maxStates: options.maxStates ?? 200_000 });
+
+  return {
+    name: "optimal",
+    description: "Exact optimal play near the end of the game, greedy before that",
+    makeMove: (state) => {
+      if (state.drawDeck.length <= maxCards) {
+        const { bestMove } = solver.solveGame(state);
+        if (bestMove) return bestMove;
+      }
+      return getHighestProbabilityMove(state);
+    },
+  };
+}
+
+// Predefined strategies for comparison
+export const strategies: Strategy[] = [
+  createOptimalStrategy(),
+  {
+    name: "greedy-probability",
+    description: "Always choose the move with highest immediate win probability",
+    makeMove: (state) => getHighestProbabilityMove(state),
+  },
+  {
+    name: "conservative",
+    description: "Guess higher or lower on the most extreme card, without counting cards",
+    makeMove: (state) => getLowestRiskMove(state),
+  },
+  {
+    name: "aggressive",
+    description: "Take the riskiest guess that still favours you, saving safe stacks for later",
+    makeMove: (state) => getHighestRewardMove(state),
+  },
+  {
+    name: "random",
+    description: "Random valid moves (baseline for comparison)",
+    makeMove: (state, random) => getRandomMove(state, random),
+  },
+];
+
+export function getStrategy(name: string): Strategy | undefined {
+  return strategies.find((strategy) => strategy.name === name);
+}
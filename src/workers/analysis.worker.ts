@@ -0,0 +1,15 @@
+// Web Worker entry point for solver and simulation requests (see analysisProtocol.ts)
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from "./analysisProtocol";
+import { createAnalysisRunner } from "./analysisRunner";
+
+// The project is type-checked against the DOM library, so describe the worker scope by hand
+const scope = self as unknown as {
+  postMessage: (response: AnalysisWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<AnalysisWorkerRequest>) => void) | null;
+};
+
+const handleMessage = createAnalysisRunner((response) => scope.postMessage(response));
+
+scope.onmessage = (event) => {
+  void handleMessage(event.data);
+};
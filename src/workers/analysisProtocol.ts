@@ -0,0 +1,56 @@
+// Messages between the board and the analysis worker. Every analysis has an id
+// so progress, results and cancellations can be matched to the request.
+import type { GameState } from "../types/GameState";
+import type { SimulationResult } from "../utils/monteCarlo";
+import type { MoveSuggestion, SuggestionRanking } from "../utils/moveSuggestions";
+import type { MoveEvaluation, SolverResult } from "../utils/solver";
+
+export type AnalysisRequest =
+  | { type: 'solve'; maxStates?: number }
+  | {
+      type: 'simulate';
+      strategy: string;          // Name of one of the predefined strategies
+      iterations: number;
+      maxDepth?: number;
+      moveIterations?: number;
+      fromCurrentState: boolean; // Otherwise every game is a fresh deal
+      seed?: number;
+    }
+  | { type: 'suggest'; ranking: SuggestionRanking; maxStates?: number };
+
+export type AnalysisKind = AnalysisRequest['type'];
+
+// What each kind of analysis finally returns
+export interface AnalysisResults {
+  solve: SolverResult;
+  simulate: SimulationResult;
+  suggest: MoveSuggestion | null;
+}
+
+// The best answer so far while an analysis runs
+export interface AnalysisPartials {
+  solve: MoveEvaluation[];
+  simulate: SimulationResult;
+  suggest: MoveSuggestion | null;
+}
+
+// Board -> worker
+export type AnalysisWorkerRequest =
+  | { type: 'analyze'; id: number; gameState: GameState; request: AnalysisRequest }
+  | { type: 'cancel'; id: number };
+
+// Worker -> board
+export type AnalysisWorkerResponse =
+  | {
+      [K in AnalysisKind]: {
+        type: 'progress';
+        id: number;
+        kind: K;
+        completed: number;
+        total: number;
+        partial: AnalysisPartials[K];
+      };
+    }[AnalysisKind]
+  | { [K in AnalysisKind]: { type: 'result'; id: number; kind: K; result: AnalysisResults[K] } }[AnalysisKind]
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; name: string; message: string };
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { Card } from "../types/CardTypes";
+import type { GameState } from "../types/GameState";
+import { createGame } from "../utils/gameEngine";
+import { solveGame } from "../utils/solver";
+import type { AnalysisWorkerResponse } from "./analysisProtocol";
+import { createAnalysisRunner } from "./analysisRunner";
+
+// A game where only the given stacks are active and the given cards are left to draw
+const setupPosition = (stackCards: (Card | null)[], drawDeck: Card[]): GameState => {
+  const state = createGame({ seed: 17 });
+  const stacks = state.stacks.map((row, rowIndex) =>
+    row.map((stack, columnIndex) => {
+      const card = stackCards[rowIndex * 3 + columnIndex];
+      return card ? { cards: [card], status: "active" as const } : { ...stack, status: "failed" as const };
+    }),
+  ) as GameState["stacks"];
+  return { ...state, stacks, drawDeck };
+};
+
+const card = (rank: Card["rank"], suit: Card["suit"] = "Clubs"): Card => ({ suit, rank });
+
+const smallPosition = () =>
+  setupPosition([card("5"), card("Queen")], [card("9"), card("3"), card("Jack"), card("5", "Hearts")]);
+
+const createTestRunner = () => {
+  const responses: AnalysisWorkerResponse[] = [];
+  const handleMessage = createAnalysisRunner((response) => responses.push(response));
+  return { responses, handleMessage };
+};
+
+describe("Analysis Runner", () => {
+  it("should stream progress for every root move and then post the exact result", async () => {
+    const gameState = smallPosition();
+    const { responses, handleMessage } = createTestRunner();
+
+    await handleMessage({ type: "analyze", id: 1, gameState, request: { type: "solve" } });
+
+    const progress = responses.filter((response) => response.type === "progress");
+    const result = responses.at(-1);
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress.every((response) => response.id === 1 && response.kind === "solve")).toBe(true);
+    expect(result).toMatchObject({ type: "result", id: 1, kind: "solve" });
+    expect(result?.type === "result" && result.result).toEqual(solveGame(gameState));
+  });
+
+  it("should stop between steps when the analysis is cancelled", async () => {
+    const { responses, handleMessage } = createTestRunner();
+
+    const running = handleMessage({
+      type: "analyze",
+      id: 2,
+      gameState: createGame({ seed: 3 }),
+      request: { type: "simulate", strategy: "greedy-probability", iterations: 100_000, fromCurrentState: false },
+    });
+    await handleMessage({ type: "cancel", id: 2 });
+    await running;
+
+    expect(responses.at(-1)).toEqual({ type: "cancelled", id: 2 });
+    expect(responses.some((response) => response.type === "result")).toBe(false);
+  });
+
+  it("should post an error for an unknown strategy", async () => {
+    const { responses, handleMessage } = createTestRunner();
+
+    await handleMessage({
+      type: "analyze",
+      id: 3,
+      gameState: createGame({ seed: 3 }),
+      request: { type: "simulate", strategy: "telepathy", iterations: 10, fromCurrentState: false },
+    });
+
+    expect(responses).toEqual([
+      { type: "error", id: 3, name: "UnknownStrategyError", message: 'Unknown strategy "telepathy"' },
+    ]);
+  });
+
+  it("should post an estimate when the position is too big to solve", async () => {
+    const { responses, handleMessage } = createTestRunner();
+
+    await handleMessage({
+      type: "analyze",
+      id: 4,
+      gameState: createGame({ seed: 3 }),
+      request: { type: "solve", maxStates: 100 },
+    });
+
+    expect(responses.at(-1)).toMatchObject({ type: "result", id: 4, kind: "solve", result: { exact: false } });
+  });
+});
@@ -0,0 +1,116 @@
+// Runs analyses for the worker. Kept apart from the worker entry point so it
+// can also run on the main thread where workers are unavailable, and in tests.
+import type { GameState } from "../types/GameState";
+import { runSimulationSteps } from "../utils/monteCarlo";
+import { suggestMoveSteps } from "../utils/moveSuggestions";
+import { createSolver } from "../utils/solver";
+import type { Steps } from "../utils/steps";
+import { getStrategy } from "../utils/strategies";
+import type {
+  AnalysisKind,
+  AnalysisPartials,
+  AnalysisRequest,
+  AnalysisResults,
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse,
+} from "./analysisProtocol";
+
+// Off the main thread the solver can afford a much bigger budget
+const WORKER_MAX_STATES = 1_000_000;
+
+export class UnknownStrategyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnknownStrategyError";
+  }
+}
+
+// Let queued messages (such as a cancel) through between steps
+const nextTask = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Create a message handler for analysis requests
+ * @param post sends a response back to the board
+ */
+export function createAnalysisRunner(post: (response: AnalysisWorkerResponse) => void) {
+  const cancelled = new Set<number>();
+  // One solver for every request, so positions from earlier moves are reused
+  const solver = createSolver({ maxStates: WORKER_MAX_STATES });
+
+  const drive = async <K extends AnalysisKind>(
+    id: number,
+    kind: K,
+    steps: Steps<AnalysisPartials[K], AnalysisResults[K]>,
+  ) => {
+    let step = steps.next();
+    while (!step.done) {
+      const { completed, total, partial } = step.value;
+      post({ type: 'progress', id, kind, completed, total, partial } as AnalysisWorkerResponse);
+
+      await nextTask();
+      if (cancelled.has(id)) {
+        steps.return(undefined as never);
+        post({ type: 'cancelled', id });
+        return;
+      }
+      step = steps.next();
+    }
+    post({ type: 'result', id, kind, result: step.value } as AnalysisWorkerResponse);
+  };
+
+  const analyze = (id: number, gameState: GameState, request: AnalysisRequest) => {
+    switch (request.type) {
+      case 'solve':
+        if (request.maxStates !== undefined) {
+          return drive(id, 'solve', createSolver({ maxStates: request.maxStates }).solveGameSteps(gameState));
+        }
+        return drive(id, 'solve', solver.solveGameSteps(gameState));
+
+      case 'simulate': {
+        const strategy = getStrategy(request.strategy);
+        if (!strategy) {
+          throw new UnknownStrategyError(`Unknown strategy "${request.strategy}"`);
+        }
+        return drive(
+          id,
+          'simulate',
+          runSimulationSteps(request.fromCurrentState ? gameState : null, {
+            iterations: request.iterations,
+            maxDepth: request.maxDepth ?? 100,
+            strategy,
+            moveIterations: request.moveIterations,
+            seed: request.seed,
+          }),
+        );
+      }
+
+      case 'suggest':
+        return drive(
+          id,
+          'suggest',
+          suggestMoveSteps(gameState, request.ranking, { maxStates: request.maxStates ?? 200_000 }),
+        );
+    }
+  };
+
+  return async (message: AnalysisWorkerRequest) => {
+    if (message.type === 'cancel') {
+      cancelled.add(message.id);
+      return;
+    }
+
+    const { id, gameState, request } = message;
+    try {
+      await analyze(id, gameState, request);
+    } catch (error) {
+      post({
+        type: 'error',
+        id,
+        name: error instanceof Error ? error.name : 'Error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      cancelled.delete(id);
+    }
+  };
+}
@@ -4,6 +4,8 @@
 declare namespace Cloudflare {
 	interface Env {
 		ASSETS: Fetcher;
+		GAMES: KVNamespace;
+		LEADERBOARD: D1Database;
 	}
 }
 interface Env extends Cloudflare.Env {}